@@ -0,0 +1,25 @@
+// dotenv MUST be the first import (SAM_SARA_API_TOKEN is read by the vehicles fetch)
+import dotenv from 'dotenv';
+dotenv.config({ path: '/opt/pti-bot/.env' });
+
+import { backfillTruckVehicleLinks, formatTruckLinkResult } from '../src/services/truckLinks';
+
+// Same backfill as /link_trucks. Usage: npm run link:trucks [-- --dry-run]
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('🔄 Linking trucks to Samsara vehicle IDs...');
+  const result = await backfillTruckVehicleLinks(dryRun);
+  console.log(formatTruckLinkResult(result, dryRun));
+
+  if (!result.samsaraAvailable) {
+    process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error('❌ Error:', e);
+    process.exit(1);
+  });
@@ -0,0 +1,50 @@
+// dotenv MUST be the first import (SAMSARA_WEBHOOK_SECRET / SAMSARA_WEBHOOK_PORT)
+import dotenv from 'dotenv';
+dotenv.config({ path: '/opt/pti-bot/.env' });
+
+import fs from 'fs';
+import axios from 'axios';
+import { getSamsaraWebhookPath, signSamsaraWebhook } from '../src/services/samsaraWebhook';
+
+// Replay a recorded Samsara webhook payload against a running bot, signed like Samsara does.
+// Usage: npm run webhook:post -- <payload.json> [url]
+// Example: npm run webhook:post -- scripts/webhook-payloads/safety-event-created.json
+async function main() {
+  const [file, url] = process.argv.slice(2);
+  if (!file) {
+    console.error('Usage: npm run webhook:post -- <payload.json> [url]');
+    process.exit(1);
+  }
+
+  const secret = process.env.SAMSARA_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ SAMSARA_WEBHOOK_SECRET is missing in .env');
+    process.exit(1);
+  }
+
+  const target =
+    url || `http://localhost:${process.env.SAMSARA_WEBHOOK_PORT || '8080'}${getSamsaraWebhookPath()}`;
+  const body = fs.readFileSync(file, 'utf8');
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const res = await axios.post(target, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Samsara-Timestamp': timestamp,
+      'X-Samsara-Signature': signSamsaraWebhook(secret, timestamp, body),
+    },
+    validateStatus: () => true,
+  });
+  console.log(`📨 POST ${target} → ${res.status}`);
+
+  if (res.status !== 200) {
+    process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error('❌ Error:', e.message || e);
+    process.exit(1);
+  });
@@ -2,6 +2,7 @@ import { Context } from 'telegraf';
 import { getSafetyEventsInWindow, SafetyEvent } from '../samsara';
 import { fetchSpeedingIntervals, fetchSpeedingIntervalsWithSlidingWindow, SpeedingInterval } from '../services/samsaraSpeeding';
 import { getAllVehicleAssetIds } from '../services/samsaraVehicles';
+import { formatSamsaraMetrics, getSamsaraClient } from '../services/samsaraClient';
 import {
   normalizeSafetyEvents,
   normalizeSpeedingIntervals,
@@ -249,11 +250,13 @@ export async function handleDebugSafety(ctx: Context): Promise<void> {
   // Fetch both safety events and speeding intervals (DO NOT write to DB, DO NOT send to groups)
   // Safety: uses explicit window (last N hours)
   // Speeding: uses sliding window strategy (max(N, windowHours) + buffer)
-  const [safetyEvents, speedingResult] = await Promise.all([
-    getSafetyEventsInWindow({ from, to: now }, 200),
+  const [safetyResult, speedingResult] = await Promise.all([
+    getSafetyEventsInWindow({ from, to: now }),
     fetchSpeedingIntervalsWithSlidingWindow(),
   ]);
 
+  const safetyEvents = safetyResult.events;
+
   const speedingIntervals = speedingResult.newToPost; // Use newToPost to see what would be posted
   const totalSpeedingIntervals = speedingResult.total;
   const severeSpeedingTotal = speedingResult.severe; // Total severe (including already sent)
@@ -290,11 +293,21 @@ export async function handleDebugSafety(ctx: Context): Promise<void> {
   responseLines.push(`  Speeding window: ${speedingWindowHours}h + ${bufferMinutes}m buffer (${speedingResult.windowStart} to ${speedingResult.windowEnd})`);
   responseLines.push('');
   responseLines.push(`Vehicles count: ${vehicleAssetIds.length} (mode: ${mode})`);
-  responseLines.push(`Safety Events (raw): ${totalSafetyEvents}`);
+  responseLines.push(`Safety Events (raw): ${totalSafetyEvents} (${safetyResult.pages} page(s))`);
+  if (safetyResult.error) {
+    responseLines.push(`  ❌ Samsara ${safetyResult.error.kind} error: ${safetyResult.error.message}`);
+  } else if (safetyResult.truncated) {
+    responseLines.push(`  ⚠️ Truncated at ${totalSafetyEvents} events (SAMSARA_SAFETY_MAX_EVENTS), more events exist in this window`);
+  }
   responseLines.push(`Safety Events (normalized): ${normalizedSafety.length}`);
   responseLines.push(`Speeding intervals (total): ${totalSpeedingIntervals}`);
   responseLines.push(`Speeding intervals (severe total): ${severeSpeedingTotal}`);
   responseLines.push(`Speeding intervals (new to post): ${severeSpeedingNewCount}`);
+  if (speedingResult.error) {
+    responseLines.push(
+      `  ❌ Samsara ${speedingResult.error.kind} error (${speedingResult.failedAssetIds.length} asset(s) failed): ${speedingResult.error.message}`
+    );
+  }
   responseLines.push('');
 
   if (topTypes.length > 0) {
@@ -311,6 +324,8 @@ export async function handleDebugSafety(ctx: Context): Promise<void> {
   } else {
     responseLines.push(`Example Severe Speeding Interval: None found`);
   }
+  responseLines.push('');
+  responseLines.push(...formatSamsaraMetrics(getSamsaraClient().getMetrics()));
 
   const response = responseLines.join('\n');
 
@@ -0,0 +1,98 @@
+import { Context } from 'telegraf';
+import { DigestFrequency } from '@prisma/client';
+import { isChatAdmin } from '../guards/isAdmin';
+import { findChatByTelegramChatId, updateChatDigestSettings } from '../repository';
+import { buildSafetyDigest } from '../services/safetyDigest';
+import { parseTimeOfDay } from '../services/timezone';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const USAGE = `Safety digest for this group
+
+/digest - show settings
+/digest daily [HH:MM] - every day, summary of yesterday
+/digest weekly [HH:MM] [mon..sun] - once a week, summary of the last 7 days
+/digest off
+/digest preview [daily|weekly]
+
+Time is the group's local time (/set_pti_schedule timezone).`;
+
+/**
+ * /digest [off|daily|weekly|preview] [HH:MM] [weekday]
+ * Group admins only. Opt-in safety digest for this group.
+ */
+export async function handleDigest(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private') return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const [action = '', ...args] = text.split(/\s+/).slice(1).map((a) => a.toLowerCase());
+
+  if (!action) {
+    const schedule =
+      chat.digestFrequency === 'off'
+        ? 'off'
+        : `${chat.digestFrequency} at ${chat.digestTime}` +
+          (chat.digestFrequency === 'weekly' ? ` on ${DAY_NAMES[chat.digestWeekday]}` : '') +
+          ` (${chat.timezone})`;
+    await ctx.reply(`📰 Safety digest: ${schedule}\n\n${USAGE}`);
+    return;
+  }
+
+  if (action === 'preview') {
+    const requested = args[0] || chat.digestFrequency;
+    const frequency = requested === 'weekly' ? 'weekly' : 'daily';
+    await ctx.reply(await buildSafetyDigest(chat, frequency));
+    return;
+  }
+
+  if (!['off', 'daily', 'weekly'].includes(action)) {
+    await ctx.reply(USAGE);
+    return;
+  }
+
+  let digestTime: string | undefined;
+  let digestWeekday: number | undefined;
+  for (const arg of args) {
+    if (parseTimeOfDay(arg) !== null) {
+      digestTime = arg.padStart(5, '0');
+    } else if (DAY_NAMES.some((d) => arg.startsWith(d.toLowerCase()))) {
+      digestWeekday = DAY_NAMES.findIndex((d) => arg.startsWith(d.toLowerCase()));
+    } else {
+      await ctx.reply(`❌ Unknown argument "${arg}".\n\n${USAGE}`);
+      return;
+    }
+  }
+
+  const updated = await updateChatDigestSettings(chat.telegramChatId, {
+    digestFrequency: action as DigestFrequency,
+    digestTime,
+    digestWeekday,
+  });
+  if (!updated) {
+    await ctx.reply('❌ Failed to save digest settings.');
+    return;
+  }
+
+  if (updated.digestFrequency === 'off') {
+    await ctx.reply('✅ Safety digest turned off for this group.');
+    return;
+  }
+
+  await ctx.reply(
+    `✅ Safety digest: ${updated.digestFrequency} at ${updated.digestTime}` +
+      (updated.digestFrequency === 'weekly' ? ` on ${DAY_NAMES[updated.digestWeekday]}` : '') +
+      ` (${updated.timezone}).`
+  );
+}
@@ -0,0 +1,377 @@
+import { Context, Markup } from 'telegraf';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { Chat, SafetyEventLog } from '@prisma/client';
+import { isAdminInPrivateChat } from '../guards/isAdmin';
+import {
+  getAllChats,
+  getAllTrucks,
+  getPtiMissesInRange,
+  getSafetyEventLogById,
+  getSafetyEventLogDetails,
+  getSafetyEventLogsInRange,
+} from '../repository';
+import { DEFAULT_TIMEZONE, getLocalDate, getLocalDateKey, getUtcForLocalTime } from '../services/timezone';
+
+/**
+ * /fleet - manager dashboard for today (bot admins, private chat).
+ *
+ * Served from the database only (no Samsara calls). Navigation is done by
+ * editing the same message with "fl:" callbacks:
+ * - fl:home                 overview
+ * - fl:t:<page>             trucks with events today
+ * - fl:tr:<logId>:<page>    events of the truck of a log row
+ * - fl:ev:<logId>           event detail
+ * - fl:um:<page>            trucks / vehicles without a mapped chat
+ * - fl:nd:<page>            chats without a driver
+ * - fl:pm:<page>            PTI misses today
+ */
+
+const PAGE_SIZE = 8;
+
+type FleetView = { text: string; keyboard: InlineKeyboardButton[][] };
+
+type FleetToday = {
+  dateLabel: string;
+  logs: SafetyEventLog[]; // Today, newest first
+  chatsByTelegramId: Map<string, Chat>;
+};
+
+/**
+ * Today's events in DEFAULT_TIMEZONE plus the chats they were sent to.
+ */
+async function loadToday(now: Date): Promise<FleetToday> {
+  const todayKey = getLocalDateKey(now, DEFAULT_TIMEZONE);
+  const tomorrowKey = new Date(getLocalDate(now, DEFAULT_TIMEZONE).getTime() + 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+  const [logs, chats] = await Promise.all([
+    getSafetyEventLogsInRange(
+      getUtcForLocalTime(todayKey, 0, DEFAULT_TIMEZONE),
+      getUtcForLocalTime(tomorrowKey, 0, DEFAULT_TIMEZONE)
+    ),
+    getAllChats(),
+  ]);
+  return {
+    dateLabel: now.toLocaleDateString('en-US', { timeZone: DEFAULT_TIMEZONE, month: 'short', day: 'numeric' }),
+    logs,
+    chatsByTelegramId: new Map(chats.map((c) => [c.telegramChatId.toString(), c])),
+  };
+}
+
+function formatTime(date: Date, chat?: Chat | null): string {
+  return date.toLocaleTimeString('en-US', {
+    timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatDriver(chat: Chat): string {
+  return (
+    [chat.driverFirstName, chat.driverLastName].filter(Boolean).join(' ') ||
+    (chat.driverUsername ? `@${chat.driverUsername}` : 'no driver')
+  );
+}
+
+/**
+ * Slice a list for a page and build the ‹ / › navigation row.
+ */
+function paginate<T>(items: T[], page: number, prefix: string): { items: T[]; nav: InlineKeyboardButton[]; label: string } {
+  const pages = Math.max(1, Math.ceil(items.length / PAGE_SIZE));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+  const nav: InlineKeyboardButton[] = [];
+  if (current > 0) nav.push(Markup.button.callback('‹ Prev', `${prefix}:${current - 1}`));
+  if (current < pages - 1) nav.push(Markup.button.callback('Next ›', `${prefix}:${current + 1}`));
+  return {
+    items: items.slice(current * PAGE_SIZE, (current + 1) * PAGE_SIZE),
+    nav,
+    label: pages > 1 ? ` (page ${current + 1}/${pages})` : '',
+  };
+}
+
+const homeButton = () => Markup.button.callback('⬅️ Fleet', 'fl:home');
+
+/**
+ * Group today's logs by vehicle: [vehicleName, logs] sorted by event count.
+ */
+function groupByVehicle(logs: SafetyEventLog[]): [string, SafetyEventLog[]][] {
+  const groups = new Map<string, SafetyEventLog[]>();
+  for (const log of logs) {
+    groups.set(log.vehicleName, [...(groups.get(log.vehicleName) ?? []), log]);
+  }
+  return Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+}
+
+async function renderHome(now: Date): Promise<FleetView> {
+  const today = await loadToday(now);
+  const [trucks, chats, misses] = await Promise.all([
+    getAllTrucks(),
+    getAllChats(),
+    getPtiMissesInRange(getLocalDate(now, DEFAULT_TIMEZONE), getLocalDate(now, DEFAULT_TIMEZONE)),
+  ]);
+
+  const vehicles = groupByVehicle(today.logs);
+  const unmappedCount = trucks.filter((t) => t.chatId === null).length;
+  const noDriverCount = chats.filter((c) => !c.driverTgUserId && !c.driverUsername).length;
+  const undelivered = today.logs.filter((l) => l.sentToChatId === null).length;
+  const dismissed = today.logs.filter((l) => l.dismissedAt).length;
+
+  const lines = [
+    `🚚 Fleet — today (${today.dateLabel})`,
+    '',
+    `Events: ${today.logs.length} on ${vehicles.length} truck(s)` +
+      (dismissed ? `, ${dismissed} dismissed` : '') +
+      (undelivered ? `, ${undelivered} not delivered (no chat)` : ''),
+    `Trucks: ${trucks.length}, without chat: ${unmappedCount}`,
+    `Groups: ${chats.length}, without driver: ${noDriverCount}`,
+    `PTI misses today: ${misses.length}`,
+  ];
+  if (vehicles.length) {
+    lines.push('', 'Most events:');
+    for (const [name, logs] of vehicles.slice(0, 5)) {
+      lines.push(`• ${name} — ${logs.length}`);
+    }
+  }
+
+  return {
+    text: lines.join('\n'),
+    keyboard: [
+      [Markup.button.callback(`🚛 Trucks with events (${vehicles.length})`, 'fl:t:0')],
+      [
+        Markup.button.callback(`❓ No chat (${unmappedCount})`, 'fl:um:0'),
+        Markup.button.callback(`👤 No driver (${noDriverCount})`, 'fl:nd:0'),
+      ],
+      [Markup.button.callback(`🚩 PTI misses (${misses.length})`, 'fl:pm:0')],
+      [Markup.button.callback('🔄 Refresh', 'fl:home')],
+    ],
+  };
+}
+
+async function renderTrucks(now: Date, page: number): Promise<FleetView> {
+  const today = await loadToday(now);
+  const vehicles = groupByVehicle(today.logs);
+  const { items, nav, label } = paginate(vehicles, page, 'fl:t');
+
+  return {
+    text: vehicles.length
+      ? `🚛 Trucks with events today${label}`
+      : '🚛 No events today.',
+    keyboard: [
+      ...items.map(([name, logs]) => {
+        const chat = logs[0].sentToChatId ? today.chatsByTelegramId.get(logs[0].sentToChatId.toString()) : null;
+        const text = `${name} — ${logs.length} event(s)${chat ? '' : ' ❓'}`;
+        return [Markup.button.callback(text, `fl:tr:${logs[0].id}:0`)];
+      }),
+      ...(nav.length ? [nav] : []),
+      [homeButton()],
+    ],
+  };
+}
+
+async function renderTruck(now: Date, logId: number, page: number): Promise<FleetView> {
+  const anchor = await getSafetyEventLogById(logId);
+  if (!anchor) {
+    return { text: '❌ Event not found.', keyboard: [[homeButton()]] };
+  }
+
+  const today = await loadToday(now);
+  const logs = today.logs.filter((l) => l.vehicleName === anchor.vehicleName);
+  const chat = anchor.sentToChatId ? today.chatsByTelegramId.get(anchor.sentToChatId.toString()) ?? null : null;
+  const { items, nav, label } = paginate(logs, page, `fl:tr:${logId}`);
+
+  const lines = [
+    `🚛 ${anchor.vehicleName}${label}`,
+    chat ? `Group: ${chat.name}\nDriver: ${formatDriver(chat)}` : 'Group: — (not mapped)',
+    `Events today: ${logs.length}`,
+  ];
+
+  return {
+    text: lines.join('\n'),
+    keyboard: [
+      ...items.map((log) => {
+        const flags = `${log.dismissedAt ? ' 🚫' : ''}${log.acknowledgedAt ? ' ✅' : ''}`;
+        const text = `${formatTime(log.timeLocal, chat)} — ${log.behavior}${flags}`.slice(0, 60);
+        return [Markup.button.callback(text, `fl:ev:${log.id}`)];
+      }),
+      ...(nav.length ? [nav] : []),
+      [Markup.button.callback('⬅️ Trucks', 'fl:t:0'), homeButton()],
+    ],
+  };
+}
+
+async function renderEvent(logId: number): Promise<FleetView> {
+  const log = await getSafetyEventLogDetails(logId);
+  if (!log) {
+    return { text: '❌ Event not found.', keyboard: [[homeButton()]] };
+  }
+
+  const chats = await getAllChats();
+  const chat = log.sentToChatId ? chats.find((c) => c.telegramChatId === log.sentToChatId) ?? null : null;
+  const timeLabel = log.timeLocal.toLocaleString('en-US', {
+    timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+
+  const lines = [
+    `🔎 Event #${log.id}`,
+    `Truck: ${log.vehicleName}`,
+    `Behavior: ${log.behavior}`,
+    `Time: ${timeLabel}`,
+    `Group: ${chat ? chat.name : log.sentToChatId ? log.sentToChatId.toString() : '— (not delivered)'}`,
+  ];
+  if (log.archivedAt) {
+    lines.push('Alert: 🗂 caught up after downtime, no separate alert (CATCHUP_OLD_EVENT_POLICY)');
+  }
+  if (log.driverTgUserId) {
+    lines.push(
+      `Driver ack: ${log.acknowledgedAt ? `✅ ${formatTime(log.acknowledgedAt, chat)}` : '⏳ pending'}` +
+        (log.ackEscalatedAt ? ' (escalated)' : '')
+    );
+  }
+  if (log.dispute) {
+    lines.push(`Dispute: ${log.dispute.status}${log.dispute.reason ? ` — "${log.dispute.reason.slice(0, 200)}"` : ''}`);
+  }
+  if (log.coachingState) {
+    lines.push(`Coaching (Samsara): ${log.coachingState}`);
+  }
+  const lastAction = log.coachingActions[0];
+  if (lastAction) {
+    lines.push(
+      `Last manager action: ${lastAction.action} by ${lastAction.tgUsername ? `@${lastAction.tgUsername}` : lastAction.tgUserId}` +
+        (lastAction.samsaraSynced ? '' : ' (Samsara update failed)')
+    );
+  }
+  if (log.dismissedAt) {
+    lines.push('🚫 Dismissed — not counted');
+  }
+  if (log.latitude !== null && log.longitude !== null) {
+    lines.push(`Location: https://maps.google.com/?q=${log.latitude},${log.longitude}`);
+  }
+  lines.push(log.videoUrl ? `🎥 Video: ${log.videoUrl}` : '🎥 No video');
+
+  return {
+    text: lines.join('\n'),
+    keyboard: [[Markup.button.callback(`⬅️ ${log.vehicleName}`, `fl:tr:${log.id}:0`), homeButton()]],
+  };
+}
+
+async function renderUnmapped(now: Date, page: number): Promise<FleetView> {
+  const [trucks, today] = await Promise.all([getAllTrucks(), loadToday(now)]);
+  const known = new Set(trucks.map((t) => t.name));
+  const rows = [
+    ...trucks.filter((t) => t.chatId === null).map((t) => `• ${t.name} — no chat`),
+    // Vehicles that reported events today but are not in the trucks table
+    ...Array.from(new Set(today.logs.filter((l) => !known.has(l.vehicleName)).map((l) => l.vehicleName))).map(
+      (name) => `• ${name} — not in trucks table (events today)`
+    ),
+  ];
+  const { items, nav, label } = paginate(rows, page, 'fl:um');
+
+  return {
+    text: rows.length ? [`❓ Trucks without a chat${label}`, '', ...items].join('\n') : '✅ Every truck has a chat.',
+    keyboard: [...(nav.length ? [nav] : []), [homeButton()]],
+  };
+}
+
+async function renderNoDriver(page: number): Promise<FleetView> {
+  const chats = (await getAllChats()).filter((c) => !c.driverTgUserId && !c.driverUsername);
+  const { items, nav, label } = paginate(chats, page, 'fl:nd');
+
+  return {
+    text: chats.length
+      ? [`👤 Groups without a driver${label}`, '', ...items.map((c) => `• ${c.name}${c.truckNames ? ` (${c.truckNames})` : ''}`)].join('\n')
+      : '✅ Every group has a driver.',
+    keyboard: [...(nav.length ? [nav] : []), [homeButton()]],
+  };
+}
+
+async function renderPtiMisses(now: Date, page: number): Promise<FleetView> {
+  const today = getLocalDate(now, DEFAULT_TIMEZONE);
+  const [misses, chats] = await Promise.all([getPtiMissesInRange(today, today), getAllChats()]);
+  const chatNames = new Map(chats.map((c) => [c.id, c.name]));
+  const { items, nav, label } = paginate(misses, page, 'fl:pm');
+
+  return {
+    text: misses.length
+      ? [
+          `🚩 PTI misses today${label}`,
+          '',
+          ...items.map((m) => `• ${chatNames.get(m.chatId) ?? m.chatId}${m.truckNames ? ` (${m.truckNames})` : ''}`),
+        ].join('\n')
+      : '✅ No PTI misses recorded today (misses are recorded at the escalation time).',
+    keyboard: [...(nav.length ? [nav] : []), [homeButton()]],
+  };
+}
+
+/**
+ * Render a view from callback data ("fl:...").
+ */
+async function renderView(data: string, now: Date): Promise<FleetView> {
+  const [, view, a, b] = data.split(':');
+  const num = (value: string | undefined) => parseInt(value || '0', 10) || 0;
+
+  switch (view) {
+    case 't':
+      return renderTrucks(now, num(a));
+    case 'tr':
+      return renderTruck(now, num(a), num(b));
+    case 'ev':
+      return renderEvent(num(a));
+    case 'um':
+      return renderUnmapped(now, num(a));
+    case 'nd':
+      return renderNoDriver(num(a));
+    case 'pm':
+      return renderPtiMisses(now, num(a));
+    default:
+      return renderHome(now);
+  }
+}
+
+/**
+ * /fleet command (bot admins, private chat).
+ */
+export async function handleFleet(ctx: Context): Promise<void> {
+  try {
+    const view = await renderHome(new Date());
+    await ctx.reply(view.text, {
+      reply_markup: { inline_keyboard: view.keyboard },
+      link_preview_options: { is_disabled: true },
+    });
+  } catch (err: any) {
+    console.error('❌ Error in /fleet:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * Callback handler for "fl:" dashboard navigation.
+ */
+export async function handleFleetCallback(ctx: Context): Promise<void> {
+  if (!isAdminInPrivateChat(ctx)) {
+    await ctx.answerCbQuery('Forbidden');
+    return;
+  }
+
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+  try {
+    const view = await renderView(data, new Date());
+    await ctx.editMessageText(view.text, {
+      reply_markup: { inline_keyboard: view.keyboard },
+      link_preview_options: { is_disabled: true },
+    });
+    await ctx.answerCbQuery();
+  } catch (err: any) {
+    // Refresh without changes
+    if (err.response?.description?.includes('message is not modified')) {
+      await ctx.answerCbQuery('Up to date');
+      return;
+    }
+    console.error('❌ Error in /fleet navigation:', err);
+    await ctx.answerCbQuery(`❌ ${err.message || 'Error'}`.slice(0, 200));
+  }
+}
@@ -0,0 +1,78 @@
+import { Context } from 'telegraf';
+import {
+  buildPtiReport,
+  formatPtiReportCsv,
+  parseReportMonth,
+  PTI_FINE_AMOUNT,
+} from '../services/ptiReport';
+
+// Telegram message limit is 4096 chars, keep some headroom
+const MAX_MESSAGE_LENGTH = 3800;
+
+/**
+ * PTI compliance report command handler.
+ *
+ * Usage: /pti_report [YYYY-MM | MM]
+ * - Default: current month (America/New_York)
+ * - Replies with a per-chat summary and a CSV attachment for payroll
+ */
+export async function handlePtiReport(ctx: Context): Promise<void> {
+  const args =
+    ctx.message && 'text' in ctx.message
+      ? ctx.message.text.split(/\s+/).slice(1)
+      : [];
+
+  const period = parseReportMonth(args[0]);
+  if (!period) {
+    await ctx.reply('❌ Usage: /pti_report [YYYY-MM]  (e.g. /pti_report 2025-12)');
+    return;
+  }
+
+  try {
+    const report = await buildPtiReport(period.year, period.month);
+
+    const fromLabel = report.from.toISOString().slice(0, 10);
+    const toLabel = report.to.toISOString().slice(0, 10);
+
+    const lines: string[] = [];
+    lines.push(`📋 PTI Compliance Report — ${report.period}`);
+    lines.push(`Period: ${fromLabel} to ${toLabel} (per-group working days)`);
+    lines.push(`Groups: ${report.rows.length}, fine per miss: $${PTI_FINE_AMOUNT}`);
+    lines.push('');
+
+    if (!report.rows.length) {
+      lines.push('No chats in database.');
+    }
+
+    for (const row of report.rows) {
+      const pct = Math.round(row.completionRate * 100);
+      lines.push(
+        `• ${row.chat.truckNames || row.chat.name}: ${row.completedDays}/${row.workingDays} (${pct}%), ` +
+          `streak ${row.currentStreak}, longest miss ${row.longestMissStreak}, misses ${row.totalMisses}` +
+          (row.fineTotal ? ` ($${row.fineTotal})` : '')
+      );
+    }
+
+    // Split into several messages if needed
+    let chunk = '';
+    for (const line of lines) {
+      if (chunk.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
+        await ctx.reply(chunk, { parse_mode: undefined });
+        chunk = '';
+      }
+      chunk += (chunk ? '\n' : '') + line;
+    }
+    if (chunk) {
+      await ctx.reply(chunk, { parse_mode: undefined });
+    }
+
+    const csv = formatPtiReportCsv(report);
+    await ctx.replyWithDocument(
+      { source: Buffer.from(csv, 'utf-8'), filename: `pti-report-${report.period}.csv` },
+      { caption: `PTI report ${report.period} (CSV)` }
+    );
+  } catch (err: any) {
+    console.error('❌ Error building PTI report:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
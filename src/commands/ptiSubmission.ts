@@ -0,0 +1,282 @@
+import { Context } from 'telegraf';
+import { Chat } from '@prisma/client';
+import { isChatAdmin } from '../guards/isAdmin';
+import {
+  findChatByTelegramChatId,
+  isPtiCompletedToday,
+  markPtiCompleted,
+  updateChatPtiRules,
+  updateChatPtiSchedule,
+} from '../repository';
+import { LanguageCode, ptiSubmissionMessages } from '../messages';
+import {
+  DEFAULT_TIMEZONE,
+  formatWorkingDays,
+  getLocalMinutesOfDay,
+  isValidTimeZone,
+  isWithinTimeWindow,
+  parseTimeOfDay,
+  parseWorkingDaysInput,
+} from '../services/timezone';
+
+// Global defaults (per-chat values in Chat.ptiWindowStart / ptiWindowEnd / ptiMinVideoSeconds override these)
+const PTI_WINDOW_START = process.env.PTI_WINDOW_START || '04:00';
+const PTI_WINDOW_END = process.env.PTI_WINDOW_END || '23:59';
+const PTI_MIN_VIDEO_SECONDS = parseInt(process.env.PTI_MIN_VIDEO_SECONDS || '30', 10);
+
+/**
+ * Effective PTI detection rules for a chat (per-chat override or env default).
+ */
+function getPtiRules(chat: Chat): { windowStart: string; windowEnd: string; minVideoSeconds: number } {
+  return {
+    windowStart: chat.ptiWindowStart ?? PTI_WINDOW_START,
+    windowEnd: chat.ptiWindowEnd ?? PTI_WINDOW_END,
+    minVideoSeconds: chat.ptiMinVideoSeconds ?? PTI_MIN_VIDEO_SECONDS,
+  };
+}
+
+/**
+ * Reply to the driver's video. Runs for every video in every group, so a failed
+ * reply (video deleted, rate limit) is logged and never stops update handling.
+ */
+async function replyToVideo(ctx: Context, chat: Chat, messageId: number, text: string): Promise<void> {
+  try {
+    await ctx.reply(text, {
+      reply_parameters: { message_id: messageId, allow_sending_without_reply: true },
+    });
+  } catch (err: any) {
+    console.error(
+      `❌ [PTI][VIDEO] Failed to reply in ${chat.name}:`,
+      err.response?.description || err.message
+    );
+  }
+}
+
+/**
+ * Video / video note handler for group chats.
+ *
+ * Marks PTI as completed when the assigned driver (Chat.driverTgUserId)
+ * posts a video that is long enough and sent inside the PTI time window.
+ * Replies to the driver in the chat's language.
+ */
+export async function handlePtiVideo(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private' || !ctx.from || !ctx.message) {
+    return;
+  }
+
+  const message = ctx.message;
+  const duration =
+    'video' in message ? message.video.duration : 'video_note' in message ? message.video_note.duration : null;
+  if (duration === null) {
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat || !chat.driverTgUserId || chat.driverTgUserId !== BigInt(ctx.from.id)) {
+    return; // Not a registered chat, or not the assigned driver
+  }
+
+  if (isPtiCompletedToday(chat)) {
+    console.log(`[PTI][VIDEO] Chat ${chat.name}: PTI already completed today, ignoring extra video`);
+    return;
+  }
+
+  const lang = chat.language as LanguageCode;
+  const messages = ptiSubmissionMessages[lang] ?? ptiSubmissionMessages.en;
+  const rules = getPtiRules(chat);
+
+  const start = parseTimeOfDay(rules.windowStart);
+  const end = parseTimeOfDay(rules.windowEnd);
+  const nowMinutes = getLocalMinutesOfDay(new Date(), chat.timezone || DEFAULT_TIMEZONE);
+  if (start !== null && end !== null && !isWithinTimeWindow(nowMinutes, start, end)) {
+    console.log(
+      `[PTI][VIDEO] Chat ${chat.name}: video outside PTI window ${rules.windowStart}-${rules.windowEnd}`
+    );
+    await replyToVideo(ctx, chat, message.message_id, messages.outsideWindow(rules.windowStart, rules.windowEnd));
+    return;
+  }
+
+  if (duration < rules.minVideoSeconds) {
+    console.log(
+      `[PTI][VIDEO] Chat ${chat.name}: video too short (${duration}s < ${rules.minVideoSeconds}s)`
+    );
+    await replyToVideo(ctx, chat, message.message_id, messages.tooShort(rules.minVideoSeconds));
+    return;
+  }
+
+  const updated = await markPtiCompleted(chat.telegramChatId, {
+    source: 'video',
+    completedByTgUserId: BigInt(ctx.from.id),
+    telegramMessageId: message.message_id,
+  });
+  if (!updated) {
+    return;
+  }
+
+  const dateLabel = new Date().toLocaleDateString('en-US', {
+    timeZone: chat.timezone || DEFAULT_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  console.log(`✅ [PTI][VIDEO] PTI completed for ${chat.name} (driver video ${duration}s)`);
+  await replyToVideo(ctx, chat, message.message_id, messages.received(dateLabel));
+}
+
+/**
+ * /set_pti_window [HH:MM HH:MM [minSeconds] | reset]
+ * Group admins only. Without arguments shows the current rules.
+ */
+export async function handleSetPtiWindow(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private') return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const args = text.split(/\s+/).slice(1).filter(Boolean);
+
+  if (args.length === 0) {
+    const rules = getPtiRules(chat);
+    await ctx.reply(
+      `PTI video rules for this group (${chat.timezone}):\n` +
+        `Window: ${rules.windowStart} - ${rules.windowEnd}${chat.ptiWindowStart ? '' : ' (default)'}\n` +
+        `Minimum video length: ${rules.minVideoSeconds}s${chat.ptiMinVideoSeconds != null ? '' : ' (default)'}\n\n` +
+        `Change: /set_pti_window 05:00 12:00 45\n` +
+        `Reset to defaults: /set_pti_window reset`
+    );
+    return;
+  }
+
+  if (args[0].toLowerCase() === 'reset') {
+    await updateChatPtiRules(chat.telegramChatId, {
+      ptiWindowStart: null,
+      ptiWindowEnd: null,
+      ptiMinVideoSeconds: null,
+    });
+    await ctx.reply('✅ PTI video rules reset to defaults.');
+    return;
+  }
+
+  const [startArg, endArg, minArg] = args;
+  if (parseTimeOfDay(startArg) === null || parseTimeOfDay(endArg) === null) {
+    await ctx.reply('❌ Usage: /set_pti_window HH:MM HH:MM [minSeconds]');
+    return;
+  }
+
+  let minSeconds: number | null = chat.ptiMinVideoSeconds;
+  if (minArg !== undefined) {
+    minSeconds = parseInt(minArg, 10);
+    if (isNaN(minSeconds) || minSeconds < 0 || minSeconds > 3600) {
+      await ctx.reply('❌ minSeconds must be a number between 0 and 3600.');
+      return;
+    }
+  }
+
+  const updated = await updateChatPtiRules(chat.telegramChatId, {
+    ptiWindowStart: startArg,
+    ptiWindowEnd: endArg,
+    ptiMinVideoSeconds: minSeconds,
+  });
+
+  if (!updated) {
+    await ctx.reply('❌ Failed to save PTI rules.');
+    return;
+  }
+
+  const rules = getPtiRules(updated);
+  await ctx.reply(
+    `✅ PTI video rules saved.\n` +
+      `Window: ${rules.windowStart} - ${rules.windowEnd}\n` +
+      `Minimum video length: ${rules.minVideoSeconds}s`
+  );
+}
+
+/**
+ * /set_pti_schedule [HH:MM] [days] [timezone]
+ * Group admins only. Sets the daily PTI reminder time, working days and IANA timezone.
+ * Arguments can be given in any order, e.g. /set_pti_schedule 05:30 mon-fri America/Chicago.
+ * Without arguments shows the current schedule.
+ */
+export async function handleSetPtiSchedule(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private') return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const args = text.split(/\s+/).slice(1).filter(Boolean);
+
+  if (args.length === 0) {
+    await ctx.reply(
+      `PTI schedule for this group:\n` +
+        `Reminder time: ${chat.ptiReminderTime}\n` +
+        `Working days: ${formatWorkingDays(chat.ptiWorkingDays)}\n` +
+        `Timezone: ${chat.timezone}\n\n` +
+        `Change: /set_pti_schedule 05:30 mon-sat America/Chicago\n` +
+        `Days: daily, mon-fri, mon,wed,fri or 1-6 (0=Sunday)`
+    );
+    return;
+  }
+
+  let reminderTime = chat.ptiReminderTime;
+  let workingDays = chat.ptiWorkingDays;
+  let timezone = chat.timezone;
+
+  for (const arg of args) {
+    if (parseTimeOfDay(arg) !== null) {
+      const [h, m] = arg.split(':');
+      reminderTime = `${h.padStart(2, '0')}:${m}`;
+    } else if (arg.includes('/') || arg.toUpperCase() === 'UTC') {
+      if (!isValidTimeZone(arg)) {
+        await ctx.reply(`❌ Unknown timezone "${arg}". Use an IANA name like America/Chicago.`);
+        return;
+      }
+      timezone = arg;
+    } else {
+      const days = parseWorkingDaysInput(arg);
+      if (!days) {
+        await ctx.reply('❌ Usage: /set_pti_schedule [HH:MM] [days] [timezone]');
+        return;
+      }
+      workingDays = days;
+    }
+  }
+
+  const updated = await updateChatPtiSchedule(chat.telegramChatId, {
+    ptiReminderTime: reminderTime,
+    ptiWorkingDays: workingDays,
+    timezone,
+  });
+
+  if (!updated) {
+    await ctx.reply('❌ Failed to save PTI schedule.');
+    return;
+  }
+
+  await ctx.reply(
+    `✅ PTI schedule saved.\n` +
+      `Reminder time: ${updated.ptiReminderTime}\n` +
+      `Working days: ${formatWorkingDays(updated.ptiWorkingDays)}\n` +
+      `Timezone: ${updated.timezone}`
+  );
+}
@@ -0,0 +1,241 @@
+import { Context } from 'telegraf';
+import { Chat, ChatLanguage, PtiTemplateKind } from '@prisma/client';
+import {
+  findChatByTelegramChatId,
+  getPtiTemplateVersions,
+  savePtiTemplateVersion,
+} from '../repository';
+import {
+  buildPtiTemplateVars,
+  findUnknownPlaceholders,
+  PTI_TEMPLATE_PLACEHOLDERS,
+  renderPtiTemplate,
+  resolvePtiTemplate,
+} from '../services/ptiTemplates';
+
+// Keep rendered templates well below the 4096-char Telegram limit (mention + header are added)
+const MAX_TEMPLATE_LENGTH = 3500;
+
+const LANGUAGES: ChatLanguage[] = ['en', 'ru', 'uz'];
+
+const USAGE = `PTI templates
+
+/pti_template view <en|ru|uz> [followup] [chat:<telegramChatId>]
+/pti_template preview <en|ru|uz> [followup] [chat:<telegramChatId>]
+/pti_template set <en|ru|uz> [followup] [chat:<telegramChatId>]
+<new template text on the next lines>
+/pti_template history <en|ru|uz> [followup] [chat:<telegramChatId>]
+/pti_template rollback <en|ru|uz> [followup] [chat:<telegramChatId>] <version>
+
+Placeholders: ${PTI_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}
+Without chat: the global template for the language is used. With chat: a per-group override.
+preview with text on the next lines renders a draft without saving it.`;
+
+type TemplateTarget = {
+  kind: PtiTemplateKind;
+  language: ChatLanguage;
+  chat: Chat | null;
+  version: number | null;
+};
+
+/**
+ * Parse "<lang> [followup] [chat:<id>] [version]" arguments.
+ *
+ * @returns Target or an error message
+ */
+async function parseTarget(args: string[]): Promise<TemplateTarget | string> {
+  const language = (args[0] || '').toLowerCase() as ChatLanguage;
+  if (!LANGUAGES.includes(language)) {
+    return '❌ Language must be one of: en, ru, uz.';
+  }
+
+  const target: TemplateTarget = { kind: 'reminder', language, chat: null, version: null };
+
+  for (const arg of args.slice(1)) {
+    const lower = arg.toLowerCase();
+    if (lower === 'followup' || lower === 'follow_up') {
+      target.kind = 'follow_up';
+    } else if (lower === 'reminder') {
+      target.kind = 'reminder';
+    } else if (lower.startsWith('chat:')) {
+      const id = lower.slice('chat:'.length);
+      if (!/^-?\d+$/.test(id)) {
+        return `❌ Invalid chat id "${id}".`;
+      }
+      const chat = await findChatByTelegramChatId(BigInt(id));
+      if (!chat) {
+        return `❌ Chat ${id} is not registered in the database.`;
+      }
+      target.chat = chat;
+    } else if (/^\d+$/.test(lower)) {
+      target.version = parseInt(lower, 10);
+    } else {
+      return `❌ Unknown argument "${arg}".`;
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Human-readable label of a template target.
+ */
+function describeTarget(target: TemplateTarget): string {
+  const kind = target.kind === 'follow_up' ? 'follow-up' : 'reminder';
+  const scope = target.chat ? `override for ${target.chat.name}` : 'global';
+  return `${kind} / ${target.language} / ${scope}`;
+}
+
+/**
+ * PTI template admin command (bot admins, private chat).
+ *
+ * Usage: /pti_template <view|preview|set|history|rollback> <lang> [followup] [chat:<id>] ...
+ * Every save (including rollback) creates a new version; the highest version is current.
+ */
+export async function handlePtiTemplate(ctx: Context): Promise<void> {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const newlineIndex = text.indexOf('\n');
+  const firstLine = newlineIndex === -1 ? text : text.slice(0, newlineIndex);
+  const body = newlineIndex === -1 ? '' : text.slice(newlineIndex + 1).trim();
+  const [action, ...args] = firstLine.split(/\s+/).slice(1).filter(Boolean);
+
+  if (!action) {
+    await ctx.reply(USAGE);
+    return;
+  }
+
+  const target = await parseTarget(args);
+  if (typeof target === 'string') {
+    await ctx.reply(`${target}\n\n${USAGE}`);
+    return;
+  }
+
+  const chatId = target.chat?.id ?? null;
+  const label = describeTarget(target);
+
+  try {
+    switch (action.toLowerCase()) {
+      case 'view': {
+        const current = await resolvePtiTemplate(target.kind, target.language, chatId);
+        const origin =
+          current.source === 'default'
+            ? 'built-in default'
+            : `${current.source === 'chat' ? 'group override' : 'global'} v${current.version}`;
+        await ctx.reply(`📝 PTI template (${label}) — ${origin}:\n\n${current.body}`);
+        return;
+      }
+
+      case 'preview': {
+        const draft = body || (await resolvePtiTemplate(target.kind, target.language, chatId)).body;
+        const rendered = renderPtiTemplate(draft, buildPtiTemplateVars(target.chat));
+        const unknown = findUnknownPlaceholders(draft);
+        const warning = unknown.length
+          ? `\n\n⚠️ Unknown placeholders: ${unknown.map((p) => `{${p}}`).join(', ')}`
+          : '';
+        await ctx.reply(
+          `👀 Preview (${label}${body ? ', unsaved draft' : ''}):\n\n${rendered}${warning}`
+        );
+        return;
+      }
+
+      case 'set': {
+        if (!body) {
+          await ctx.reply('❌ Put the new template text on the lines after the command.');
+          return;
+        }
+        if (body.length > MAX_TEMPLATE_LENGTH) {
+          await ctx.reply(`❌ Template is too long (${body.length} > ${MAX_TEMPLATE_LENGTH} chars).`);
+          return;
+        }
+        const unknown = findUnknownPlaceholders(body);
+        if (unknown.length) {
+          await ctx.reply(
+            `❌ Unknown placeholders: ${unknown.map((p) => `{${p}}`).join(', ')}\n` +
+              `Supported: ${PTI_TEMPLATE_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')}`
+          );
+          return;
+        }
+
+        const saved = await savePtiTemplateVersion(
+          target.kind,
+          target.language,
+          chatId,
+          body,
+          ctx.from ? BigInt(ctx.from.id) : undefined
+        );
+        if (!saved) {
+          await ctx.reply('❌ Failed to save template.');
+          return;
+        }
+        await ctx.reply(`✅ Saved PTI template (${label}) as version ${saved.version}.`);
+        return;
+      }
+
+      case 'history': {
+        const versions = await getPtiTemplateVersions(target.kind, target.language, chatId);
+        if (!versions.length) {
+          await ctx.reply(`No saved versions for ${label}. The built-in default is used.`);
+          return;
+        }
+        const lines = [`📜 Versions of ${label} (newest first):`, ''];
+        for (const v of versions.slice(0, 20)) {
+          const preview = v.body.replace(/\s+/g, ' ').slice(0, 60);
+          const by = v.createdByTgUserId ? ` by ${v.createdByTgUserId}` : '';
+          lines.push(`v${v.version} — ${v.createdAt.toISOString().slice(0, 16).replace('T', ' ')} UTC${by}`);
+          lines.push(`   ${preview}${v.body.length > 60 ? '…' : ''}`);
+        }
+        lines.push('', 'Roll back: /pti_template rollback <lang> [followup] [chat:<id>] <version>');
+        await ctx.reply(lines.join('\n'));
+        return;
+      }
+
+      case 'rollback': {
+        if (target.version === null) {
+          await ctx.reply('❌ Specify the version to roll back to (see /pti_template history).');
+          return;
+        }
+        const versions = await getPtiTemplateVersions(target.kind, target.language, chatId);
+        const source = versions.find((v) => v.version === target.version);
+        if (!source) {
+          await ctx.reply(`❌ Version ${target.version} not found for ${label}.`);
+          return;
+        }
+
+        // Rollback is a new version with the old body, so history stays linear
+        const saved = await savePtiTemplateVersion(
+          target.kind,
+          target.language,
+          chatId,
+          source.body,
+          ctx.from ? BigInt(ctx.from.id) : undefined
+        );
+        if (!saved) {
+          await ctx.reply('❌ Failed to roll back template.');
+          return;
+        }
+        await ctx.reply(
+          `✅ Rolled back ${label} to version ${source.version} (saved as version ${saved.version}).`
+        );
+        return;
+      }
+
+      default:
+        await ctx.reply(USAGE);
+    }
+  } catch (err: any) {
+    console.error('❌ Error in /pti_template:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * /pti_en, /pti_ru, /pti_uz - send the PTI reminder in the given language.
+ * In a registered group the group's override and driver/truck data are used.
+ */
+export function handlePtiMessage(language: ChatLanguage) {
+  return async (ctx: Context): Promise<void> => {
+    const chat = ctx.chat ? await findChatByTelegramChatId(BigInt(ctx.chat.id)) : null;
+    const template = await resolvePtiTemplate('reminder', language, chat?.id ?? null);
+    await ctx.reply(renderPtiTemplate(template.body, buildPtiTemplateVars(chat)));
+  };
+}
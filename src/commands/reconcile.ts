@@ -0,0 +1,126 @@
+import { Context, Markup } from 'telegraf';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { isAdminInPrivateChat } from '../guards/isAdmin';
+import { assignTruckToChat, getAllChats } from '../repository';
+import { buildReconciliationReport, formatReconciliationReport } from '../services/reconciliation';
+import { getAllVehiclesInfo } from '../services/samsaraVehicles';
+
+const CHATS_PER_PAGE = 8;
+
+/**
+ * /reconcile - run the vehicle reconciliation report now (bot admins, private chat).
+ */
+export async function handleReconcile(ctx: Context): Promise<void> {
+  try {
+    const { text, keyboard } = formatReconciliationReport(await buildReconciliationReport());
+    await ctx.reply(text, { reply_markup: { inline_keyboard: keyboard } });
+  } catch (err: any) {
+    console.error('❌ Error in /reconcile:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * Chat picker for a vehicle: registered groups by name, with pagination.
+ */
+async function buildChatPicker(vehicleId: string, page: number): Promise<InlineKeyboardButton[][]> {
+  const chats = (await getAllChats()).sort((a, b) => a.name.localeCompare(b.name));
+  const pages = Math.max(1, Math.ceil(chats.length / CHATS_PER_PAGE));
+  const current = Math.min(Math.max(page, 0), pages - 1);
+
+  const rows: InlineKeyboardButton[][] = chats
+    .slice(current * CHATS_PER_PAGE, (current + 1) * CHATS_PER_PAGE)
+    .map((c) => [Markup.button.callback(c.name.slice(0, 60), `rc:a:${vehicleId}:${c.id}`)]);
+
+  const nav: InlineKeyboardButton[] = [];
+  if (current > 0) nav.push(Markup.button.callback('‹ Prev', `rc:c:${vehicleId}:${current - 1}`));
+  if (current < pages - 1) nav.push(Markup.button.callback('Next ›', `rc:c:${vehicleId}:${current + 1}`));
+  if (nav.length) rows.push(nav);
+  rows.push([Markup.button.callback('✖️ Cancel', 'rc:x')]);
+  return rows;
+}
+
+/**
+ * Callback handler for reconciliation buttons:
+ * - rc:v:<vehicleId>               open the chat picker (new message)
+ * - rc:c:<vehicleId>:<page>        picker page
+ * - rc:a:<vehicleId>:<chatDbId>    assign the vehicle to the chat
+ * - rc:x                           close the picker
+ */
+export async function handleReconcileCallback(ctx: Context): Promise<void> {
+  if (!isAdminInPrivateChat(ctx) || !ctx.from) {
+    await ctx.answerCbQuery('Forbidden');
+    return;
+  }
+  if (!ctx.callbackQuery || !('data' in ctx.callbackQuery)) return;
+
+  const [, action, vehicleId, arg] = ctx.callbackQuery.data.split(':');
+
+  try {
+    if (action === 'x') {
+      await ctx.answerCbQuery();
+      await ctx.deleteMessage();
+      return;
+    }
+
+    const vehicle = (await getAllVehiclesInfo()).find((v) => v.id === vehicleId);
+    if (!vehicle?.name) {
+      await ctx.answerCbQuery('Vehicle not found in Samsara (list changed?)');
+      return;
+    }
+
+    switch (action) {
+      case 'v': {
+        await ctx.answerCbQuery();
+        await ctx.reply(`Assign ${vehicle.name} to which group?`, {
+          reply_markup: { inline_keyboard: await buildChatPicker(vehicleId, 0) },
+        });
+        return;
+      }
+
+      case 'c': {
+        await ctx.answerCbQuery();
+        await ctx.editMessageReplyMarkup({
+          inline_keyboard: await buildChatPicker(vehicleId, parseInt(arg, 10) || 0),
+        });
+        return;
+      }
+
+      case 'a': {
+        const chat = (await getAllChats()).find((c) => c.id === parseInt(arg, 10));
+        if (!chat) {
+          await ctx.answerCbQuery('Chat not found');
+          return;
+        }
+
+        const result = await assignTruckToChat(vehicle.name, chat.id, BigInt(ctx.from.id), vehicle.id);
+        if (!result) {
+          await ctx.answerCbQuery('❌ Failed to assign truck (check logs)');
+          return;
+        }
+
+        await ctx.answerCbQuery('✅ Assigned');
+        await ctx.editMessageText(`✅ ${vehicle.name} is now assigned to ${chat.name}.`);
+        try {
+          await ctx.telegram.sendMessage(
+            Number(chat.telegramChatId),
+            `✅ ${vehicle.name} is now assigned to this group.`
+          );
+        } catch (err: any) {
+          console.error(
+            `❌ [RECONCILE] Failed to notify ${chat.name} about ${vehicle.name}:`,
+            err.response?.description || err.message
+          );
+        }
+        console.log(`🧭 [RECONCILE] ${vehicle.name} assigned to ${chat.name} by ${ctx.from.id}`);
+        return;
+      }
+
+      default:
+        await ctx.answerCbQuery();
+    }
+  } catch (err: any) {
+    console.error('❌ Error in reconciliation callback:', err);
+    await ctx.answerCbQuery(`❌ ${err.message || 'Error'}`.slice(0, 200));
+  }
+}
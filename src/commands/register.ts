@@ -0,0 +1,253 @@
+import { Context, Markup } from 'telegraf';
+import { ChatLanguage } from '@prisma/client';
+import { isChatAdmin } from '../guards/isAdmin';
+import {
+  findChatByTelegramChatId,
+  getTrucksByChatId,
+  setChatTrucks,
+  upsertChat,
+} from '../repository';
+import { getAllVehiclesInfo, VehicleInfo } from '../services/samsaraVehicles';
+
+/**
+ * /register onboarding wizard.
+ *
+ * Flow (group chats only, group admins only):
+ * 1. /register → pick PTI language (en/ru/uz)
+ * 2. Pick one or more trucks from the live Samsara vehicle list (paginated, toggle buttons)
+ * 3. Save → Chat is created/updated and selected trucks are bound to it
+ *
+ * Callback data format (max 64 bytes): "reg:<action>[:<arg>]"
+ */
+
+const TRUCKS_PER_PAGE = 10;
+
+const LANGUAGE_LABELS: Record<ChatLanguage, string> = {
+  en: '🇺🇸 English',
+  ru: '🇷🇺 Русский',
+  uz: '🇺🇿 O‘zbek',
+};
+
+type RegisterSession = {
+  adminUserId: number;
+  language?: ChatLanguage;
+  selected: Set<string>; // Truck names (must match Samsara vehicle.name)
+  page: number;
+};
+
+// Wizard state per Telegram chat (in-memory, lost on restart - admin just runs /register again)
+const sessions = new Map<number, RegisterSession>();
+
+/**
+ * Get vehicles with a name, sorted by name (Samsara list is cached for 10 minutes).
+ */
+async function getSelectableVehicles(): Promise<VehicleInfo[]> {
+  const vehicles = await getAllVehiclesInfo();
+  return vehicles
+    .filter((v) => v.name && v.name.trim() !== '')
+    .sort((a, b) => (a.name as string).localeCompare(b.name as string, 'en', { numeric: true }));
+}
+
+function buildLanguageKeyboard() {
+  return Markup.inlineKeyboard([
+    (Object.keys(LANGUAGE_LABELS) as ChatLanguage[]).map((lang) =>
+      Markup.button.callback(LANGUAGE_LABELS[lang], `reg:lang:${lang}`)
+    ),
+    [Markup.button.callback('✖ Cancel', 'reg:cancel')],
+  ]);
+}
+
+function buildTruckKeyboard(session: RegisterSession, vehicles: VehicleInfo[]) {
+  const totalPages = Math.max(1, Math.ceil(vehicles.length / TRUCKS_PER_PAGE));
+  const page = Math.min(session.page, totalPages - 1);
+  const pageVehicles = vehicles.slice(page * TRUCKS_PER_PAGE, (page + 1) * TRUCKS_PER_PAGE);
+
+  const rows = [];
+  for (let i = 0; i < pageVehicles.length; i += 2) {
+    rows.push(
+      pageVehicles.slice(i, i + 2).map((v) => {
+        const mark = session.selected.has(v.name as string) ? '✅' : '▫️';
+        return Markup.button.callback(`${mark} ${v.name}`, `reg:truck:${v.id}`);
+      })
+    );
+  }
+
+  const nav = [];
+  if (page > 0) {
+    nav.push(Markup.button.callback('« Prev', `reg:page:${page - 1}`));
+  }
+  nav.push(Markup.button.callback(`${page + 1}/${totalPages}`, 'reg:noop'));
+  if (page < totalPages - 1) {
+    nav.push(Markup.button.callback('Next »', `reg:page:${page + 1}`));
+  }
+  rows.push(nav);
+
+  rows.push([
+    Markup.button.callback('💾 Save', 'reg:save'),
+    Markup.button.callback('✖ Cancel', 'reg:cancel'),
+  ]);
+
+  return Markup.inlineKeyboard(rows);
+}
+
+function buildTruckPrompt(session: RegisterSession): string {
+  const selected = Array.from(session.selected).sort();
+  return (
+    `🚛 Select the truck(s) for this group (language: ${LANGUAGE_LABELS[session.language as ChatLanguage]}).\n` +
+    `Selected: ${selected.length ? selected.join(', ') : 'none'}\n\n` +
+    `Tap a truck to toggle it, then press Save.`
+  );
+}
+
+/**
+ * /register command handler.
+ * Starts the onboarding wizard for the current group.
+ */
+export async function handleRegister(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private' || !ctx.from) {
+    return;
+  }
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const existingChat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  const existingTrucks = existingChat ? await getTrucksByChatId(existingChat.id) : [];
+
+  sessions.set(ctx.chat.id, {
+    adminUserId: ctx.from.id,
+    language: existingChat?.language,
+    selected: new Set(existingTrucks.map((t) => t.name)),
+    page: 0,
+  });
+
+  const intro = existingChat
+    ? `This group is already registered as "${existingChat.name}" (trucks: ${existingChat.truckNames || 'none'}).\nRe-running /register will update it.\n\n`
+    : '';
+
+  await ctx.reply(`${intro}🌐 Choose the PTI language for this group:`, buildLanguageKeyboard());
+}
+
+/**
+ * Callback query handler for all "reg:*" buttons.
+ */
+export async function handleRegisterCallback(ctx: Context): Promise<void> {
+  if (!ctx.chat || !ctx.from || !ctx.callbackQuery || !('data' in ctx.callbackQuery)) {
+    return;
+  }
+
+  const [, action, arg] = ctx.callbackQuery.data.split(':');
+  const session = sessions.get(ctx.chat.id);
+
+  if (!session) {
+    await ctx.answerCbQuery('This registration has expired. Run /register again.');
+    return;
+  }
+
+  if (session.adminUserId !== ctx.from.id) {
+    await ctx.answerCbQuery('Only the admin who started /register can use these buttons.');
+    return;
+  }
+
+  try {
+    switch (action) {
+      case 'lang': {
+        if (!(arg in LANGUAGE_LABELS)) {
+          await ctx.answerCbQuery('Unknown language');
+          return;
+        }
+        session.language = arg as ChatLanguage;
+        const vehicles = await getSelectableVehicles();
+        if (!vehicles.length) {
+          await ctx.answerCbQuery();
+          await ctx.editMessageText('❌ Could not load vehicles from Samsara. Please try /register again later.');
+          sessions.delete(ctx.chat.id);
+          return;
+        }
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(buildTruckPrompt(session), buildTruckKeyboard(session, vehicles));
+        return;
+      }
+
+      case 'truck': {
+        const vehicles = await getSelectableVehicles();
+        const vehicle = vehicles.find((v) => v.id === arg);
+        if (!vehicle) {
+          await ctx.answerCbQuery('Vehicle not found (Samsara list changed). Run /register again.');
+          return;
+        }
+        const name = vehicle.name as string;
+        if (session.selected.has(name)) {
+          session.selected.delete(name);
+        } else {
+          session.selected.add(name);
+        }
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(buildTruckPrompt(session), buildTruckKeyboard(session, vehicles));
+        return;
+      }
+
+      case 'page': {
+        session.page = Math.max(0, parseInt(arg, 10) || 0);
+        const vehicles = await getSelectableVehicles();
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(buildTruckPrompt(session), buildTruckKeyboard(session, vehicles));
+        return;
+      }
+
+      case 'save': {
+        if (!session.language) {
+          await ctx.answerCbQuery('Choose a language first.');
+          return;
+        }
+        if (session.selected.size === 0) {
+          await ctx.answerCbQuery('Select at least one truck.');
+          return;
+        }
+
+        const title = 'title' in ctx.chat ? ctx.chat.title : `Chat ${ctx.chat.id}`;
+        const chat = await upsertChat(BigInt(ctx.chat.id), {
+          name: title,
+          language: session.language,
+        });
+        const updated = chat
+          ? await setChatTrucks(chat.id, Array.from(session.selected), BigInt(ctx.from.id))
+          : null;
+
+        if (!updated) {
+          await ctx.answerCbQuery('Failed to save, check logs.');
+          return;
+        }
+
+        sessions.delete(ctx.chat.id);
+        await ctx.answerCbQuery('Saved');
+        await ctx.editMessageText(
+          `✅ Group registered: ${updated.name}\n` +
+            `Language: ${LANGUAGE_LABELS[updated.language]}\n` +
+            `Trucks: ${updated.truckNames || 'none'}\n\n` +
+            `Next: reply to the driver's message with /setdriver.`
+        );
+        console.log(
+          `✅ [REGISTER] Chat ${ctx.chat.id} registered by ${ctx.from.id}: lang=${updated.language}, trucks=${updated.truckNames}`
+        );
+        return;
+      }
+
+      case 'cancel': {
+        sessions.delete(ctx.chat.id);
+        await ctx.answerCbQuery();
+        await ctx.editMessageText('Registration cancelled.');
+        return;
+      }
+
+      default:
+        await ctx.answerCbQuery();
+    }
+  } catch (err: any) {
+    console.error('❌ [REGISTER] Error handling callback:', err);
+    await ctx.answerCbQuery(`Error: ${err.message || 'Unknown error'}`).catch(() => undefined);
+  }
+}
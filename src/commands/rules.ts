@@ -0,0 +1,281 @@
+import { Context } from 'telegraf';
+import { getSafetyEventsInWindow } from '../samsara';
+import {
+  createEventRule,
+  deleteEventRule,
+  findChatByTelegramChatId,
+  getAllChats,
+} from '../repository';
+import {
+  DEFAULT_EVENT_RULES,
+  EventRuleDraft,
+  EventRuleLike,
+  evaluateSafetyEvent,
+  formatEventRule,
+  loadEventRules,
+  normalizeSeverity,
+  SEVERITY_LEVELS,
+} from '../services/eventRules';
+import { parseTimeOfDay } from '../services/timezone';
+
+// Telegram message limit is 4096 chars, keep some headroom
+const MAX_MESSAGE_LENGTH = 3800;
+const MAX_DRY_RUN_HOURS = 72;
+const DRY_RUN_EVENT_LIMIT = 500;
+
+const USAGE = `Event routing rules
+
+/rules list
+/rules add <include|exclude> [label="harsh brake"] [severity=heavy] [vehicle="Truck 105"] [chat=<telegramChatId>] [time=22:00-06:00]
+/rules remove <id>
+/rules dryrun <hours> [include|exclude ...same options as add]
+
+An event is sent if at least one include rule matches and no exclude rule matches.
+severity: ${SEVERITY_LEVELS.join(' < ')}. time is the chat's local time.`;
+
+/**
+ * Parse key=value options (values may be quoted) into a rule draft.
+ *
+ * @returns Draft or an error message
+ */
+async function parseRuleArgs(argsText: string): Promise<EventRuleDraft | string> {
+  const actionMatch = /^\s*(include|exclude)\b/i.exec(argsText);
+  if (!actionMatch) {
+    return '❌ Rule must start with include or exclude.';
+  }
+
+  const rule: EventRuleDraft = {
+    action: actionMatch[1].toLowerCase() as EventRuleDraft['action'],
+    label: null,
+    minSeverity: null,
+    vehicleName: null,
+    chatId: null,
+    timeStart: null,
+    timeEnd: null,
+  };
+
+  const rest = argsText.slice(actionMatch[0].length);
+  const optionRegex = /(\w+)=(?:"([^"]*)"|(\S+))/g;
+  const consumed = rest.replace(optionRegex, '').trim();
+  if (consumed) {
+    return `❌ Unknown arguments: ${consumed}`;
+  }
+
+  for (const match of rest.matchAll(optionRegex)) {
+    const key = match[1].toLowerCase();
+    const value = (match[2] ?? match[3]).trim();
+
+    switch (key) {
+      case 'label':
+        rule.label = value;
+        break;
+      case 'severity': {
+        const level = normalizeSeverity(value);
+        if (!level) return `❌ Unknown severity "${value}". Use: ${SEVERITY_LEVELS.join(', ')}`;
+        rule.minSeverity = level;
+        break;
+      }
+      case 'vehicle':
+        rule.vehicleName = value;
+        break;
+      case 'chat': {
+        if (!/^-?\d+$/.test(value)) return `❌ Invalid chat id "${value}".`;
+        const chat = await findChatByTelegramChatId(BigInt(value));
+        if (!chat) return `❌ Chat ${value} is not registered in the database.`;
+        rule.chatId = chat.id;
+        break;
+      }
+      case 'time': {
+        const [start, end] = value.split('-');
+        if (parseTimeOfDay(start) === null || parseTimeOfDay(end) === null) {
+          return `❌ Invalid time "${value}". Use HH:MM-HH:MM.`;
+        }
+        rule.timeStart = start;
+        rule.timeEnd = end;
+        break;
+      }
+      default:
+        return `❌ Unknown option "${key}".`;
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Send lines split into several messages if needed.
+ */
+async function replyLines(ctx: Context, lines: string[]): Promise<void> {
+  let chunk = '';
+  for (const line of lines) {
+    if (chunk.length + line.length + 1 > MAX_MESSAGE_LENGTH) {
+      await ctx.reply(chunk);
+      chunk = '';
+    }
+    chunk += (chunk ? '\n' : '') + line;
+  }
+  if (chunk) {
+    await ctx.reply(chunk);
+  }
+}
+
+/**
+ * Chat.id -> name map for displaying chat-scoped rules.
+ */
+async function getChatNames(): Promise<Map<number, string>> {
+  const chats = await getAllChats();
+  return new Map(chats.map((c) => [c.id, c.name]));
+}
+
+/**
+ * Event routing rules admin command (bot admins, private chat).
+ *
+ * Usage: /rules list | add <rule> | remove <id> | dryrun <hours> [rule]
+ */
+export async function handleRules(ctx: Context): Promise<void> {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const argsText = text.replace(/^\/\S+\s*/, '');
+  const action = (argsText.split(/\s+/)[0] || 'list').toLowerCase();
+  const actionArgs = argsText.slice(action.length).trim();
+
+  try {
+    switch (action) {
+      case 'list': {
+        const { rules, isDefault } = await loadEventRules();
+        const chatNames = await getChatNames();
+        const lines = [
+          isDefault
+            ? '📋 Event rules (built-in defaults, nothing stored yet):'
+            : `📋 Event rules (${rules.length}):`,
+          '',
+          ...rules.map((r) => formatEventRule(r, chatNames)),
+        ];
+        if (isDefault) {
+          lines.push('', 'The first /rules add stores these defaults so they can be edited.');
+        }
+        await replyLines(ctx, lines);
+        return;
+      }
+
+      case 'add': {
+        const rule = await parseRuleArgs(actionArgs);
+        if (typeof rule === 'string') {
+          await ctx.reply(`${rule}\n\n${USAGE}`);
+          return;
+        }
+
+        const createdBy = ctx.from ? BigInt(ctx.from.id) : null;
+        const created = await createEventRule(
+          { ...rule, createdByTgUserId: createdBy },
+          DEFAULT_EVENT_RULES.map((r) => ({ ...r, createdByTgUserId: createdBy }))
+        );
+        if (!created) {
+          await ctx.reply('❌ Failed to save rule.');
+          return;
+        }
+        await ctx.reply(`✅ Rule added: ${formatEventRule(created, await getChatNames())}`);
+        return;
+      }
+
+      case 'remove': {
+        const id = parseInt(actionArgs.replace(/^#/, ''), 10);
+        if (isNaN(id)) {
+          await ctx.reply('❌ Usage: /rules remove <id> (see /rules list)');
+          return;
+        }
+        const removed = await deleteEventRule(id);
+        if (!removed) {
+          await ctx.reply(`❌ Rule #${id} not found.`);
+          return;
+        }
+        await ctx.reply(`✅ Rule removed: ${formatEventRule(removed)}`);
+        return;
+      }
+
+      case 'dryrun':
+      case 'dry_run': {
+        const [hoursArg] = actionArgs.split(/\s+/);
+        const hours = parseInt(hoursArg, 10);
+        if (isNaN(hours) || hours < 1 || hours > MAX_DRY_RUN_HOURS) {
+          await ctx.reply(`❌ Usage: /rules dryrun <hours 1-${MAX_DRY_RUN_HOURS}> [include|exclude ...]`);
+          return;
+        }
+
+        const candidateText = actionArgs.slice(hoursArg.length).trim();
+        let candidate: EventRuleDraft | null = null;
+        if (candidateText) {
+          const parsed = await parseRuleArgs(candidateText);
+          if (typeof parsed === 'string') {
+            await ctx.reply(parsed);
+            return;
+          }
+          candidate = parsed;
+        }
+
+        await ctx.reply(`🔍 Fetching safety events for the last ${hours}h...`);
+
+        const now = new Date();
+        const from = new Date(now.getTime() - hours * 60 * 60 * 1000);
+        const { events, truncated, error } = await getSafetyEventsInWindow({ from, to: now }, DRY_RUN_EVENT_LIMIT);
+        if (error) {
+          await ctx.reply(`❌ Could not fetch safety events from Samsara (${error.kind}): ${error.message}`);
+          return;
+        }
+
+        const { rules } = await loadEventRules();
+        const proposed: EventRuleLike[] = candidate ? [...rules, { ...candidate, id: null }] : rules;
+
+        let sentNow = 0;
+        let sentProposed = 0;
+        const changed: string[] = [];
+        const dropped = new Map<string, number>();
+
+        for (const ev of events) {
+          const labels = (ev.behaviorLabels ?? []).map((l) => l.name || l.label).join(', ') || 'no labels';
+          const current = await evaluateSafetyEvent(rules, ev);
+          const next = candidate ? await evaluateSafetyEvent(proposed, ev) : current;
+
+          if (current.relevant) sentNow++;
+          if (next.relevant) sentProposed++;
+          if (!next.relevant && !next.include && !next.exclude) {
+            dropped.set(labels, (dropped.get(labels) ?? 0) + 1);
+          }
+          if (current.relevant !== next.relevant) {
+            const vehicle = ev.vehicle?.name ?? 'Unknown';
+            changed.push(`${next.relevant ? '+' : '−'} ${vehicle} — ${labels} (${ev.time ?? 'no time'})`);
+          }
+        }
+
+        const lines: string[] = [
+          `🧪 Dry run, last ${hours}h: ${events.length} event(s) from Samsara` +
+            (truncated ? ` (truncated at ${DRY_RUN_EVENT_LIMIT}, older or newer events not checked)` : ''),
+        ];
+        if (candidate) {
+          lines.push(`Rule: ${formatEventRule({ ...candidate, id: null }, await getChatNames())}`);
+          lines.push(`Would be sent: ${sentProposed} (currently ${sentNow})`);
+          lines.push('');
+          lines.push(changed.length ? 'Changes (+ newly sent, − no longer sent):' : 'No events change.');
+          lines.push(...changed.slice(0, 30));
+          if (changed.length > 30) lines.push(`… and ${changed.length - 30} more`);
+        } else {
+          lines.push(`Would be sent with current rules: ${sentNow}`);
+        }
+        if (dropped.size) {
+          lines.push('', 'Dropped because no include rule matches:');
+          for (const [labels, count] of Array.from(dropped.entries()).slice(0, 15)) {
+            lines.push(`• ${labels} × ${count}`);
+          }
+        }
+
+        await replyLines(ctx, lines);
+        return;
+      }
+
+      default:
+        await ctx.reply(USAGE);
+    }
+  } catch (err: any) {
+    console.error('❌ Error in /rules:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
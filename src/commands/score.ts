@@ -0,0 +1,93 @@
+import { Context } from 'telegraf';
+import { Chat } from '@prisma/client';
+import { isChatAdmin, isSafetyManager } from '../guards/isAdmin';
+import { findChatByTelegramChatId, getAllChats, getAllTrucks } from '../repository';
+import {
+  buildDriverSubject,
+  buildScoreCards,
+  buildTruckSubject,
+  formatScoreCard,
+  ScoreSubject,
+} from '../services/safetyScore';
+
+const USAGE = `Safety score (last 7 days vs the 7 days before)
+
+/score - driver of this group
+/score Truck 105 - a truck
+/score @username or /score John - a driver
+
+Drivers see this group's trucks only; group admins and safety managers can score any truck or driver.`;
+
+/**
+ * Resolve "/score <query>" to a truck or driver subject.
+ *
+ * @param query - Truck name / number, driver username / name or chat name
+ * @param scope - Only this chat's trucks and driver (null: whole fleet)
+ * @returns Subject, or null if nothing matches
+ */
+async function resolveSubject(query: string, scope: Chat | null): Promise<ScoreSubject | null> {
+  const trucks = (await getAllTrucks()).filter((t) => !scope || t.chatId === scope.id);
+  const normalized = query.toLowerCase().replace(/\s+/g, ' ').trim();
+
+  const truck =
+    trucks.find((t) => t.name.toLowerCase() === normalized) ??
+    // "/score 105" -> "Truck 105"
+    trucks.find((t) => t.name.toLowerCase().split(' ').pop() === normalized);
+  if (truck) {
+    return buildTruckSubject(truck.name);
+  }
+
+  const username = normalized.replace(/^@/, '');
+  const chats = scope ? [scope] : await getAllChats();
+  const chat = chats.find(
+    (c) =>
+      c.driverUsername?.toLowerCase() === username ||
+      [c.driverFirstName, c.driverLastName].filter(Boolean).join(' ').toLowerCase().includes(normalized) ||
+      c.name.toLowerCase() === normalized
+  );
+  return chat ? buildDriverSubject(chat, trucks.filter((t) => t.chatId === chat.id)) : null;
+}
+
+/**
+ * /score [truck|driver] - safety score with trend and top behaviors.
+ * Without arguments in a registered group: the group's driver.
+ * Other groups' trucks and drivers only for group admins and safety managers.
+ */
+export async function handleScore(ctx: Context): Promise<void> {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const query = text.replace(/^\/\S+\s*/, '').trim();
+
+  try {
+    const chat = ctx.chat ? await findChatByTelegramChatId(BigInt(ctx.chat.id)) : null;
+    const crossFleet =
+      (!!ctx.from && isSafetyManager(ctx.from.id)) || (ctx.chat?.type !== 'private' && (await isChatAdmin(ctx)));
+    if (!chat && !crossFleet) {
+      await ctx.reply(ctx.chat?.type === 'private' ? 'Forbidden' : USAGE);
+      return;
+    }
+
+    let subject: ScoreSubject | null = null;
+
+    if (query) {
+      subject = await resolveSubject(query, crossFleet ? null : chat);
+      if (!subject) {
+        const where = crossFleet ? '' : ' in this group';
+        await ctx.reply(`❌ No truck or driver${where} matches "${query}".\n\n${USAGE}`);
+        return;
+      }
+    } else {
+      if (!chat) {
+        await ctx.reply(USAGE);
+        return;
+      }
+      const trucks = (await getAllTrucks()).filter((t) => t.chatId === chat.id);
+      subject = buildDriverSubject(chat, trucks);
+    }
+
+    const [card] = await buildScoreCards([subject]);
+    await ctx.reply(formatScoreCard(card));
+  } catch (err: any) {
+    console.error('❌ Error in /score:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
@@ -0,0 +1,208 @@
+import { Context } from 'telegraf';
+import { isAdminInPrivateChat, isChatAdmin } from '../guards/isAdmin';
+import {
+  assignTruckToChat,
+  findChatByTelegramChatId,
+  getTruckAssignmentHistory,
+  unassignTruck,
+} from '../repository';
+import { getAllVehiclesInfo } from '../services/samsaraVehicles';
+import { DEFAULT_TIMEZONE } from '../services/timezone';
+import { backfillTruckVehicleLinks, formatTruckLinkResult } from '../services/truckLinks';
+
+/**
+ * Get command argument text (everything after "/command").
+ */
+function getCommandArgs(ctx: Context): string {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  return text.replace(/^\/\S+\s*/, '').trim();
+}
+
+/**
+ * Resolve the exact Samsara vehicle name (case-insensitive match) and vehicle ID.
+ * Returns the input unchanged (no ID) if the Samsara list is unavailable,
+ * or null if the list is available and the vehicle is not in it.
+ */
+async function resolveVehicle(input: string): Promise<{ name: string; id: string | null } | null> {
+  const vehicles = await getAllVehiclesInfo();
+  if (!vehicles.length) {
+    return { name: input, id: null };
+  }
+
+  const wanted = input.toLowerCase();
+  const match = vehicles.find((v) => (v.name || '').toLowerCase() === wanted);
+  return match?.name ? { name: match.name, id: match.id } : null;
+}
+
+function formatHistoryDate(date: Date, timeZone: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+}
+
+/**
+ * /assign_truck <name> — bind a truck to the current group.
+ * Group admins only. Moves the truck if it belongs to another group.
+ */
+export async function handleAssignTruck(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private' || !ctx.from) return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const input = getCommandArgs(ctx);
+  if (!input) {
+    await ctx.reply('❌ Please provide the truck name. Example: /assign_truck Truck 105');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const vehicle = await resolveVehicle(input);
+  if (!vehicle) {
+    await ctx.reply(`❌ Vehicle "${input}" was not found in Samsara. The name must match exactly.`);
+    return;
+  }
+  const truckName = vehicle.name;
+
+  const result = await assignTruckToChat(truckName, chat.id, BigInt(ctx.from.id), vehicle.id);
+  if (!result) {
+    await ctx.reply('❌ Failed to assign truck (check logs).');
+    return;
+  }
+
+  if (result.previousChatId === chat.id) {
+    await ctx.reply(`ℹ️ ${truckName} is already assigned to this group.`);
+    return;
+  }
+
+  let previousLabel = '';
+  if (result.previousChatId !== null) {
+    const history = await getTruckAssignmentHistory(truckName);
+    const previous = history?.assignments.find((a) => a.chatId === result.previousChatId);
+    previousLabel = `\nPreviously: ${previous?.chat.name ?? `chat #${result.previousChatId}`}`;
+  }
+
+  await ctx.reply(`✅ ${truckName} is now assigned to ${chat.name}.${previousLabel}`);
+}
+
+/**
+ * /unassign_truck <name> — remove a truck from the current group.
+ * Group admins only. The truck must currently belong to this group.
+ */
+export async function handleUnassignTruck(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private' || !ctx.from) return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const input = getCommandArgs(ctx);
+  if (!input) {
+    await ctx.reply('❌ Please provide the truck name. Example: /unassign_truck Truck 105');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const history = await getTruckAssignmentHistory(input);
+  if (!history || history.chatId !== chat.id) {
+    await ctx.reply(`❌ ${input} is not assigned to this group.`);
+    return;
+  }
+
+  const result = await unassignTruck(history.name, BigInt(ctx.from.id));
+  if (!result) {
+    await ctx.reply('❌ Failed to unassign truck (check logs).');
+    return;
+  }
+
+  await ctx.reply(
+    `✅ ${history.name} was removed from ${chat.name}.\n` +
+      `Alerts for this truck will not be delivered until it is assigned again (/assign_truck).`
+  );
+}
+
+/**
+ * /truck_history <name> — show which chat owned a truck when.
+ * Group admins in groups, or bot admins in private chat.
+ */
+export async function handleTruckHistory(ctx: Context): Promise<void> {
+  if (!ctx.chat) return;
+
+  const allowed =
+    ctx.chat.type === 'private' ? isAdminInPrivateChat(ctx) : await isChatAdmin(ctx);
+  if (!allowed) {
+    await ctx.reply(ctx.chat.type === 'private' ? 'Forbidden' : '❌ Only group admins can use this command.');
+    return;
+  }
+
+  const input = getCommandArgs(ctx);
+  if (!input) {
+    await ctx.reply('❌ Please provide the truck name. Example: /truck_history Truck 105');
+    return;
+  }
+
+  const truck = await getTruckAssignmentHistory(input);
+  if (!truck) {
+    await ctx.reply(`❌ Truck "${input}" not found in database.`);
+    return;
+  }
+
+  // The group's timezone; in private chat the current owner's
+  const viewer = ctx.chat.type === 'private' ? null : await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  const timeZone = (viewer ?? truck.chat)?.timezone || DEFAULT_TIMEZONE;
+
+  const lines: string[] = [];
+  lines.push(`🚛 ${truck.name}`);
+  lines.push(`Current owner: ${truck.chat?.name ?? 'unassigned'}`);
+  lines.push('');
+
+  if (!truck.assignments.length) {
+    lines.push('No assignment history recorded yet.');
+  } else {
+    lines.push(`History (newest first, ${timeZone}):`);
+    for (const a of truck.assignments) {
+      const from = formatHistoryDate(a.effectiveFrom, timeZone);
+      const to = a.effectiveTo ? formatHistoryDate(a.effectiveTo, timeZone) : 'now';
+      lines.push(`• ${a.chat.name} (${a.chat.telegramChatId}): ${from} → ${to}`);
+    }
+  }
+
+  await ctx.reply(lines.join('\n'), { parse_mode: undefined });
+}
+
+/**
+ * /link_trucks [dryrun] — link Truck rows to Samsara vehicle IDs (VIN, serial).
+ * Bot admins, private chat. Safe to run repeatedly; also follows renames made in Samsara.
+ */
+export async function handleLinkTrucks(ctx: Context): Promise<void> {
+  const dryRun = getCommandArgs(ctx).toLowerCase() === 'dryrun';
+
+  try {
+    const result = await backfillTruckVehicleLinks(dryRun);
+    await ctx.reply(formatTruckLinkResult(result, dryRun));
+  } catch (err: any) {
+    console.error('❌ Error in /link_trucks:', err);
+    await ctx.reply(`❌ Error: ${err.message || 'Unknown error'}`);
+  }
+}
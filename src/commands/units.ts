@@ -0,0 +1,51 @@
+import { Context } from 'telegraf';
+import { isChatAdmin } from '../guards/isAdmin';
+import { findChatByTelegramChatId, updateChatSpeedUnit } from '../repository';
+import { alertMessages, getAlertLocale } from '../messages';
+
+/**
+ * /set_units [mph|kmh]
+ * Group admins only. Sets the speed unit used in safety/speeding alerts for this group.
+ * Without arguments shows the current unit.
+ */
+export async function handleSetUnits(ctx: Context): Promise<void> {
+  if (!ctx.chat || ctx.chat.type === 'private') return;
+
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
+  const chat = await findChatByTelegramChatId(BigInt(ctx.chat.id));
+  if (!chat) {
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
+    return;
+  }
+
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+  const arg = (text.split(/\s+/)[1] || '').toLowerCase().replace(/[^a-z]/g, '');
+
+  if (!arg) {
+    const locale = getAlertLocale(chat);
+    await ctx.reply(
+      `Speed unit for alerts: ${alertMessages[locale.language].units[locale.speedUnit]}\n\n` +
+        `Change: /set_units mph  or  /set_units kmh`
+    );
+    return;
+  }
+
+  const unit = arg === 'mph' ? 'mph' : arg === 'kmh' || arg === 'kph' ? 'kmh' : null;
+  if (!unit) {
+    await ctx.reply('❌ Usage: /set_units mph|kmh');
+    return;
+  }
+
+  const updated = await updateChatSpeedUnit(chat.telegramChatId, unit);
+  if (!updated) {
+    await ctx.reply('❌ Failed to save speed unit.');
+    return;
+  }
+
+  await ctx.reply(`✅ Alerts in this group will show speeds in ${unit === 'kmh' ? 'km/h' : 'mph'}.`);
+}
@@ -21,22 +21,45 @@ export function isAdminInPrivateChat(ctx: Context): boolean {
     return false;
   }
 
-  // Check admin IDs from environment
-  const adminIdsStr = process.env.TELEGRAM_ADMIN_IDS;
-  if (!adminIdsStr) {
-    return false;
-  }
+  // Check if user ID is in admin list
+  return parseTelegramIds(process.env.TELEGRAM_ADMIN_IDS).includes(ctx.from.id);
+}
 
-  // Parse comma-separated admin IDs
-  const adminIds = adminIdsStr
+/**
+ * Parse a comma-separated list of Telegram user IDs from an env variable.
+ */
+function parseTelegramIds(value: string | undefined): number[] {
+  if (!value) {
+    return [];
+  }
+  return value
     .split(',')
     .map((id) => id.trim())
     .filter((id) => id.length > 0)
     .map((id) => parseInt(id, 10))
     .filter((id) => !isNaN(id));
+}
 
-  // Check if user ID is in admin list
-  return adminIds.includes(ctx.from.id);
+/**
+ * Telegram user IDs of bot admins (TELEGRAM_ADMIN_IDS).
+ * Used to send admin reports to each admin's private chat.
+ */
+export function getTelegramAdminIds(): number[] {
+  return parseTelegramIds(process.env.TELEGRAM_ADMIN_IDS);
+}
+
+/**
+ * Check if a user is a safety manager (SAFETY_MANAGER_IDS or TELEGRAM_ADMIN_IDS).
+ * Used for manager-only alert buttons in driver groups.
+ *
+ * @param userId - Telegram user ID
+ * @returns true if the user may coach / dismiss events
+ */
+export function isSafetyManager(userId: number): boolean {
+  return (
+    parseTelegramIds(process.env.SAFETY_MANAGER_IDS).includes(userId) ||
+    parseTelegramIds(process.env.TELEGRAM_ADMIN_IDS).includes(userId)
+  );
 }
 
 /**
@@ -57,3 +80,20 @@ export async function requireAdminPrivateChat(
   }
 }
 
+/**
+ * Check if the sender is an administrator (or creator) of the current group.
+ * Used by group-level commands like /setdriver and /register.
+ *
+ * @param ctx - Telegraf context
+ * @returns true if ctx.from is a group admin
+ */
+export async function isChatAdmin(ctx: Context): Promise<boolean> {
+  if (!ctx.chat || !ctx.from) return false;
+
+  const admins = await ctx.telegram.getChatAdministrators(ctx.chat.id);
+  return admins.some(
+    (admin) =>
+      admin.user.id === ctx.from!.id &&
+      (admin.status === 'administrator' || admin.status === 'creator'),
+  );
+}
@@ -9,12 +9,20 @@ console.log('[ENV] loaded', {
 
 import { Telegraf } from 'telegraf';
 import cron from 'node-cron';
-import { Chat } from '@prisma/client';
+import { Chat, OutboxMessage, Prisma } from '@prisma/client';
 import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
 
-import { ptiMessages } from './messages';
+import {
+  AlertLocale,
+  alertMessages,
+  buildDriverMention,
+  convertSpeed,
+  getAlertLocale,
+  LanguageCode,
+  translateBehaviorLabel,
+} from './messages';
 import {
   getRecentSafetyEvents,
   getSafetyEventsInWindow,
@@ -22,24 +30,68 @@ import {
   fetchSafetyEventMedia,
 } from './samsara';
 import {
-  findChatByVehicleName,
+  findChatByVehicle,
+  findTruckByVehicle,
   logSafetyEvent,
   logUnifiedEvent,
   isEventProcessed,
   isEventSent,
   markEventSent,
+  enqueueOutboxMessage,
+  getSafetyEventLogBySamsaraEventId,
+  getPollCursor,
+  savePollCursor,
+  archiveSafetyEventLog,
   getAllChats,
   findChatByTelegramChatId,
   updateChatMentionTemplate,
   setChatDriver,
   clearChatDriver,
   cleanupOldSentEvents,
+  cleanupOldOutboxMessages,
   isPtiCompletedToday,
   markPtiCompleted,
   updateAllChatTruckNames,
 } from './repository';
-import { requireAdminPrivateChat } from './guards/isAdmin';
+import { requireAdminPrivateChat, isChatAdmin } from './guards/isAdmin';
 import { handleDebugSafety } from './commands/debugSafety';
+import { handleRegister, handleRegisterCallback } from './commands/register';
+import { handleAssignTruck, handleUnassignTruck, handleTruckHistory, handleLinkTrucks } from './commands/trucks';
+import { handlePtiVideo, handleSetPtiSchedule, handleSetPtiWindow } from './commands/ptiSubmission';
+import { DEFAULT_TIMEZONE } from './services/timezone';
+import { handlePtiReport } from './commands/ptiReport';
+import { handlePtiMessage, handlePtiTemplate } from './commands/ptiTemplate';
+import { handleSetUnits } from './commands/units';
+import { handleRules } from './commands/rules';
+import { handleScore } from './commands/score';
+import { handleDigest } from './commands/digest';
+import { handleFleet, handleFleetCallback } from './commands/fleet';
+import { handleReconcile, handleReconcileCallback } from './commands/reconcile';
+import { attachAlertButtons, handleAlertAckCallback, runAckEscalationTick } from './services/alertAck';
+import { handleDisputeCallback, handleDisputeDm } from './services/disputes';
+import { runCoachingSyncTick } from './services/coachingSync';
+import { handleCoachingCallback } from './services/coachingActions';
+import { postWeeklyLeaderboard } from './services/safetyScore';
+import { runDigestTick } from './services/safetyDigest';
+import { runReconciliationReport } from './services/reconciliation';
+import { OutboxHandlers, runOutboxTick, toOutboxFailure } from './services/outbox';
+import { installTelegramRateLimiter, PRIORITY_RANK, SendPriority, withSendPriority } from './services/telegramRateLimiter';
+import {
+  filterSafetyEventsByRules,
+  isRelevantUnifiedEvent,
+  loadEventRules,
+} from './services/eventRules';
+import { runPtiSchedulerTick } from './services/ptiReminders';
+import {
+  addCatchUpItem,
+  buildCatchUpSummary,
+  CatchUpBatch,
+  getCatchUpStart,
+  getOldEventPolicy,
+  isOldEvent,
+  planPollWindows,
+} from './services/catchUp';
+import { hydrateSafetyEvent, SamsaraWebhookDelivery, startSamsaraWebhookServer } from './services/samsaraWebhook';
 import { fetchSpeedingIntervals, fetchSpeedingIntervalsAll, fetchSpeedingIntervalsWithSlidingWindow, SpeedingInterval } from './services/samsaraSpeeding';
 import { getAllVehicleAssetIds, getVehicleNameById, getAllVehiclesInfo } from './services/samsaraVehicles';
 import {
@@ -54,7 +106,35 @@ if (!BOT_TOKEN) {
   throw new Error('TELEGRAM_BOT_TOKEN is missing in .env');
 }
 
-const bot = new Telegraf(BOT_TOKEN);
+// TELEGRAM_API_ROOT points the bot at a fake Bot API in end-to-end tests
+const bot = new Telegraf(BOT_TOKEN, {
+  telegram: { apiRoot: process.env.TELEGRAM_API_ROOT || 'https://api.telegram.org' },
+});
+// Every send (bot.telegram.*, ctx.reply) goes through one queue with per-chat / global limits
+installTelegramRateLimiter(bot.telegram);
+
+// Telegraf's default error handler rethrows, which stops update polling:
+// log the failed update instead and keep going
+bot.catch((err: any, ctx) => {
+  console.error(
+    `❌ Unhandled error in ${ctx.updateType} update ${ctx.update.update_id}:`,
+    err?.response?.description || err
+  );
+});
+
+// BOT_AUTOSTART=false: crons, the webhook server and bot.launch don't start
+// (end-to-end tests import this file and drive checkAndNotifySafetyEvents themselves)
+const AUTOSTART = process.env.BOT_AUTOSTART !== 'false';
+
+function scheduleCron(
+  expression: string,
+  task: () => Promise<void>,
+  options?: Parameters<typeof cron.schedule>[2]
+): void {
+  if (AUTOSTART) {
+    cron.schedule(expression, task, options);
+  }
+}
 
 // Configuration for video download fallback
 const VIDEO_DOWNLOAD_MAX_SIZE_MB = parseInt(
@@ -67,22 +147,16 @@ const VIDEO_DOWNLOAD_TIMEOUT_MS = parseInt(
 );
 const DRY_RUN_MODE = process.env.DRY_RUN_MODE === 'true';
 
+// Safety-manager chat: PTI escalation, unacknowledged alerts, disputes
+const SAFETY_MANAGER_CHAT_ID = process.env.SAFETY_MANAGER_CHAT_ID
+  ? parseInt(process.env.SAFETY_MANAGER_CHAT_ID, 10)
+  : null;
 
-// Языки для PTI-сообщений
-type LanguageCode = 'en' | 'ru' | 'uz';
+// Management chat for the weekly safety leaderboard (defaults to the safety-manager chat)
+const SAFETY_LEADERBOARD_CHAT_ID = process.env.SAFETY_LEADERBOARD_CHAT_ID
+  ? parseInt(process.env.SAFETY_LEADERBOARD_CHAT_ID, 10)
+  : SAFETY_MANAGER_CHAT_ID;
 
-// ================== ГЛОБАЛЬНЫЕ ФИЛЬТРЫ ==================
-
-async function isChatAdmin(ctx: any): Promise<boolean> {
-  if (!ctx.chat || !ctx.from) return false;
-
-  const admins = await ctx.telegram.getChatAdministrators(ctx.chat.id);
-  return admins.some(
-    (admin: any) =>
-      admin.user.id === ctx.from.id &&
-      (admin.status === 'administrator' || admin.status === 'creator'),
-  );
-}
 
 // ================== ADMIN DEBUG COMMANDS (PRIVATE CHAT ONLY) ==================
 // These must be registered BEFORE the private chat filter
@@ -94,9 +168,10 @@ bot.command('debug_safety', requireAdminPrivateChat, handleDebugSafety);
 /**
  * Admin command to mark PTI as completed for the current chat.
  * Usage: /mark_pti_done
- * Only works in group chats (not private).
+ * Only works in group chats (not private), for group admins.
+ * Normally PTI is marked automatically when the driver posts the PTI video.
  */
-bot.command('mark_pti_done', requireAdminPrivateChat, async (ctx) => {
+bot.command('mark_pti_done', async (ctx) => {
   const chatId = ctx.chat?.id;
   
   if (!chatId || ctx.chat?.type === 'private') {
@@ -104,17 +179,26 @@ bot.command('mark_pti_done', requireAdminPrivateChat, async (ctx) => {
     return;
   }
 
+  const isAdmin = await isChatAdmin(ctx);
+  if (!isAdmin) {
+    await ctx.reply('❌ Only group admins can use this command.');
+    return;
+  }
+
   try {
-    const chat = await markPtiCompleted(BigInt(chatId));
+    const chat = await markPtiCompleted(BigInt(chatId), {
+      source: 'manual',
+      completedByTgUserId: ctx.from ? BigInt(ctx.from.id) : null,
+    });
     
     if (!chat) {
-      await ctx.reply('❌ Chat not found in database. Please register the chat first.');
+      await ctx.reply('❌ Chat not found in database. Run /register in the group first.');
       return;
     }
 
     const lastPtiDate = chat.lastPtiDate 
       ? new Date(chat.lastPtiDate).toLocaleDateString('en-US', { 
-          timeZone: 'America/New_York',
+          timeZone: 'UTC', // lastPtiDate is stored as UTC midnight of the chat's local calendar day
           month: 'short',
           day: 'numeric',
           year: 'numeric'
@@ -125,7 +209,7 @@ bot.command('mark_pti_done', requireAdminPrivateChat, async (ctx) => {
       `✅ PTI marked as completed for ${chat.name}.\n` +
       `Last PTI date: ${lastPtiDate}\n` +
       `\n` +
-      `This chat will NOT receive the 16:00 PTI reminder today.`
+      `No PTI follow-up reminder or missed-PTI escalation for this chat today.`
     );
   } catch (err: any) {
     console.error('❌ Error marking PTI completed:', err);
@@ -149,6 +233,70 @@ bot.command('update_truck_names', requireAdminPrivateChat, async (ctx) => {
   }
 });
 
+// ================== /pti_report (ADMIN) ==================
+/**
+ * PTI compliance report per chat with CSV export for payroll.
+ * Usage: /pti_report [YYYY-MM]
+ */
+bot.command('pti_report', requireAdminPrivateChat, handlePtiReport);
+
+// ================== /rules (ADMIN) ==================
+/**
+ * Manage event routing rules (which Samsara events reach drivers).
+ * Usage: /rules list | add <rule> | remove <id> | dryrun <hours> [rule]
+ */
+bot.command('rules', requireAdminPrivateChat, handleRules);
+
+// ================== /pti_template (ADMIN) ==================
+/**
+ * View, edit, preview and roll back PTI message templates.
+ * Usage: /pti_template <view|preview|set|history|rollback> <en|ru|uz> [followup] [chat:<id>]
+ */
+bot.command('pti_template', requireAdminPrivateChat, handlePtiTemplate);
+
+// ================== /fleet (ADMIN) ==================
+/**
+ * Fleet dashboard for today: events per truck, trucks without a chat,
+ * groups without a driver, PTI misses. Drill-down via inline buttons ("fl:").
+ */
+bot.command('fleet', requireAdminPrivateChat, handleFleet);
+bot.action(/^fl:/, handleFleetCallback);
+
+// ================== /link_trucks (ADMIN) ==================
+/**
+ * Link Truck rows to Samsara vehicle IDs / VIN / serial (matched by name),
+ * and follow renames made in Samsara.
+ * Usage: /link_trucks [dryrun]
+ */
+bot.command('link_trucks', requireAdminPrivateChat, handleLinkTrucks);
+
+// ================== /reconcile (ADMIN) ==================
+/**
+ * Samsara vehicles without a chat, trucks missing from Samsara, undelivered events
+ * and alerts whose outbox delivery failed for good.
+ * Also sent to admins by RECONCILE_CRON; "rc:" buttons assign a vehicle to a group.
+ */
+bot.command('reconcile', requireAdminPrivateChat, handleReconcile);
+bot.action(/^rc:/, handleReconcileCallback);
+
+// ================== /truck_history (ADMIN) ==================
+/**
+ * Show which chat owned a truck when.
+ * Usage: /truck_history Truck 105
+ * Works for bot admins in private chat and for group admins in groups.
+ */
+bot.command('truck_history', handleTruckHistory);
+
+// ================== ОСПАРИВАНИЕ АЛЕРТОВ (Dispute) ==================
+/**
+ * Driver side of a dispute runs in the driver's private chat
+ * (/start dispute_<id>, reason, photo / voice evidence, "Send without evidence"),
+ * so it is registered before the private chat filter.
+ * Approve / Reject buttons are handled for the safety-manager chat only.
+ */
+bot.use((ctx, next) => handleDisputeDm(ctx, next, SAFETY_MANAGER_CHAT_ID));
+bot.action(/^dsp:/, (ctx) => handleDisputeCallback(ctx, SAFETY_MANAGER_CHAT_ID));
+
 // Игнорировать все личные чаты (except admin debug commands above)
 bot.use((ctx, next) => {
   if (ctx.chat?.type === 'private') {
@@ -175,9 +323,19 @@ bot.command('id', (ctx) => {
 
 
 // PTI сообщения вручную
-bot.command('pti_en', (ctx) => ctx.reply(ptiMessages.en));
-bot.command('pti_ru', (ctx) => ctx.reply(ptiMessages.ru));
-bot.command('pti_uz', (ctx) => ctx.reply(ptiMessages.uz));
+bot.command('pti_en', handlePtiMessage('en'));
+bot.command('pti_ru', handlePtiMessage('ru'));
+bot.command('pti_uz', handlePtiMessage('uz'));
+
+// ================== ONBOARDING (/register) ==================
+
+bot.command('register', handleRegister);
+bot.action(/^reg:/, handleRegisterCallback);
+
+// ================== TRUCK ASSIGNMENT COMMANDS ==================
+
+bot.command('assign_truck', handleAssignTruck);
+bot.command('unassign_truck', handleUnassignTruck);
 
 // ================== MENTION TEMPLATE COMMANDS ==================
 
@@ -213,7 +371,7 @@ bot.command('setmention', async (ctx) => {
 
     if (!updatedChat) {
       await ctx.reply(
-        '❌ Chat not found in database. Please ensure this chat is registered.'
+        '❌ Chat not found in database. Run /register first.'
       );
       return;
     }
@@ -307,7 +465,7 @@ bot.command('setdriver', async (ctx) => {
   });
 
   if (!result) {
-    await ctx.reply('❌ This chat is not registered in the database.');
+    await ctx.reply('❌ This chat is not registered in the database. Run /register first.');
     return;
   }
 
@@ -372,134 +530,93 @@ bot.command('cleardriver', async (ctx) => {
 });
 
 
-// ================== ФИЛЬТР SAFETY-СОБЫТИЙ ==================
-//
-// ТИПЫ, которые считаем серьёзными и хотим видеть в Телеграме.
-//
+// ================== ALERT UNITS ==================
+// Safety/speeding alerts use the chat language (Chat.language) and unit (/set_units)
 
-// Подробные ключи для speeding
-const SPEEDING_KEYWORDS = [
-  'speed',
-  'speeding',
-  'max speed',
-  'severe speed',
-  'severe speeding',
-  'speeding (manual)',
-];
-
-// Остальные серьёзные типы
-const OTHER_SERIOUS_KEYWORDS = [
-  'harsh brake', // Harsh Brake / Harsh Braking
-  'harsh braking',
-  'yield',       // Did Not Yield
-  'red light',   // Ran Red Light
-  'rolling stop', // Rolling Stop
-  'crash',        // Crash / Accident
-  'collision',    // Collision
-];
-
-const ALLOWED_KEYWORDS = [...SPEEDING_KEYWORDS, ...OTHER_SERIOUS_KEYWORDS];
-
-const BLOCKED_KEYWORDS = ['following distance', 'followingdistance'];
-
-function isRelevantEvent(ev: SafetyEvent): boolean {
-  const labels = ev.behaviorLabels ?? [];
-  if (!labels.length) return false;
-
-  const text = labels
-    .map((l) => `${l.label || ''} ${l.name || ''}`)
-    .join(' ')
-    .toLowerCase();
-
-  const compact = text.replace(/[\s_]+/g, '');
-
-  // выбрасываем Following Distance
-  if (
-    BLOCKED_KEYWORDS.some((kw) => {
-      const kwCompact = kw.replace(/[\s_]+/g, '');
-      return text.includes(kw) || compact.includes(kwCompact);
-    })
-  ) {
-    return false;
-  }
+bot.command('set_units', handleSetUnits);
 
-  // оставляем только серьёзные типы
-  return ALLOWED_KEYWORDS.some((kw) => {
-    const kwLower = kw.toLowerCase();
-    const kwCompact = kwLower.replace(/[\s_]+/g, '');
-    return text.includes(kwLower) || compact.includes(kwCompact);
-  });
-}
+// ================== SAFETY SCORE ==================
+// /score [truck|driver] - last 7 days vs the 7 days before (dismissed events don't count)
+// Drivers: own group only; group admins and safety managers: any truck or driver (also in private chat)
 
-/**
- * Check if a unified event is relevant (should be sent to Telegram).
- * Includes severe_speeding from speeding intervals.
- */
-function isRelevantUnifiedEvent(event: UnifiedEvent): boolean {
-  // Severe speeding intervals are always relevant
-  if (event.source === 'speeding' && event.type === 'severe_speeding') {
-    return true;
-  }
+bot.command('score', handleScore);
 
-  // For safety events, use existing filter
-  if (event.source === 'safety') {
-    // Convert unified event back to SafetyEvent-like structure for filtering
-    const type = event.type.toLowerCase();
-    const compact = type.replace(/[\s_]+/g, '');
-
-    // Block following distance
-    if (
-      BLOCKED_KEYWORDS.some((kw) => {
-        const kwCompact = kw.replace(/[\s_]+/g, '');
-        return type.includes(kw) || compact.includes(kwCompact);
-      })
-    ) {
-      return false;
-    }
+// ================== SAFETY DIGEST ==================
+// /digest daily|weekly|off [HH:MM] [weekday] - opt-in per group, sent in the group's language
 
-    // Allow serious types
-    return ALLOWED_KEYWORDS.some((kw) => {
-      const kwLower = kw.toLowerCase();
-      const kwCompact = kwLower.replace(/[\s_]+/g, '');
-      return type.includes(kwLower) || compact.includes(kwCompact);
-    });
-  }
+bot.command('digest', handleDigest);
 
-  return false;
-}
+// ================== PTI VIDEO DETECTION ==================
+// The assigned driver's video / video note marks PTI as completed automatically
+
+bot.command('set_pti_window', handleSetPtiWindow);
+bot.command('set_pti_schedule', handleSetPtiSchedule);
+bot.on(['video', 'video_note'], handlePtiVideo);
+
+
+// ================== ФИЛЬТР SAFETY-СОБЫТИЙ ==================
+//
+// Какие события уходят в Телеграм, решают правила из таблицы event_rules
+// (см. services/eventRules.ts и /rules). Пока таблица пустая - встроенные
+// правила: speeding, harsh brake, yield, red light, rolling stop, crash,
+// collision; Following Distance исключён.
+//
 
 // ================== ФОРМАТИРОВАНИЕ СООБЩЕНИЙ ==================
 
-function formatLocalTime(dateIso: string): string {
+// Locale for alerts outside of a registered chat (test commands)
+const DEFAULT_ALERT_LOCALE: AlertLocale = {
+  language: 'en',
+  timeZone: DEFAULT_TIMEZONE,
+  speedUnit: 'mph',
+};
+
+function formatLocalTime(dateIso: string, locale: AlertLocale = DEFAULT_ALERT_LOCALE): string {
   const d = new Date(dateIso);
-  return d.toLocaleString('en-US', {
-    timeZone: 'America/New_York', // твой основной timezone
+  const t = alertMessages[locale.language];
+  return d.toLocaleString(t.dateLocale, {
+    timeZone: locale.timeZone, // timezone чата (Chat.timezone)
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
     hour: '2-digit',
     minute: '2-digit',
     second: '2-digit',
+    hour12: t.hour12,
   });
 }
 
-function formatSafetyCaption(ev: SafetyEvent): string {
-  const vehicleName = ev.vehicle?.name ?? 'Unknown';
-  const behavior =
-    ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') ?? 'Unknown';
-  const timeLocal = ev.time ? formatLocalTime(ev.time) : 'unknown time';
+/**
+ * Translate behavior labels of an event into the chat language.
+ */
+function formatBehaviorLabels(
+  labels: { label?: string; name?: string }[] | undefined,
+  language: LanguageCode
+): string {
+  return (labels ?? [])
+    .map((l) => l.name || l.label || '')
+    .filter(Boolean)
+    .map((l) => translateBehaviorLabel(l, language))
+    .join(', ');
+}
+
+function formatSafetyCaption(ev: SafetyEvent, locale: AlertLocale = DEFAULT_ALERT_LOCALE): string {
+  const t = alertMessages[locale.language];
+  const vehicleName = ev.vehicle?.name ?? t.unknown;
+  const behavior = formatBehaviorLabels(ev.behaviorLabels, locale.language) || t.unknown;
+  const timeLocal = ev.time ? formatLocalTime(ev.time, locale) : t.unknownTime;
 
   const lat = ev.location?.latitude;
   const lon = ev.location?.longitude;
   const hasLocation = lat != null && lon != null;
 
-  let caption = `⚠️ *Safety Warning*
-*Truck:* ${vehicleName}
-*Behavior:* ${behavior}
-*Time:* ${timeLocal}`;
+  let caption = `⚠️ *${t.safetyWarning}*
+*${t.truck}:* ${vehicleName}
+*${t.behavior}:* ${behavior}
+*${t.time}:* ${timeLocal}`;
 
   if (hasLocation) {
-    caption += `\n*Location:* ${lat.toFixed(5)}, ${lon.toFixed(5)}
+    caption += `\n*${t.location}:* ${lat.toFixed(5)}, ${lon.toFixed(5)}
 https://www.google.com/maps?q=${lat},${lon}`;
   }
 
@@ -513,60 +630,65 @@ https://www.google.com/maps?q=${lat},${lon}`;
  * 
  * @param event - UnifiedEvent of type severe_speeding
  * @param vehicleName - Vehicle name (from mapping or assetId, e.g., "Truck 704")
+ * @param locale - Language, timezone and speed unit of the target chat
  * @returns Plain text message formatted according to the design spec
  */
 function formatSevereSpeedingMessage(
   event: UnifiedEvent,
-  vehicleName: string
+  vehicleName: string,
+  locale: AlertLocale = DEFAULT_ALERT_LOCALE
 ): string {
+  const t = alertMessages[locale.language];
+  const unit = t.units[locale.speedUnit];
+
   // Extract truck number from vehicleName (e.g., "Truck 704" -> "704")
   const truckNumber = vehicleName.replace(/^Truck\s+/i, '').trim() || vehicleName;
 
-  // Get speed data
-  const speedLimitMph = Math.round(event.details?.speedLimitMph ?? 0);
-  const actualSpeedMph = Math.round(event.details?.maxSpeedMph ?? 0);
-  const overLimit = actualSpeedMph - speedLimitMph;
+  // Get speed data (Samsara reports mph, convert to chat unit)
+  const speedLimit = convertSpeed(event.details?.speedLimitMph ?? 0, locale.speedUnit);
+  const actualSpeed = convertSpeed(event.details?.maxSpeedMph ?? 0, locale.speedUnit);
+  const overLimit = actualSpeed - speedLimit;
 
   // Format event time: "Dec 13, 2025 6:30 PM"
   const date = new Date(event.occurredAt);
-  const dateLabel = date.toLocaleString('en-US', {
-    timeZone: 'America/New_York',
+  const dateLabel = date.toLocaleString(t.dateLocale, {
+    timeZone: locale.timeZone,
     month: 'short',
     day: 'numeric',
     year: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
+    hour12: t.hour12,
   });
 
   // Format detected time: "10:15 AM"
   const detectedAt = new Date(); // Current time (when bot detected it)
-  const detectedAtLabel = detectedAt.toLocaleString('en-US', {
-    timeZone: 'America/New_York',
+  const detectedAtLabel = detectedAt.toLocaleString(t.dateLocale, {
+    timeZone: locale.timeZone,
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
+    hour12: t.hour12,
   });
 
   // Get location (fallback to "N/A" if not available)
   const location = event.details?.location?.address || 'N/A';
 
   // Build message according to design spec (plain text, no Markdown)
-  return `🟥 SEVERE SPEEDING ALERT
+  return `🟥 ${t.severeSpeedingTitle}
 
-🚛 Truck: ${truckNumber}
+🚛 ${t.truck}: ${truckNumber}
 
-📍 Location: ${location}
+📍 ${t.location}: ${location}
 
-⏱ Time:
+⏱ ${t.time}:
 ${dateLabel}
 
-⚠️ Speed:
-Speed limit: ${speedLimitMph} mph
-Actual speed: ${actualSpeedMph} mph
-Over limit: +${overLimit} mph
+⚠️ ${t.speed}:
+${t.speedLimit}: ${speedLimit} ${unit}
+${t.actualSpeed}: ${actualSpeed} ${unit}
+${t.overLimit}: +${overLimit} ${unit}
 
-⏰ Detected by bot: ${detectedAtLabel}`;
+⏰ ${t.detectedByBot}: ${detectedAtLabel}`;
 }
 
 /**
@@ -575,87 +697,95 @@ Over limit: +${overLimit} mph
  */
 function formatSpeedingIntervalMessage(
   event: UnifiedEvent,
-  vehicleName: string
+  vehicleName: string,
+  locale: AlertLocale = DEFAULT_ALERT_LOCALE
 ): string {
+  const t = alertMessages[locale.language];
+  const unit = t.units[locale.speedUnit];
   const truckNumber = vehicleName.replace(/^Truck\s+/i, '').trim() || vehicleName;
 
-  const speedLimitMph = Math.round(event.details?.speedLimitMph ?? 0);
-  const actualSpeedMph = Math.round(event.details?.maxSpeedMph ?? 0);
-  const overLimit = actualSpeedMph - speedLimitMph;
+  const speedLimit = convertSpeed(event.details?.speedLimitMph ?? 0, locale.speedUnit);
+  const actualSpeed = convertSpeed(event.details?.maxSpeedMph ?? 0, locale.speedUnit);
+  const overLimit = actualSpeed - speedLimit;
 
   const date = new Date(event.occurredAt);
-  const dateLabel = date.toLocaleString('en-US', {
-    timeZone: 'America/New_York',
+  const dateLabel = date.toLocaleString(t.dateLocale, {
+    timeZone: locale.timeZone,
     month: 'short',
     day: 'numeric',
     year: 'numeric',
   });
 
-  const timeLabel = date.toLocaleString('en-US', {
-    timeZone: 'America/New_York',
+  const timeLabel = date.toLocaleString(t.dateLocale, {
+    timeZone: locale.timeZone,
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
+    hour12: t.hour12,
   });
 
   const location = event.details?.location?.address || 'N/A';
   const severity = (event.details as any)?.severityLevel || 'N/A';
 
-  return `🚧 SPEEDING INTERVAL
+  return `🚧 ${t.speedingIntervalTitle}
 
-🚛 Truck: ${truckNumber}
-📍 Location: ${location}
-🕒 Time: ${dateLabel} ${timeLabel}
+🚛 ${t.truck}: ${truckNumber}
+📍 ${t.location}: ${location}
+🕒 ${t.time}: ${dateLabel} ${timeLabel}
 
-⚠️ Speed:
-Speed limit: ${speedLimitMph} mph
-Actual speed: ${actualSpeedMph} mph
-Over limit: +${overLimit} mph
+⚠️ ${t.speed}:
+${t.speedLimit}: ${speedLimit} ${unit}
+${t.actualSpeed}: ${actualSpeed} ${unit}
+${t.overLimit}: +${overLimit} ${unit}
 
-🏷 Severity (Samsara): ${severity}`;
+🏷 ${t.severity}: ${severity}`;
 }
 
 /**
  * Format unified event caption for display.
  * Works for both safety events and speeding intervals.
  */
-function formatUnifiedEventCaption(event: UnifiedEvent): string {
-  const vehicleName = event.vehicleName ?? 'Unknown';
-  const timeLocal = formatLocalTime(event.occurredAt);
+function formatUnifiedEventCaption(event: UnifiedEvent, locale: AlertLocale = DEFAULT_ALERT_LOCALE): string {
+  const t = alertMessages[locale.language];
+  const unit = t.units[locale.speedUnit];
+  const vehicleName = event.vehicleName ?? t.unknown;
+  const timeLocal = formatLocalTime(event.occurredAt, locale);
   
-  let behavior = 'Unknown';
+  let behavior = t.unknown;
   if (event.source === 'speeding' && event.type === 'severe_speeding') {
-    behavior = 'Severe Speeding';
+    behavior = t.severeSpeeding;
     const maxSpeed = event.details?.maxSpeedMph;
     const speedLimit = event.details?.speedLimitMph;
     if (maxSpeed != null && speedLimit != null) {
-      behavior += ` (${maxSpeed} mph in ${speedLimit} mph zone)`;
+      behavior += ` (${t.speedInZone(
+        convertSpeed(maxSpeed, locale.speedUnit),
+        convertSpeed(speedLimit, locale.speedUnit),
+        unit
+      )})`;
     }
   } else if (event.source === 'safety') {
-    const labels = event.details?.behaviorLabels || [];
-    behavior = labels.map((l: any) => l.name || l.label).join(', ') || 'Unknown';
+    behavior = formatBehaviorLabels(event.details?.behaviorLabels, locale.language) || t.unknown;
   }
 
-  let caption = `⚠️ *Safety Warning*
-*Truck:* ${vehicleName}
-*Behavior:* ${behavior}
-*Time:* ${timeLocal}`;
+  let caption = `⚠️ *${t.safetyWarning}*
+*${t.truck}:* ${vehicleName}
+*${t.behavior}:* ${behavior}
+*${t.time}:* ${timeLocal}`;
 
   // Add location if available (for safety events)
   if (event.details?.location) {
     const lat = event.details.location.latitude;
     const lon = event.details.location.longitude;
     if (lat != null && lon != null) {
-      caption += `\n*Location:* ${lat.toFixed(5)}, ${lon.toFixed(5)}
+      caption += `\n*${t.location}:* ${lat.toFixed(5)}, ${lon.toFixed(5)}
 https://www.google.com/maps?q=${lat},${lon}`;
     }
   }
 
   // Add speed info for speeding intervals
   if (event.source === 'speeding' && event.endedAt) {
-    const startTime = formatLocalTime(event.occurredAt);
-    const endTime = formatLocalTime(event.endedAt);
-    caption += `\n*Duration:* ${startTime} - ${endTime}`;
+    const startTime = formatLocalTime(event.occurredAt, locale);
+    const endTime = formatLocalTime(event.endedAt, locale);
+    caption += `\n*${t.duration}:* ${startTime} - ${endTime}`;
   }
 
   return caption;
@@ -672,8 +802,9 @@ https://www.google.com/maps?q=${lat},${lon}`;
  */
 function buildSafetyPayload(
   ev: SafetyEvent,
+  locale: AlertLocale = DEFAULT_ALERT_LOCALE,
 ): { caption: string; videoUrl?: string } {
-  const caption = formatSafetyCaption(ev);
+  const caption = formatSafetyCaption(ev, locale);
 
   const forward = ev.downloadForwardVideoUrl as string | undefined;
   const inward = (ev as any).downloadInwardVideoUrl as string | undefined;
@@ -740,33 +871,13 @@ async function downloadVideoToTemp(
 }
 
 /**
- * Shared helper function to send safety alert with video.
- * Used by both /safety_test and cron job to ensure identical behavior.
- * 
- * BEHAVIOR:
- * - Video URL selection: forward > inward > generic (same as buildSafetyPayload)
- * - Sending method: First tries sendVideo with URL (same as /safety_test uses ctx.replyWithVideo)
- * - Fallback: If URL send fails, downloads video and sends as file stream
- * - Error handling: If video fails, still sends text message with error logged (not in chat)
- * 
- * @param event - SafetyEvent from Samsara
- * @param chatId - Telegram chat ID (number)
- * @param caption - Full caption text (may include driver mention)
- * @param dryRun - If true, simulate sending without actually sending to Telegram
- * @returns Object with success status and video URL used (if any)
+ * Video URL of a safety event: from the feed (forward > inward > generic),
+ * otherwise from the Samsara media lookup (±5 minutes around the event).
+ *
+ * @returns Video URL, or undefined if Samsara has no video (yet)
  */
-async function sendSafetyAlertWithVideo(
-  event: SafetyEvent,
-  chatId: number,
-  caption: string,
-  dryRun: boolean = false,
-  options?: { allowTextIfNoVideo?: boolean }
-): Promise<{ success: boolean; videoUrl?: string; error?: string }> {
+async function resolveSafetyVideoUrl(event: SafetyEvent): Promise<string | undefined> {
   const eventId = event.id;
-  const vehicleName = event.vehicle?.name ?? 'Unknown';
-  const vehicleId = event.vehicle?.id ?? 'Unknown';
-
-  const allowTextIfNoVideo = options?.allowTextIfNoVideo ?? true;
 
   // 1) Попытка взять URL из самого события (как раньше, как в /safety_test)
   // Priority: forward > inward > generic
@@ -800,6 +911,51 @@ async function sendSafetyAlertWithVideo(
     }
   }
 
+  return videoUrl;
+}
+
+/**
+ * Shared helper function to send safety alert with video.
+ * Used by both /safety_test and cron job to ensure identical behavior.
+ * 
+ * BEHAVIOR:
+ * - Video URL selection: forward > inward > generic (same as buildSafetyPayload)
+ * - Sending method: First tries sendVideo with URL (same as /safety_test uses ctx.replyWithVideo)
+ * - Fallback: If URL send fails, downloads video and sends as file stream
+ * - Error handling: If video fails, still sends text message with error logged (not in chat)
+ * 
+ * @param event - SafetyEvent from Samsara
+ * @param chatId - Telegram chat ID (number)
+ * @param caption - Full caption text (may include driver mention)
+ * @param dryRun - If true, simulate sending without actually sending to Telegram
+ * @param options - allowTextIfNoVideo; videoUrl already resolved by the caller (null = no video)
+ * @returns Object with success status, video URL used (if any) and the sent Telegram message ID
+ *          (on failure: Telegram error code and 429 retry_after for the outbox)
+ */
+async function sendSafetyAlertWithVideo(
+  event: SafetyEvent,
+  chatId: number,
+  caption: string,
+  dryRun: boolean = false,
+  options?: { allowTextIfNoVideo?: boolean; videoUrl?: string | null }
+): Promise<{
+  success: boolean;
+  videoUrl?: string;
+  error?: string;
+  errorCode?: number;
+  retryAfter?: number;
+  messageId?: number;
+}> {
+  const eventId = event.id;
+  const vehicleName = event.vehicle?.name ?? 'Unknown';
+  const vehicleId = event.vehicle?.id ?? 'Unknown';
+
+  const allowTextIfNoVideo = options?.allowTextIfNoVideo ?? true;
+
+  // Video URL resolved by the caller (outbox retries) or looked up now
+  const videoUrl =
+    options?.videoUrl !== undefined ? options.videoUrl || undefined : await resolveSafetyVideoUrl(event);
+
   // Log context
   const maskedUrl = videoUrl ? maskVideoUrl(videoUrl) : 'none';
   let urlHostname = 'none';
@@ -832,33 +988,38 @@ async function sendSafetyAlertWithVideo(
     }
 
     try {
-      await bot.telegram.sendMessage(chatId, caption, {
+      const sent = await bot.telegram.sendMessage(chatId, caption, {
         parse_mode: 'Markdown',
       });
       console.log(
         `✅ [sendSafetyAlertWithVideo] Event ${eventId} sent (text only) to chatId ${chatId}`
       );
-      return { success: true };
+      return { success: true, messageId: sent.message_id };
     } catch (error: any) {
       const errorMsg = error.response?.description || error.message || 'Unknown error';
       console.error(
         `❌ [sendSafetyAlertWithVideo] Event ${eventId} failed to send text to chatId ${chatId}:`,
         errorMsg
       );
-      return { success: false, error: errorMsg };
+      return {
+        success: false,
+        error: errorMsg,
+        errorCode: error.response?.error_code,
+        retryAfter: error.response?.parameters?.retry_after,
+      };
     }
   }
 
   // Try sending video with URL first (same as /safety_test uses ctx.replyWithVideo)
   try {
-    await bot.telegram.sendVideo(chatId, videoUrl, {
+    const sent = await bot.telegram.sendVideo(chatId, videoUrl, {
       caption,
       parse_mode: 'Markdown',
     });
     console.log(
       `✅ [sendSafetyAlertWithVideo] Event ${eventId} sent with video (URL) to chatId ${chatId}`
     );
-    return { success: true, videoUrl };
+    return { success: true, videoUrl, messageId: sent.message_id };
   } catch (urlError: any) {
     const urlErrorMsg = urlError.response?.description || urlError.message || 'Unknown error';
     const urlErrorCode = urlError.response?.error_code;
@@ -884,7 +1045,7 @@ async function sendSafetyAlertWithVideo(
         `   Error doesn't warrant fallback, sending text only...`
       );
       try {
-        await bot.telegram.sendMessage(chatId, caption, {
+        const sent = await bot.telegram.sendMessage(chatId, caption, {
           parse_mode: 'Markdown',
         });
         console.log(
@@ -894,14 +1055,19 @@ async function sendSafetyAlertWithVideo(
         console.log(
           `   (video failed: ${urlErrorMsg})`
         );
-        return { success: true, videoUrl, error: urlErrorMsg };
+        return { success: true, videoUrl, error: urlErrorMsg, messageId: sent.message_id };
       } catch (textError: any) {
         const textErrorMsg = textError.response?.description || textError.message || 'Unknown error';
         console.error(
           `❌ [sendSafetyAlertWithVideo] Event ${eventId} failed to send text fallback to chatId ${chatId}:`,
           textErrorMsg
         );
-        return { success: false, error: textErrorMsg };
+        return {
+          success: false,
+          error: textErrorMsg,
+          errorCode: textError.response?.error_code,
+          retryAfter: textError.response?.parameters?.retry_after,
+        };
       }
     }
 
@@ -913,7 +1079,7 @@ async function sendSafetyAlertWithVideo(
         `   Download failed, sending text only...`
       );
       try {
-        await bot.telegram.sendMessage(chatId, caption, {
+        const sent = await bot.telegram.sendMessage(chatId, caption, {
           parse_mode: 'Markdown',
         });
         console.log(
@@ -922,21 +1088,26 @@ async function sendSafetyAlertWithVideo(
         console.log(
           `   (video failed: download error)`
         );
-        return { success: true, videoUrl, error: 'Download failed' };
+        return { success: true, videoUrl, error: 'Download failed', messageId: sent.message_id };
       } catch (textError: any) {
         const textErrorMsg = textError.response?.description || textError.message || 'Unknown error';
         console.error(
           `❌ [sendSafetyAlertWithVideo] Event ${eventId} failed to send text fallback to chatId ${chatId}:`,
           textErrorMsg
         );
-        return { success: false, error: textErrorMsg };
+        return {
+          success: false,
+          error: textErrorMsg,
+          errorCode: textError.response?.error_code,
+          retryAfter: textError.response?.parameters?.retry_after,
+        };
       }
     }
 
     // Send video as file stream
     try {
       const videoStream = fs.createReadStream(tempFile);
-      await bot.telegram.sendVideo(chatId, { source: videoStream }, {
+      const sent = await bot.telegram.sendVideo(chatId, { source: videoStream }, {
         caption,
         parse_mode: 'Markdown',
       });
@@ -946,7 +1117,7 @@ async function sendSafetyAlertWithVideo(
       
       // Clean up temp file
       fs.unlinkSync(tempFile);
-      return { success: true, videoUrl };
+      return { success: true, videoUrl, messageId: sent.message_id };
     } catch (streamError: any) {
       const streamErrorMsg = streamError.response?.description || streamError.message || 'Unknown error';
       console.error(
@@ -961,7 +1132,7 @@ async function sendSafetyAlertWithVideo(
       
       // Last resort: send text only
       try {
-        await bot.telegram.sendMessage(chatId, caption, {
+        const sent = await bot.telegram.sendMessage(chatId, caption, {
           parse_mode: 'Markdown',
         });
         console.log(
@@ -970,14 +1141,19 @@ async function sendSafetyAlertWithVideo(
         console.log(
           `   (video failed: ${streamErrorMsg})`
         );
-        return { success: true, videoUrl, error: streamErrorMsg };
+        return { success: true, videoUrl, error: streamErrorMsg, messageId: sent.message_id };
       } catch (textError: any) {
         const textErrorMsg = textError.response?.description || textError.message || 'Unknown error';
         console.error(
           `❌ [sendSafetyAlertWithVideo] Event ${eventId} completely failed to chatId ${chatId}:`,
           textErrorMsg
         );
-        return { success: false, error: textErrorMsg };
+        return {
+          success: false,
+          error: textErrorMsg,
+          errorCode: textError.response?.error_code,
+          retryAfter: textError.response?.parameters?.retry_after,
+        };
       }
     }
   }
@@ -1008,25 +1184,70 @@ function convertToNewYorkTime(dateIso: string | undefined): Date {
   return date;
 }
 
+// Rate limit protection: prevent spam on bot restart (max 25 events per run)
+function getMaxEventsPerRun(): number {
+  return parseInt(process.env.MAX_EVENTS_PER_CRON_RUN || '25', 10);
+}
+
+// Cron polling and webhook deliveries run one at a time, so the same event is never
+// processed twice in parallel (dedup is checked before the outbox insert)
+let pipelineTail: Promise<unknown> = Promise.resolve();
+
+function runInPipeline<T>(fn: () => Promise<T>): Promise<T> {
+  const run = pipelineTail.then(fn, fn);
+  pipelineTail = run.catch(() => undefined);
+  return run;
+}
+
 async function checkAndNotifySafetyEvents() {
+  const now = new Date();
+  const [safetyCursor, speedingCursor] = await Promise.all([getPollCursor('safety'), getPollCursor('speeding')]);
+
+  // Live window (last 60 minutes) plus catch-up chunks when the cursor is older (downtime)
+  const windows = planPollWindows(safetyCursor, now, SAFETY_LOOKBACK_MINUTES);
   console.log(
-    `🚨 Checking Samsara events (last ${SAFETY_LOOKBACK_MINUTES} min)...`,
+    `🚨 Checking Samsara events (last ${SAFETY_LOOKBACK_MINUTES} min)` +
+      (windows.catchUp.length ? `, catching up from ${windows.catchUp[0].from.toISOString()}` : '') +
+      '...',
   );
 
-  // Rate limit protection: prevent spam on bot restart (max 25 events per cron run)
-  const MAX_EVENTS_PER_CRON_RUN = parseInt(process.env.MAX_EVENTS_PER_CRON_RUN || '25', 10);
+  // Old events from all windows, summarized per group at the end of the run
+  const catchUp: CatchUpBatch = new Map();
 
-  // Calculate time window for safety events (60 minutes)
-  const now = new Date();
-  const from = new Date(now.getTime() - SAFETY_LOOKBACK_MINUTES * 60 * 1000);
+  // Catch-up chunks oldest first; the cursor stops before the first chunk that didn't finish
+  let safetyReached: Date | null = null;
+  let safetyBlocked = false;
+  for (const window of windows.catchUp) {
+    const { events, truncated: fetchTruncated, error } = await getSafetyEventsInWindow(window);
+    console.log(
+      `[SAMSARA] safety events: ${events.length} (catch-up ${window.from.toISOString()} – ${window.to.toISOString()})`
+    );
+    if (error) {
+      // Failed fetch is not an empty window: retry this chunk next run
+      console.error(`❌ [SAMSARA][SAFETY] Catch-up window failed (${error.kind}): ${error.message}`);
+    } else if (fetchTruncated) {
+      console.warn(
+        `⚠️ [SAMSARA][SAFETY] Catch-up window truncated at ${events.length} events (SAMSARA_SAFETY_MAX_EVENTS), some events were not fetched`
+      );
+    }
+    const { truncated } = await runInPipeline(() => processSafetyEvents(events, now, catchUp));
+    if (truncated || error) {
+      safetyBlocked = true;
+      break;
+    }
+    safetyReached = window.to;
+  }
 
-  // Fetch safety events (60-minute window) and speeding intervals (sliding window with 6h+buffer)
+  // Fetch safety events (60-minute window) and speeding intervals (sliding window with 6h+buffer,
+  // widened back to the speeding cursor after downtime)
   // Speeding uses Samsara-recommended sliding window strategy, separate from safety events
-  const [safetyEvents, speedingResult] = await Promise.all([
-    getSafetyEventsInWindow({ from, to: now }, 200),
-    fetchSpeedingIntervalsWithSlidingWindow(),
+  const [safetyResult, speedingResult] = await Promise.all([
+    getSafetyEventsInWindow(windows.live),
+    fetchSpeedingIntervalsWithSlidingWindow({ since: getCatchUpStart(speedingCursor, now) ?? undefined }),
   ]);
 
+  const safetyEvents = safetyResult.events;
+
   // Extract new severe speeding intervals (already deduplicated)
   const speedingIntervals = speedingResult.newToPost;
   const totalSpeedingIntervals = speedingResult.total;
@@ -1034,29 +1255,78 @@ async function checkAndNotifySafetyEvents() {
 
   // Log counts per source
   console.log(`[SAMSARA] safety events: ${safetyEvents.length} (window: last ${SAFETY_LOOKBACK_MINUTES} min)`);
+  if (safetyResult.error) {
+    console.error(
+      `❌ [SAMSARA][SAFETY] Live window failed (${safetyResult.error.kind}): ${safetyResult.error.message}`
+    );
+  } else if (safetyResult.truncated) {
+    console.warn(
+      `⚠️ [SAMSARA][SAFETY] Live window truncated at ${safetyEvents.length} events (SAMSARA_SAFETY_MAX_EVENTS), some events were not fetched`
+    );
+  }
   console.log(
     `[SAMSARA] speeding intervals: ${totalSpeedingIntervals} (total), ${severeSpeedingCount} (severe), ${speedingIntervals.length} (new to post)`
   );
   console.log(
     `[SAMSARA][SPEEDING] windowStart=${speedingResult.windowStart} windowEnd=${speedingResult.windowEnd}`
   );
+  if (speedingResult.error) {
+    console.error(
+      `❌ [SAMSARA][SPEEDING] ${speedingResult.failedAssetIds.length || 'All'} asset(s) failed (${speedingResult.error.kind}): ${speedingResult.error.message}`
+    );
+  }
+
+  const { liveTruncated, speedingTruncated } = await runInPipeline(async () => {
+    const safety = await processSafetyEvents(safetyEvents, now, catchUp);
+    const speedingTruncated = await processSpeedingIntervals(speedingIntervals, now, catchUp);
+    return { liveTruncated: safety.truncated, speedingTruncated };
+  });
+
+  // The live window is polled again next minute, so a truncated live window only holds
+  // the cursor at its start; a failed one doesn't move it at all
+  if (!safetyBlocked && windows.complete && !safetyResult.error) {
+    safetyReached = liveTruncated ? windows.live.from : now;
+  }
+
+  // Cursors move only when the summaries of old events are queued (their events are
+  // logged only then, so nothing is lost if this fails)
+  if (!(await runInPipeline(() => queueCatchUpSummaries(catchUp, now)))) {
+    return;
+  }
+  if (safetyReached) {
+    await savePollCursor('safety', safetyReached);
+  }
+  if (speedingResult.windowEnd && !speedingTruncated && !speedingResult.error) {
+    await savePollCursor('speeding', now);
+  }
+}
 
+/**
+ * Filter, route and queue safety events. Shared by the polling cron and the Samsara webhook.
+ *
+ * @param safetyEvents - Events from the API or a webhook delivery
+ * @param now - Current time (event age decides whether to wait for video)
+ * @param catchUp - Collects old events for the group summaries (CATCHUP_OLD_EVENT_POLICY)
+ * @returns Events waiting for their video, and whether MAX_EVENTS_PER_CRON_RUN cut the batch short
+ */
+async function processSafetyEvents(
+  safetyEvents: SafetyEvent[],
+  now: Date,
+  catchUp: CatchUpBatch,
+): Promise<{ waitingForMedia: SafetyEvent[]; truncated: boolean }> {
   // ==================== PROCESS SAFETY EVENTS (same as /safety_test) ====================
   // Use the same mechanism as /safety_test: process SafetyEvent directly via sendSafetyAlertWithVideo()
   // This ensures 100% identical behavior and reliable video extraction
   
-  const relevantSafetyEvents = safetyEvents.filter(isRelevantEvent);
+  const MAX_EVENTS_PER_CRON_RUN = getMaxEventsPerRun();
+  const { rules: eventRules } = await loadEventRules();
+  const relevantSafetyEvents = await filterSafetyEventsByRules(eventRules, safetyEvents);
   console.log(`✅ Relevant safety events after filter: ${relevantSafetyEvents.length}`);
 
-  // Apply rate limit protection
-  const safetyEventsToProcess = relevantSafetyEvents.slice(0, MAX_EVENTS_PER_CRON_RUN);
-  if (relevantSafetyEvents.length > MAX_EVENTS_PER_CRON_RUN) {
-    console.warn(
-      `⚠️ [RATE_LIMIT] Limiting safety events: ${relevantSafetyEvents.length} total, processing only first ${MAX_EVENTS_PER_CRON_RUN} to prevent spam`
-    );
-  }
-
-  for (const ev of safetyEventsToProcess) {
+  const oldEventPolicy = getOldEventPolicy();
+  const waitingForMedia: SafetyEvent[] = [];
+  let queuedAlerts = 0;
+  for (const ev of relevantSafetyEvents) {
     // Check if already processed (deduplication)
     const alreadyProcessed = await isEventProcessed(ev.id);
     if (alreadyProcessed) {
@@ -1064,13 +1334,24 @@ async function checkAndNotifySafetyEvents() {
       continue;
     }
 
+    // Apply rate limit protection; the rest stays unprocessed and is picked up by the next run
+    if (queuedAlerts >= MAX_EVENTS_PER_CRON_RUN) {
+      console.warn(
+        `⚠️ [RATE_LIMIT] Limiting safety events: queued ${MAX_EVENTS_PER_CRON_RUN}, the rest is left for the next run to prevent spam`
+      );
+      return { waitingForMedia, truncated: true };
+    }
+
     const vehicleName = ev.vehicle?.name ?? 'Unknown';
 
-    // Find chat by vehicle name
-    const chat = await findChatByVehicleName(vehicleName);
+    // Find chat that owned the truck when the event happened (by vehicle ID, then name)
+    const chat = await findChatByVehicle(
+      { id: ev.vehicle?.id, name: ev.vehicle?.name },
+      ev.time || ev.occurredAt || ev.startTime,
+    );
 
     if (!chat) {
-      console.log(`❓ No chat mapping for vehicle ${vehicleName}`);
+      console.log(`❓ No chat mapping for vehicle ${vehicleName} (see /reconcile)`);
       // Log event even if no chat found
       const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
       const timeLocal = ev.time ? new Date(ev.time) : new Date();
@@ -1080,21 +1361,27 @@ async function checkAndNotifySafetyEvents() {
 
     const chatId = Number(chat.telegramChatId);
 
-    // Build driver mention if driver is set
-    const chatWithDriver = chat as Chat & {
-      driverTgUserId?: bigint | null;
-      driverUsername?: string | null;
-    };
-
-    let mentionText = '';
-    if (chatWithDriver.driverUsername) {
-      mentionText = `@${chatWithDriver.driverUsername}`;
-    } else if (chatWithDriver.driverTgUserId) {
-      mentionText = `[Driver](tg://user?id=${chatWithDriver.driverTgUserId})`;
+    // Caught up after downtime: summarized / archived instead of a late alert
+    if (oldEventPolicy !== 'deliver' && isOldEvent(ev.time || ev.occurredAt || ev.startTime, now)) {
+      const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
+      const timeLocal = ev.time ? new Date(ev.time) : new Date();
+      const record = async () => {
+        await logSafetyEvent(ev, chatId, behavior, null, timeLocal);
+        await archiveSafetyEventLog(ev.id);
+      };
+      if (oldEventPolicy === 'archive') {
+        await record();
+      } else {
+        addCatchUpItem(catchUp, chat, { eventId: ev.id, time: timeLocal, vehicleName, behavior, record });
+      }
+      continue;
     }
 
-    // Build caption using same logic as /safety_test
-    const { caption } = buildSafetyPayload(ev);
+    // Build driver mention if driver is set
+    const mentionText = buildDriverMention(chat);
+
+    // Build caption using same logic as /safety_test (chat language, timezone and units)
+    const { caption } = buildSafetyPayload(ev, getAlertLocale(chat));
     const finalCaption = mentionText ? `${mentionText}\n\n${caption}` : caption;
 
     const eventTimeIso = ev.time || ev.occurredAt || ev.startTime;
@@ -1111,6 +1398,7 @@ async function checkAndNotifySafetyEvents() {
           1,
         )}min < readyDelay=${SAFETY_MEDIA_READY_DELAY_MINUTES}min`,
       );
+      waitingForMedia.push(ev);
       continue;
     }
 
@@ -1128,77 +1416,90 @@ async function checkAndNotifySafetyEvents() {
       `[SAFETY][SEND_STRATEGY] eventId=${ev.id} age=${ageLabel} allowTextIfNoVideo=${allowTextIfNoVideo}`,
     );
 
-    // Use sendSafetyAlertWithVideo() - same as /safety_test
-    // Для «молодых» событий мы можем запретить текст, если видео ещё не готово
-    try {
-      const result = await sendSafetyAlertWithVideo(
-        ev,
-        chatId,
-        finalCaption,
-        false, // Not a dry run
-        { allowTextIfNoVideo },
+    // Для «молодых» событий ждём видео; после SAFETY_MEDIA_MAX_WAIT_MINUTES можно и текстом
+    const videoUrl = await resolveSafetyVideoUrl(ev);
+    if (!videoUrl && !allowTextIfNoVideo) {
+      // Видео ещё нет, текст слать рано — не помечаем событие обработанным, ждём следующего крона
+      console.log(
+        `⏳ [SAFETY][MEDIA_WAIT] Event ${ev.id} has no video yet and text-only is disabled. Will retry in next cron run.`,
       );
+      waitingForMedia.push(ev);
+      continue;
+    }
 
-      if (result.success && (result.videoUrl || allowTextIfNoVideo)) {
-        // Log event to database
-        const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
-        const timeLocal = ev.time ? new Date(ev.time) : new Date();
-        const videoUrl = result.videoUrl || null;
-        await logSafetyEvent(ev, chatId, behavior, videoUrl, timeLocal);
-        
-        console.log(
-          `✅ Sent safety event ${ev.id} to ${chat.name} (chatId=${chatId})${result.videoUrl ? ' with video' : ' (text only)'}`
-        );
-      } else if (!result.success && result.error === 'NO_VIDEO_YET' && !allowTextIfNoVideo) {
-        // Видео ещё нет, текст слать рано — не помечаем событие обработанным, ждём следующего крона
-        console.log(
-          `⏳ [SAFETY][MEDIA_WAIT] Event ${ev.id} has no video yet and text-only is disabled. Will retry in next cron run.`,
-        );
-      } else {
-        console.error(
-          `❌ Failed to send safety event ${ev.id} to ${chat.name} (chatId=${chatId}): ${result.error || 'Unknown error'}`
-        );
-        // Still log the event even if sending failed
-        const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
-        const timeLocal = ev.time ? new Date(ev.time) : new Date();
-        await logSafetyEvent(ev, chatId, behavior, null, timeLocal);
-      }
-    } catch (err: any) {
-      const errorMsg = err.response?.description || err.message || 'Unknown error';
-      console.error(
-        `❌ Error sending safety event ${ev.id} to ${chat.name} (chatId=${chatId}): ${errorMsg}`
-      );
-      // Still log the event even if sending failed
-      const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
-      const timeLocal = ev.time ? new Date(ev.time) : new Date();
-      await logSafetyEvent(ev, chatId, behavior, null, timeLocal);
+    // Planned delivery goes to the outbox first (durable, retried by the outbox worker),
+    // then the event is logged so the next cron run skips it
+    const payload: SafetyAlertPayload = { event: ev, caption: finalCaption, videoUrl: videoUrl ?? null };
+    const queued = await enqueueOutboxMessage({
+      kind: 'safety_alert',
+      eventKey: ev.id,
+      chatId: chat.telegramChatId,
+      payload: payload as Prisma.InputJsonValue,
+      priority: PRIORITY_RANK[getSafetyAlertPriority(ev)],
+    });
+    if (!queued) {
+      console.error(`❌ Failed to queue safety event ${ev.id} for ${chat.name}, will retry in next cron run`);
+      continue;
     }
+
+    const behavior = ev.behaviorLabels?.map((l) => l.name || l.label).join(', ') || 'Unknown';
+    const timeLocal = ev.time ? new Date(ev.time) : new Date();
+    await logSafetyEvent(ev, chatId, behavior, videoUrl ?? null, timeLocal);
+    queuedAlerts += 1;
+
+    console.log(
+      `📥 Queued safety event ${ev.id} for ${chat.name} (chatId=${chatId})${videoUrl ? ' with video' : ' (text only)'}`
+    );
   }
 
+  return { waitingForMedia, truncated: false };
+}
+
+/**
+ * Route and queue new severe speeding intervals. Shared by the polling cron and the Samsara webhook.
+ *
+ * @param speedingIntervals - New intervals (already deduplicated by the fetch)
+ * @param now - Current time
+ * @param catchUp - Collects old intervals for the group summaries (CATCHUP_OLD_EVENT_POLICY)
+ * @returns true if MAX_EVENTS_PER_CRON_RUN cut the batch short
+ */
+async function processSpeedingIntervals(
+  speedingIntervals: SpeedingInterval[],
+  now: Date,
+  catchUp: CatchUpBatch,
+): Promise<boolean> {
   // ==================== PROCESS SPEEDING INTERVALS (via UnifiedEvent) ====================
   // Speeding intervals continue to use UnifiedEvent pipeline (unchanged)
   
   if (speedingIntervals.length === 0) {
-    return; // No speeding intervals to process
+    return false; // No speeding intervals to process
   }
 
+  const MAX_EVENTS_PER_CRON_RUN = getMaxEventsPerRun();
+  const { rules: eventRules } = await loadEventRules();
+
   // Normalize speeding intervals into unified events
   const normalizedSpeeding = normalizeSpeedingIntervals(speedingIntervals);
 
+  // Severe speeding intervals go through the same routing rules as safety events
+  const relevantSpeeding: UnifiedEvent[] = [];
+  for (const event of normalizedSpeeding) {
+    if (await isRelevantUnifiedEvent(eventRules, event)) {
+      relevantSpeeding.push(event);
+    } else {
+      console.log(`[RULES] Speeding interval ${event.id} excluded by event rules`);
+    }
+  }
+
       console.log(
-    `📊 Processing ${normalizedSpeeding.length} severe speeding intervals`
+    `📊 Processing ${relevantSpeeding.length} severe speeding intervals`
   );
 
-  // Apply rate limit protection
-  const speedingEventsToProcess = normalizedSpeeding.slice(0, MAX_EVENTS_PER_CRON_RUN);
-  if (normalizedSpeeding.length > MAX_EVENTS_PER_CRON_RUN) {
-    console.warn(
-      `⚠️ [RATE_LIMIT] Limiting speeding events: ${normalizedSpeeding.length} total, processing only first ${MAX_EVENTS_PER_CRON_RUN} to prevent spam`
-    );
-  }
+  const oldEventPolicy = getOldEventPolicy();
+  let queuedAlerts = 0;
 
   // Process each severe speeding interval
-  for (const event of speedingEventsToProcess) {
+  for (const event of relevantSpeeding) {
     // Check deduplication: skip if already sent
     const alreadySent = await isEventSent(event.id);
     if (alreadySent) {
@@ -1206,20 +1507,32 @@ async function checkAndNotifySafetyEvents() {
       continue;
     }
 
-    // Get vehicle name: try vehicleName field, then assetId lookup, then assetId as fallback
+    // Apply rate limit protection; unsent intervals are fetched again by the next run
+    if (queuedAlerts >= MAX_EVENTS_PER_CRON_RUN) {
+      console.warn(
+        `⚠️ [RATE_LIMIT] Limiting speeding events: queued ${MAX_EVENTS_PER_CRON_RUN}, the rest is left for the next run to prevent spam`
+      );
+      return true;
+    }
+
+    // Get vehicle name: try vehicleName field, then assetId lookup (Samsara cache, then
+    // the linked Truck row), then assetId as fallback
     let vehicleName = event.vehicleName;
     if (!vehicleName && event.assetId) {
-      vehicleName = getVehicleNameById(event.assetId) || event.assetId;
+      vehicleName =
+        getVehicleNameById(event.assetId) ||
+        (await findTruckByVehicle({ id: event.assetId }))?.name ||
+        event.assetId;
     }
     if (!vehicleName) {
       vehicleName = 'Unknown';
     }
 
-    // Find chat by vehicle name
-    const chat = await findChatByVehicleName(vehicleName);
+    // Find chat that owned the truck when the interval started (by vehicle ID, then name)
+    const chat = await findChatByVehicle({ id: event.assetId, name: vehicleName }, event.occurredAt);
 
     if (!chat) {
-      console.log(`❓ No chat mapping for vehicle ${vehicleName}`);
+      console.log(`❓ No chat mapping for vehicle ${vehicleName} (see /reconcile)`);
       // Log event even if no chat found
       const behavior = 'Severe Speeding';
       const timeLocal = convertToNewYorkTime(event.occurredAt);
@@ -1229,51 +1542,164 @@ async function checkAndNotifySafetyEvents() {
 
     const chatId = Number(chat.telegramChatId);
 
+    // Caught up after downtime: summarized / archived instead of a late alert
+    if (oldEventPolicy !== 'deliver' && isOldEvent(event.occurredAt, now)) {
+      const timeLocal = convertToNewYorkTime(event.occurredAt);
+      const record = async () => {
+        await markEventSent(event.id, event.type);
+        await logUnifiedEvent(event, chatId, 'Severe Speeding', null, timeLocal);
+        await archiveSafetyEventLog(event.id);
+      };
+      if (oldEventPolicy === 'archive') {
+        await record();
+      } else {
+        addCatchUpItem(catchUp, chat, {
+          eventId: event.id,
+          time: timeLocal,
+          vehicleName,
+          behavior: 'Severe Speeding',
+          record,
+        });
+      }
+      continue;
+    }
+
     // Build driver mention if driver is set
-    const chatWithDriver = chat as Chat & {
-      driverTgUserId?: bigint | null;
-      driverUsername?: string | null;
-    };
-
-    let mentionText = '';
-    if (chatWithDriver.driverUsername) {
-      mentionText = `@${chatWithDriver.driverUsername}`;
-    } else if (chatWithDriver.driverTgUserId) {
-      mentionText = `[Driver](tg://user?id=${chatWithDriver.driverTgUserId})`;
+    const mentionText = buildDriverMention(chat);
+
+    // Severe speeding message (plain text format) goes to the outbox, then the interval
+    // is marked sent (dedup) and logged
+    const message = formatSevereSpeedingMessage(event, vehicleName, getAlertLocale(chat));
+    const finalMessage = mentionText ? `${mentionText}\n\n${message}` : message;
+
+    const queued = await enqueueOutboxMessage({
+      kind: 'speeding_alert',
+      eventKey: event.id,
+      chatId: chat.telegramChatId,
+      payload: { text: finalMessage },
+      priority: PRIORITY_RANK.high,
+    });
+    if (!queued) {
+      console.error(`❌ Failed to queue speeding event ${event.id} for ${chat.name}, will retry in next cron run`);
+      continue;
     }
 
-    // Send severe speeding message (plain text format)
-    try {
-      const message = formatSevereSpeedingMessage(event, vehicleName);
-      const finalMessage = mentionText ? `${mentionText}\n\n${message}` : message;
+    await markEventSent(event.id, event.type);
+    await logUnifiedEvent(event, chatId, 'Severe Speeding', null, convertToNewYorkTime(event.occurredAt));
+    queuedAlerts += 1;
 
-      await bot.telegram.sendMessage(chatId, finalMessage, {
-        parse_mode: undefined, // Plain text
-      });
-      console.log(
-        `✅ Sent severe speeding event ${event.id} to ${chat.name} (chatId=${chatId})`
-      );
+    console.log(`📥 Queued severe speeding event ${event.id} for ${chat.name} (chatId=${chatId})`);
+  }
 
-      // Mark as sent (dedup)
-      await markEventSent(event.id, event.type);
+  return false;
+}
 
-      // Log event to database
-      const behavior = 'Severe Speeding';
-      const timeLocal = convertToNewYorkTime(event.occurredAt);
-      await logUnifiedEvent(event, chatId, behavior, null, timeLocal);
-    } catch (err: any) {
-      const errorMsg = err.response?.description || err.message || 'Unknown error';
-      console.error(
-        `❌ Failed to send speeding event ${event.id} to ${chat.name} (chatId=${chatId}): ${errorMsg}`
-      );
-      // Still log the event even if sending failed
-      const behavior = 'Severe Speeding';
-      const timeLocal = convertToNewYorkTime(event.occurredAt);
-      await logUnifiedEvent(event, chatId, behavior, null, timeLocal);
+/**
+ * Queue one summary message per group for the old events collected in a batch, then
+ * log them (archived).
+ *
+ * @returns false if a summary could not be queued (its events stay unprocessed)
+ */
+async function queueCatchUpSummaries(catchUp: CatchUpBatch, now: Date): Promise<boolean> {
+  let allQueued = true;
+  for (const { chat, items } of Array.from(catchUp.values())) {
+    const queued = await enqueueOutboxMessage({
+      kind: 'catchup_summary',
+      eventKey: `catchup:${chat.telegramChatId}:${now.getTime()}`,
+      chatId: chat.telegramChatId,
+      payload: { text: buildCatchUpSummary(chat, items) },
+      priority: PRIORITY_RANK.low,
+    });
+    if (!queued) {
+      console.error(`❌ Failed to queue catch-up summary for ${chat.name}, will retry in next cron run`);
+      allQueued = false;
+      continue;
     }
+
+    for (const item of items) {
+      await item.record();
+    }
+    console.log(`🗂 Queued catch-up summary of ${items.length} old event(s) for ${chat.name}`);
+  }
+  catchUp.clear();
+  return allQueued;
+}
+
+// ================== OUTBOX (доставка алертов с повторами) ==================
+
+type SafetyAlertPayload = { event: SafetyEvent; caption: string; videoUrl: string | null };
+
+/**
+ * Acknowledged / Dispute buttons (and coaching buttons for safety events) on a delivered alert.
+ */
+async function attachButtonsToDeliveredAlert(message: OutboxMessage, messageId: number): Promise<void> {
+  const [chat, log] = await Promise.all([
+    findChatByTelegramChatId(message.chatId),
+    getSafetyEventLogBySamsaraEventId(message.eventKey),
+  ]);
+  if (chat && log) {
+    await attachAlertButtons(bot.telegram, chat, log, messageId);
   }
 }
 
+// Crashes and collisions jump ahead of other sends (PTI reminders, digests)
+const HIGH_PRIORITY_BEHAVIORS = new Set(['crash', 'collision']);
+
+function getSafetyAlertPriority(event: SafetyEvent): SendPriority {
+  const labels = (event.behaviorLabels ?? []).map((l) => (l.label || l.name || '').toLowerCase().replace(/[^a-z]/g, ''));
+  return labels.some((l) => HIGH_PRIORITY_BEHAVIORS.has(l)) ? 'high' : 'normal';
+}
+
+const outboxHandlers: OutboxHandlers = {
+  // Same sending path as /safety_test (video URL, file fallback, text fallback)
+  safety_alert: async (message) => {
+    const { event, caption, videoUrl } = message.payload as unknown as SafetyAlertPayload;
+    const result = await withSendPriority(getSafetyAlertPriority(event), () =>
+      sendSafetyAlertWithVideo(event, Number(message.chatId), caption, false, { videoUrl })
+    );
+    if (!result.success) {
+      return {
+        ok: false,
+        error: result.error || 'Unknown error',
+        errorCode: result.errorCode,
+        retryAfter: result.retryAfter,
+      };
+    }
+    if (result.messageId) {
+      await attachButtonsToDeliveredAlert(message, result.messageId);
+    }
+    return { ok: true, messageId: result.messageId ?? null };
+  },
+
+  // Old events caught up after downtime (CATCHUP_OLD_EVENT_POLICY=summarize)
+  catchup_summary: async (message) => {
+    const { text } = message.payload as { text: string };
+    try {
+      const sent = await withSendPriority('low', () => bot.telegram.sendMessage(Number(message.chatId), text));
+      return { ok: true, messageId: sent.message_id };
+    } catch (err: any) {
+      return toOutboxFailure(err);
+    }
+  },
+
+  speeding_alert: async (message) => {
+    const { text } = message.payload as { text: string };
+    try {
+      const sent = await withSendPriority('high', async () => {
+        const sent = await bot.telegram.sendMessage(Number(message.chatId), text, {
+          parse_mode: undefined, // Plain text
+        });
+        // Acknowledged / Dispute buttons for the assigned driver (speeding: no coaching buttons)
+        await attachButtonsToDeliveredAlert(message, sent.message_id);
+        return sent;
+      });
+      return { ok: true, messageId: sent.message_id };
+    } catch (err: any) {
+      return toOutboxFailure(err);
+    }
+  },
+};
+
 // ================== /safety_test ==================
 
 bot.command('safety_test', async (ctx) => {
@@ -1288,7 +1714,8 @@ bot.command('safety_test', async (ctx) => {
     return;
   }
 
-  const relevant = events.filter(isRelevantEvent);
+  const { rules: eventRules } = await loadEventRules();
+  const relevant = await filterSafetyEventsByRules(eventRules, events);
 
   if (!relevant.length) {
     await ctx.reply(
@@ -1305,10 +1732,14 @@ bot.command('safety_test', async (ctx) => {
     return;
   }
 
+  // Registered groups get their own language/timezone/units, like the cron
+  const registeredChat = await findChatByTelegramChatId(BigInt(chatId));
+  const locale = registeredChat ? getAlertLocale(registeredChat) : DEFAULT_ALERT_LOCALE;
+
   // Use shared helper function (same as cron)
   // Note: /safety_test doesn't add driver mentions, so we use caption directly
   for (const ev of top) {
-    const { caption } = buildSafetyPayload(ev);
+    const { caption } = buildSafetyPayload(ev, locale);
     
     // Use shared helper to ensure same behavior as cron
     const result = await sendSafetyAlertWithVideo(
@@ -1502,23 +1933,6 @@ async function handleSevereSpeedingTest(ctx: any) {
       return;
     }
 
-    const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-    async function sendMessageWith429Retry(chatId: number, text: string) {
-      try {
-        await bot.telegram.sendMessage(chatId, text, { parse_mode: undefined });
-        return true;
-      } catch (err: any) {
-        const retryAfter = err?.response?.parameters?.retry_after;
-        if (err?.response?.error_code === 429 && typeof retryAfter === 'number') {
-          console.warn(`[SEVERE_SPEEDING_TEST] 429 rate limit, waiting ${retryAfter}s then retrying...`);
-          await sleep((retryAfter + 1) * 1000);
-          await bot.telegram.sendMessage(chatId, text, { parse_mode: undefined });
-          return true;
-        }
-        throw err;
-      }
-    }
-
     let sentCount = 0;
     for (const event of recentAndNew) {
       // Get vehicle name
@@ -1544,12 +1958,16 @@ async function handleSevereSpeedingTest(ctx: any) {
       }
 
       // Use the severe template for severe events
-      const message = formatSevereSpeedingMessage(event, vehicleName);
+      const registeredChat = await findChatByTelegramChatId(BigInt(targetChatId));
+      const message = formatSevereSpeedingMessage(
+        event,
+        vehicleName,
+        registeredChat ? getAlertLocale(registeredChat) : DEFAULT_ALERT_LOCALE
+      );
 
       try {
-        await sendMessageWith429Retry(targetChatId, message);
-        // small delay to reduce Telegram burst limits
-        await sleep(150);
+        // Throttling and 429 retries are done by the shared send queue
+        await bot.telegram.sendMessage(targetChatId, message, { parse_mode: undefined });
         
         // IMPORTANT: /severe_speeding_test is a manual diagnostic command.
         // Do NOT mark events as sent here, otherwise cron will skip them and not deliver to groups.
@@ -1683,90 +2101,182 @@ bot.command('test_speeding', requireAdminPrivateChat, async (ctx) => {
   }
 });
 
-// ================== PTI REMINDERS (06:00 NY, Monday-Saturday) ==================
+// ================== PTI SCHEDULER (каждую минуту, per-chat local time) ==================
+// Each chat has its own reminder time, working days and timezone (/set_pti_schedule).
+// Follow-up and escalation steps: PTI_FOLLOWUP_TIME / PTI_ESCALATION_TIME (chat local time).
+
+scheduleCron('* * * * *', async () => {
+  try {
+    await withSendPriority('low', () => runPtiSchedulerTick(bot.telegram, SAFETY_MANAGER_CHAT_ID));
+  } catch (err) {
+    console.error('❌ Error in PTI scheduler tick', err);
+  }
+});
+
+// ================== ПОДТВЕРЖДЕНИЕ АЛЕРТОВ (Acknowledged / Dispute) ==================
+// Only the assigned driver can press the buttons. Unacknowledged alerts:
+// re-mention after ACK_REMIND_AFTER_MINUTES, manager chat after ACK_ESCALATE_AFTER_MINUTES.
 
-async function sendDailyPtiReminders() {
-  console.log('📣 Sending PTI reminders to all chats (06:00)...');
-  const chats = await getAllChats();
+bot.action(/^(ack|dispute):/, (ctx) => handleAlertAckCallback(ctx));
 
-  if (!chats.length) {
-    console.log('⚠️ No chats found in database for PTI reminders');
-    return;
+scheduleCron('* * * * *', async () => {
+  try {
+    await runAckEscalationTick(bot.telegram, SAFETY_MANAGER_CHAT_ID);
+  } catch (err) {
+    console.error('❌ Error in alert acknowledgment tick', err);
   }
+});
 
-  for (const chat of chats) {
-    // Map ChatLanguage enum to LanguageCode (already lowercase)
-    const lang = chat.language as LanguageCode;
-    const baseText =
-      ptiMessages[lang] ?? ptiMessages.en ?? 'Daily PTI reminder.';
+// ================== КОУЧИНГ ИЗ TELEGRAM (Mark coached / Dismiss) ==================
+// Safety managers (SAFETY_MANAGER_IDS / TELEGRAM_ADMIN_IDS) push the coaching state to Samsara.
 
-    // Build driver mention if driver is set
-    const chatWithDriver = chat as Chat & {
-      driverTgUserId?: bigint | null;
-      driverUsername?: string | null;
-    };
-
-    let mentionText = '';
-    if (chatWithDriver.driverUsername) {
-      // Use @username if available
-      mentionText = `@${chatWithDriver.driverUsername}`;
-    } else if (chatWithDriver.driverTgUserId) {
-      // Use Markdown link if only user ID is available
-      mentionText = `[Driver](tg://user?id=${chatWithDriver.driverTgUserId})`;
-    }
+bot.action(/^cm:/, handleCoachingCallback);
 
-    // Build final message
-    const finalText = mentionText
-      ? `${mentionText}\n\n${baseText}`
-      : baseText;
+// ================== СТАТУС КОУЧИНГА SAMSARA (каждые 15 минут) ==================
+// Re-fetches sent safety events (last COACHING_SYNC_LOOKBACK_DAYS) and replies under the
+// original alert when coachingState changes; "dismissed" events no longer count.
 
-    const chatId = Number(chat.telegramChatId);
+scheduleCron('*/15 * * * *', async () => {
+  try {
+    await runCoachingSyncTick(bot.telegram);
+  } catch (err) {
+    console.error('❌ Error in coaching state sync', err);
+  }
+});
+
+// ================== ДАЙДЖЕСТ ПО ГРУППАМ (каждую минуту) ==================
+// Each group has its own digest frequency, time and weekday (/digest).
+
+scheduleCron('* * * * *', async () => {
+  try {
+    await withSendPriority('low', () => runDigestTick(bot.telegram));
+  } catch (err) {
+    console.error('❌ Error in safety digest tick', err);
+  }
+});
+
+// ================== ЕЖЕНЕДЕЛЬНЫЙ ЛИДЕРБОРД ==================
+// SAFETY_LEADERBOARD_CRON (default: Monday 09:00 America/New_York)
 
+scheduleCron(
+  process.env.SAFETY_LEADERBOARD_CRON || '0 9 * * 1',
+  async () => {
+    if (!SAFETY_LEADERBOARD_CHAT_ID) {
+      console.warn('⚠️ [SCORE] SAFETY_LEADERBOARD_CHAT_ID / SAFETY_MANAGER_CHAT_ID not set, leaderboard skipped');
+      return;
+    }
     try {
-      await bot.telegram.sendMessage(chatId, finalText, {
-        parse_mode: 'Markdown',
-        link_preview_options: { is_disabled: true },
-      });
-      console.log(
-        `✅ PTI reminder sent to ${chat.name} (chatId=${chatId}, lang=${chat.language}${mentionText ? ', with driver mention' : ''})`,
-      );
+      await withSendPriority('low', () => postWeeklyLeaderboard(bot.telegram, SAFETY_LEADERBOARD_CHAT_ID));
     } catch (err) {
-      console.error(
-        `❌ Failed to send PTI reminder to ${chat.name} (chatId=${chatId})`,
-        err,
-      );
+      console.error('❌ Error posting weekly leaderboard', err);
     }
-  }
-}
+  },
+  { timezone: DEFAULT_TIMEZONE }
+);
+
+// ================== СВЕРКА ТРАКОВ (Samsara vs trucks) ==================
+// RECONCILE_CRON (default: daily 08:00 America/New_York), private chat of each TELEGRAM_ADMIN_IDS.
 
-// 06:00 America/New_York (6 AM) - Monday to Saturday (no Sunday)
-// Cron day of week: 0=Sunday, 1=Monday, ..., 6=Saturday
-cron.schedule(
-  '0 6 * * 1-6', // Monday (1) to Saturday (6) at 6 AM, Sunday (0) excluded
+scheduleCron(
+  process.env.RECONCILE_CRON || '0 8 * * *',
   async () => {
-    const now = new Date();
-    const dayOfWeek = now.getDay(); // 0=Sunday, 1=Monday, ..., 6=Saturday
-    const dayName = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][dayOfWeek];
-    console.log(`⏰ [CRON PTI] 06:00 tick (${dayName})`);
-    await sendDailyPtiReminders();
-  },
-  {
-    timezone: 'America/New_York',
+    try {
+      await runReconciliationReport(bot.telegram);
+    } catch (err) {
+      console.error('❌ Error in vehicle reconciliation report', err);
+    }
   },
+  { timezone: DEFAULT_TIMEZONE }
 );
 
+// ================== OUTBOX (каждую минуту) ==================
+// Retries failed alert deliveries with backoff (OUTBOX_MAX_ATTEMPTS, Telegram 429 retry_after).
+
+scheduleCron('* * * * *', async () => {
+  try {
+    await runOutboxTick(outboxHandlers);
+  } catch (err) {
+    console.error('❌ Error in outbox tick', err);
+  }
+});
+
+// ================== SAMSARA WEBHOOK ==================
+// Events arrive within seconds; the safety cron below becomes a fallback that catches
+// missed deliveries every SAFETY_POLL_FALLBACK_MINUTES.
+
+const WEBHOOK_MEDIA_RETRY_MS = 60 * 1000;
+
+/**
+ * Process a webhook safety event; while its video is not ready, retry every minute
+ * (after SAFETY_MEDIA_MAX_WAIT_MINUTES it is sent as text, which ends the retries).
+ */
+async function processWebhookSafetyEvent(event: SafetyEvent): Promise<void> {
+  const catchUp: CatchUpBatch = new Map();
+  const { waitingForMedia } = await runInPipeline(async () => {
+    const result = await processSafetyEvents([event], new Date(), catchUp);
+    await queueCatchUpSummaries(catchUp, new Date());
+    return result;
+  });
+  await runOutboxTick(outboxHandlers);
+  if (waitingForMedia.length) {
+    setTimeout(() => {
+      processWebhookSafetyEvent(event).catch((err) =>
+        console.error(`❌ [WEBHOOK] Error retrying safety event ${event.id}:`, err)
+      );
+    }, WEBHOOK_MEDIA_RETRY_MS);
+  }
+}
+
+async function handleSamsaraWebhook(delivery: SamsaraWebhookDelivery): Promise<void> {
+  if (delivery.kind === 'safety') {
+    const event = delivery.event ?? (await hydrateSafetyEvent(delivery.eventId, new Date()));
+    if (!event) {
+      console.log(`❓ [WEBHOOK] Safety event ${delivery.eventId} not found in Samsara yet, left to polling`);
+      return;
+    }
+    await processWebhookSafetyEvent(event);
+    return;
+  }
+
+  if (delivery.kind === 'speeding') {
+    // The webhook only says the vehicle is speeding; intervals come from the API (same dedup as polling)
+    const result = await fetchSpeedingIntervalsWithSlidingWindow({ assetIds: [delivery.assetId] });
+    const catchUp: CatchUpBatch = new Map();
+    await runInPipeline(async () => {
+      await processSpeedingIntervals(result.newToPost, new Date(), catchUp);
+      await queueCatchUpSummaries(catchUp, new Date());
+    });
+    await runOutboxTick(outboxHandlers);
+  }
+}
+
+const samsaraWebhookServer = AUTOSTART ? startSamsaraWebhookServer(handleSamsaraWebhook) : null;
+
+function getSafetyPollFallbackMinutes(): number {
+  const minutes = parseInt(process.env.SAFETY_POLL_FALLBACK_MINUTES || '15', 10);
+  return isNaN(minutes) || minutes <= 0 ? 15 : Math.min(minutes, 60);
+}
+
 // ================== SAFETY-CRON (каждую минуту) ==================
 
-cron.schedule('* * * * *', async () => {
+scheduleCron('* * * * *', async () => {
+  // With webhooks on, polling only reconciles missed deliveries
+  if (samsaraWebhookServer && new Date().getMinutes() % getSafetyPollFallbackMinutes() !== 0) {
+    return;
+  }
+
   const cronStartTime = Date.now();
   console.log('⏰ [CRON SAFETY] tick');
   try {
     await checkAndNotifySafetyEvents();
+    // Deliver what was just queued without waiting for the outbox cron
+    await runOutboxTick(outboxHandlers);
     
     // Cleanup old sent events once per hour (at minute 0)
     const now = new Date();
     if (now.getMinutes() === 0) {
       await cleanupOldSentEvents(7); // Keep 7 days of dedup keys
+      await cleanupOldOutboxMessages(7); // Delivered outbox rows
     }
     
     const cronDuration = Date.now() - cronStartTime;
@@ -1782,27 +2292,38 @@ cron.schedule('* * * * *', async () => {
 
 // ================== СТАРТ БОТА ==================
 
-bot.launch().then(async () => {
-  console.log('✅ PTI bot is running...');
-  console.log('📋 Bot info:', {
-    nodeVersion: process.version,
-    uptime: process.uptime(),
-    pid: process.pid,
-  });
+if (AUTOSTART) {
+  bot.launch().then(async () => {
+    console.log('✅ PTI bot is running...');
+    console.log('📋 Bot info:', {
+      nodeVersion: process.version,
+      uptime: process.uptime(),
+      pid: process.pid,
+    });
   
-  // Update truckNames for all chats on startup (so they're visible in Prisma Studio)
-  await updateAllChatTruckNames();
+    // Update truckNames for all chats on startup (so they're visible in Prisma Studio)
+    await updateAllChatTruckNames();
   
-  // Log heartbeat every 10 minutes to verify bot is alive
-  setInterval(() => {
-    const uptimeHours = (process.uptime() / 3600).toFixed(2);
-    console.log(`💓 [HEARTBEAT] Bot alive, uptime: ${uptimeHours}h`);
-  }, 10 * 60 * 1000); // Every 10 minutes
-});
+    // Log heartbeat every 10 minutes to verify bot is alive
+    setInterval(() => {
+      const uptimeHours = (process.uptime() / 3600).toFixed(2);
+      console.log(`💓 [HEARTBEAT] Bot alive, uptime: ${uptimeHours}h`);
+    }, 10 * 60 * 1000); // Every 10 minutes
+  });
+
+  // Для корректной остановки (telegraf рекомендует)
+  process.once('SIGINT', () => {
+    samsaraWebhookServer?.close();
+    bot.stop('SIGINT');
+  });
+  process.once('SIGTERM', () => {
+    samsaraWebhookServer?.close();
+    bot.stop('SIGTERM');
+  });
+}
 
-// Для корректной остановки (telegraf рекомендует)
-process.once('SIGINT', () => bot.stop('SIGINT'));
-process.once('SIGTERM', () => bot.stop('SIGTERM'));
+// Used by the end-to-end tests (test/e2e)
+export { bot, checkAndNotifySafetyEvents, outboxHandlers };
 
 
 // export const ConstruictionZoneFollowingDistance = () => {
@@ -1,5 +1,7 @@
 // src/messages.ts
 
+// Built-in PTI templates (used until an admin saves a version with /pti_template).
+// Placeholders: {driverName}, {truckNames}, {date}, {fineAmount} - see services/ptiTemplates.ts
 export const ptiMessages = {
   en: `Daily PTI Reminder
 
@@ -18,7 +20,7 @@ Please complete your Daily PTI. Make sure you record a clear video of the follow
 - Trailer inspection (if applicable)
 
 PTI must be completed every day for your safety and for DOT compliance.
-⚠️ Drivers who fail to complete PTI will be fined $100.`,
+⚠️ Drivers who fail to complete PTI will be fined {fineAmount}.`,
 
   ru: `Ежедневное напоминание о PTI
 
@@ -37,7 +39,7 @@ PTI must be completed every day for your safety and for DOT compliance.
 - Осмотр прицепа (если есть)
 
 PTI — обязательное требование DOT.
-⚠️ Водители, которые не выполняют PTI, будут оштрафованы на $100.`,
+⚠️ Водители, которые не выполняют PTI, будут оштрафованы на {fineAmount}.`,
 
   uz: `Har kunlik PTI eslatmasi
 
@@ -56,8 +58,525 @@ Iltimos, har kungi PTI ni bajaring. Quyidagi qismlarning aniq video yozuvini taq
 - Tirkama (agar mavjud bo‘lsa)
 
 PTI har kuni bajarilishi kerak.
-⚠️ PTI qilinmasa — $100 jarima.`
+⚠️ PTI qilinmasa — {fineAmount} jarima.`
 } as const;
 
 // тип языка берём из ключей объекта
 export type LanguageCode = keyof typeof ptiMessages;
+
+// Ответы водителю при автоматическом распознавании PTI-видео
+export const ptiSubmissionMessages: Record<
+  LanguageCode,
+  {
+    received: (date: string) => string;
+    tooShort: (minSeconds: number) => string;
+    outsideWindow: (start: string, end: string) => string;
+  }
+> = {
+  en: {
+    received: (date) => `✅ PTI video received. Thank you! PTI is marked as completed for ${date}.`,
+    tooShort: (minSeconds) =>
+      `⚠️ This video is too short to count as PTI. Please record a full inspection video (at least ${minSeconds} seconds).`,
+    outsideWindow: (start, end) =>
+      `⚠️ PTI videos are accepted between ${start} and ${end}. This video was not counted.`,
+  },
+  ru: {
+    received: (date) => `✅ Видео PTI получено. Спасибо! PTI отмечен как выполненный за ${date}.`,
+    tooShort: (minSeconds) =>
+      `⚠️ Видео слишком короткое и не засчитано как PTI. Пожалуйста, запишите полный осмотр (не менее ${minSeconds} секунд).`,
+    outsideWindow: (start, end) =>
+      `⚠️ Видео PTI принимаются с ${start} до ${end}. Это видео не засчитано.`,
+  },
+  uz: {
+    received: (date) => `✅ PTI videosi qabul qilindi. Rahmat! ${date} uchun PTI bajarilgan deb belgilandi.`,
+    tooShort: (minSeconds) =>
+      `⚠️ Video juda qisqa, PTI sifatida hisoblanmadi. Iltimos, to‘liq ko‘rik videosini yozing (kamida ${minSeconds} soniya).`,
+    outsideWindow: (start, end) =>
+      `⚠️ PTI videolari ${start} dan ${end} gacha qabul qilinadi. Bu video hisoblanmadi.`,
+  },
+};
+
+// Повторное напоминание (если PTI ещё не выполнен к середине дня)
+export const ptiFollowUpMessages: Record<LanguageCode, string> = {
+  en: `⏰ PTI Reminder
+
+Your Daily PTI has not been received yet today.
+Please record and send your PTI video as soon as possible.
+⚠️ Drivers who fail to complete PTI will be fined {fineAmount}.`,
+
+  ru: `⏰ Напоминание о PTI
+
+Ваш ежедневный PTI сегодня ещё не получен.
+Пожалуйста, запишите и отправьте видео PTI как можно скорее.
+⚠️ Водители, которые не выполняют PTI, будут оштрафованы на {fineAmount}.`,
+
+  uz: `⏰ PTI eslatmasi
+
+Bugungi PTI hali qabul qilinmadi.
+Iltimos, PTI videosini imkon qadar tezroq yozib yuboring.
+⚠️ PTI qilinmasa — {fineAmount} jarima.`,
+};
+
+/**
+ * Build driver mention for a chat:
+ * - @username if available
+ * - Markdown link tg://user?id=... if only user ID is known
+ * - empty string if no driver is set
+ */
+export function buildDriverMention(chat: {
+  driverTgUserId?: bigint | null;
+  driverUsername?: string | null;
+}): string {
+  if (chat.driverUsername) {
+    return `@${chat.driverUsername}`;
+  }
+  if (chat.driverTgUserId) {
+    return `[Driver](tg://user?id=${chat.driverTgUserId})`;
+  }
+  return '';
+}
+
+// ================== SAFETY / SPEEDING ALERTS ==================
+
+export type SpeedUnitCode = 'mph' | 'kmh';
+
+// Язык, timezone и единицы скорости чата-получателя
+export type AlertLocale = {
+  language: LanguageCode;
+  timeZone: string;
+  speedUnit: SpeedUnitCode;
+};
+
+export type AlertStrings = {
+  dateLocale: string; // Intl locale for dates
+  hour12: boolean;
+  safetyWarning: string;
+  truck: string;
+  behavior: string;
+  time: string;
+  location: string;
+  duration: string;
+  unknown: string;
+  unknownTime: string;
+  severeSpeeding: string;
+  speedInZone: (speed: number, limit: number, unit: string) => string;
+  severeSpeedingTitle: string;
+  speedingIntervalTitle: string;
+  speed: string;
+  speedLimit: string;
+  actualSpeed: string;
+  overLimit: string;
+  detectedByBot: string;
+  severity: string;
+  units: Record<SpeedUnitCode, string>;
+};
+
+export const alertMessages: Record<LanguageCode, AlertStrings> = {
+  en: {
+    dateLocale: 'en-US',
+    hour12: true,
+    safetyWarning: 'Safety Warning',
+    truck: 'Truck',
+    behavior: 'Behavior',
+    time: 'Time',
+    location: 'Location',
+    duration: 'Duration',
+    unknown: 'Unknown',
+    unknownTime: 'unknown time',
+    severeSpeeding: 'Severe Speeding',
+    speedInZone: (speed, limit, unit) => `${speed} ${unit} in ${limit} ${unit} zone`,
+    severeSpeedingTitle: 'SEVERE SPEEDING ALERT',
+    speedingIntervalTitle: 'SPEEDING INTERVAL',
+    speed: 'Speed',
+    speedLimit: 'Speed limit',
+    actualSpeed: 'Actual speed',
+    overLimit: 'Over limit',
+    detectedByBot: 'Detected by bot',
+    severity: 'Severity (Samsara)',
+    units: { mph: 'mph', kmh: 'km/h' },
+  },
+  ru: {
+    dateLocale: 'ru-RU',
+    hour12: false,
+    safetyWarning: 'Нарушение безопасности',
+    truck: 'Трак',
+    behavior: 'Нарушение',
+    time: 'Время',
+    location: 'Место',
+    duration: 'Длительность',
+    unknown: 'Неизвестно',
+    unknownTime: 'время неизвестно',
+    severeSpeeding: 'Сильное превышение скорости',
+    speedInZone: (speed, limit, unit) => `${speed} ${unit} при ограничении ${limit} ${unit}`,
+    severeSpeedingTitle: 'СИЛЬНОЕ ПРЕВЫШЕНИЕ СКОРОСТИ',
+    speedingIntervalTitle: 'ПРЕВЫШЕНИЕ СКОРОСТИ',
+    speed: 'Скорость',
+    speedLimit: 'Ограничение',
+    actualSpeed: 'Фактическая скорость',
+    overLimit: 'Превышение',
+    detectedByBot: 'Обнаружено ботом',
+    severity: 'Уровень (Samsara)',
+    units: { mph: 'миль/ч', kmh: 'км/ч' },
+  },
+  uz: {
+    dateLocale: 'uz-Latn-UZ',
+    hour12: false,
+    safetyWarning: 'Xavfsizlik ogohlantirishi',
+    truck: 'Yuk mashinasi',
+    behavior: 'Qoidabuzarlik',
+    time: 'Vaqt',
+    location: 'Joylashuv',
+    duration: 'Davomiyligi',
+    unknown: 'Noma’lum',
+    unknownTime: 'vaqt noma’lum',
+    severeSpeeding: 'Tezlikni keskin oshirish',
+    speedInZone: (speed, limit, unit) => `${limit} ${unit} cheklovda ${speed} ${unit}`,
+    severeSpeedingTitle: 'TEZLIKNI KESKIN OSHIRISH',
+    speedingIntervalTitle: 'TEZLIKNI OSHIRISH',
+    speed: 'Tezlik',
+    speedLimit: 'Tezlik cheklovi',
+    actualSpeed: 'Haqiqiy tezlik',
+    overLimit: 'Oshirilgan',
+    detectedByBot: 'Bot aniqlagan vaqt',
+    severity: 'Daraja (Samsara)',
+    units: { mph: 'mil/soat', kmh: 'km/soat' },
+  },
+};
+
+// Переводы Samsara behavior labels. Ключ - label без пробелов/подчёркиваний в нижнем регистре
+// ("Harsh Brake" / "harshBrake" -> "harshbrake"). Неизвестные labels показываются как есть.
+export const behaviorLabelMessages: Record<LanguageCode, Record<string, string>> = {
+  en: {},
+  ru: {
+    harshbrake: 'Резкое торможение',
+    harshbraking: 'Резкое торможение',
+    harshacceleration: 'Резкий разгон',
+    harshturn: 'Резкий поворот',
+    speeding: 'Превышение скорости',
+    maxspeed: 'Превышение максимальной скорости',
+    severespeeding: 'Сильное превышение скорости',
+    manualspeeding: 'Превышение скорости',
+    followingdistance: 'Опасная дистанция',
+    didnotyield: 'Не уступил дорогу',
+    ranredlight: 'Проезд на красный',
+    rollingstop: 'Неполная остановка',
+    crash: 'Авария',
+    collision: 'Столкновение',
+    nearcollision: 'Почти столкновение',
+    forwardcollisionwarning: 'Предупреждение о столкновении',
+    mobileusage: 'Телефон за рулём',
+    distracteddriving: 'Отвлечение от дороги',
+    drowsy: 'Сонливость',
+    noseatbelt: 'Без ремня безопасности',
+    obstructedcamera: 'Камера закрыта',
+    lanedeparture: 'Выезд из полосы',
+    defensivedriving: 'Защитное вождение',
+  },
+  uz: {
+    harshbrake: 'Keskin tormozlash',
+    harshbraking: 'Keskin tormozlash',
+    harshacceleration: 'Keskin tezlanish',
+    harshturn: 'Keskin burilish',
+    speeding: 'Tezlikni oshirish',
+    maxspeed: 'Maksimal tezlikdan oshish',
+    severespeeding: 'Tezlikni keskin oshirish',
+    manualspeeding: 'Tezlikni oshirish',
+    followingdistance: 'Xavfli masofa',
+    didnotyield: 'Yo‘l bermadi',
+    ranredlight: 'Qizil chiroqdan o‘tdi',
+    rollingstop: 'To‘liq to‘xtamadi',
+    crash: 'Avariya',
+    collision: 'To‘qnashuv',
+    nearcollision: 'To‘qnashuvga yaqin holat',
+    forwardcollisionwarning: 'To‘qnashuv ogohlantirishi',
+    mobileusage: 'Haydash paytida telefon',
+    distracteddriving: 'E’tiborsiz haydash',
+    drowsy: 'Uyquchanlik',
+    noseatbelt: 'Xavfsizlik kamarisiz',
+    obstructedcamera: 'Kamera yopilgan',
+    lanedeparture: 'Bo‘lakdan chiqish',
+    defensivedriving: 'Ehtiyotkor haydash',
+  },
+};
+
+/**
+ * Translate a Samsara behavior label ("Harsh Brake", "harshBrake", "Speeding (Manual)").
+ * Falls back to the original label.
+ */
+export function translateBehaviorLabel(label: string, language: LanguageCode): string {
+  const key = label.toLowerCase().replace(/[^a-z]/g, '');
+  return behaviorLabelMessages[language]?.[key] ?? label;
+}
+
+/**
+ * Alert locale for a destination chat (language, timezone, speed unit).
+ */
+export function getAlertLocale(chat: {
+  language: string;
+  timezone: string;
+  speedUnit: string;
+}): AlertLocale {
+  const language = (chat.language in alertMessages ? chat.language : 'en') as LanguageCode;
+  return {
+    language,
+    timeZone: chat.timezone,
+    speedUnit: chat.speedUnit === 'kmh' ? 'kmh' : 'mph',
+  };
+}
+
+/**
+ * Convert a speed in mph to the chat's unit (rounded).
+ */
+export function convertSpeed(mph: number, unit: SpeedUnitCode): number {
+  return Math.round(unit === 'kmh' ? mph * 1.609344 : mph);
+}
+
+// ================== ПОДТВЕРЖДЕНИЕ АЛЕРТОВ ВОДИТЕЛЕМ ==================
+
+export const ackMessages: Record<
+  LanguageCode,
+  {
+    acknowledgeButton: string;
+    disputeButton: string;
+    acknowledged: (time: string) => string;
+    disputed: (time: string) => string;
+    onlyDriver: string;
+    thanks: string;
+    alreadyAcknowledged: string;
+    reminder: string;
+  }
+> = {
+  en: {
+    acknowledgeButton: '✅ Acknowledged',
+    disputeButton: '⚠️ Dispute',
+    acknowledged: (time) => `✅ Acknowledged ${time}`,
+    disputed: (time) => `⚠️ Disputed ${time}`,
+    onlyDriver: 'Only the assigned driver can respond to this alert.',
+    thanks: 'Thank you, acknowledgment saved.',
+    alreadyAcknowledged: 'This alert is already acknowledged.',
+    reminder: '⏰ Please review the safety alert above and press "Acknowledged" or "Dispute".',
+  },
+  ru: {
+    acknowledgeButton: '✅ Ознакомлен',
+    disputeButton: '⚠️ Оспорить',
+    acknowledged: (time) => `✅ Ознакомлен ${time}`,
+    disputed: (time) => `⚠️ Оспорено ${time}`,
+    onlyDriver: 'Отвечать на это уведомление может только назначенный водитель.',
+    thanks: 'Спасибо, подтверждение сохранено.',
+    alreadyAcknowledged: 'Это уведомление уже подтверждено.',
+    reminder: '⏰ Пожалуйста, посмотрите уведомление выше и нажмите «Ознакомлен» или «Оспорить».',
+  },
+  uz: {
+    acknowledgeButton: '✅ Tanishdim',
+    disputeButton: '⚠️ E’tiroz',
+    acknowledged: (time) => `✅ Tanishildi ${time}`,
+    disputed: (time) => `⚠️ E’tiroz bildirildi ${time}`,
+    onlyDriver: 'Bu ogohlantirishga faqat biriktirilgan haydovchi javob bera oladi.',
+    thanks: 'Rahmat, tasdiq saqlandi.',
+    alreadyAcknowledged: 'Bu ogohlantirish allaqachon tasdiqlangan.',
+    reminder: '⏰ Iltimos, yuqoridagi ogohlantirishni ko‘rib chiqing va «Tanishdim» yoki «E’tiroz» tugmasini bosing.',
+  },
+};
+
+// ================== ОСПАРИВАНИЕ СОБЫТИЙ (DM водителя) ==================
+
+export const disputeMessages: Record<
+  LanguageCode,
+  {
+    openDm: string;
+    askReason: (truck: string, behavior: string, time: string) => string;
+    askEvidence: string;
+    sendWithoutEvidence: string;
+    submitted: string;
+    approved: (behavior: string, time: string) => string;
+    rejected: (behavior: string, time: string) => string;
+    notYourEvent: string;
+    alreadySubmitted: string;
+  }
+> = {
+  en: {
+    openDm: 'Open the chat with the bot to explain your dispute.',
+    askReason: (truck, behavior, time) =>
+      `⚠️ Dispute: ${behavior}, ${truck}, ${time}\n\nPlease describe in one message why this event is wrong (e.g. someone cut you off, wrong speed limit).`,
+    askEvidence:
+      'Thank you. You can now send a photo or a voice message as evidence, or press the button to send without evidence.',
+    sendWithoutEvidence: 'Send without evidence',
+    submitted: '✅ Your dispute was sent to the safety manager. You will get the decision here.',
+    approved: (behavior, time) => `✅ Your dispute was approved: ${behavior} (${time}) is dismissed.`,
+    rejected: (behavior, time) => `❌ Your dispute was rejected: ${behavior} (${time}) stays on record.`,
+    notYourEvent: 'This dispute link is not for you.',
+    alreadySubmitted: 'This dispute was already submitted.',
+  },
+  ru: {
+    openDm: 'Откройте чат с ботом, чтобы описать причину.',
+    askReason: (truck, behavior, time) =>
+      `⚠️ Оспаривание: ${behavior}, ${truck}, ${time}\n\nОпишите одним сообщением, почему событие ошибочное (например, вас подрезали, неверное ограничение скорости).`,
+    askEvidence:
+      'Спасибо. Теперь можете отправить фото или голосовое сообщение как доказательство, либо нажмите кнопку, чтобы отправить без доказательств.',
+    sendWithoutEvidence: 'Отправить без доказательств',
+    submitted: '✅ Ваше обращение отправлено safety-менеджеру. Решение придёт сюда.',
+    approved: (behavior, time) => `✅ Ваше обращение одобрено: ${behavior} (${time}) снято.`,
+    rejected: (behavior, time) => `❌ Ваше обращение отклонено: ${behavior} (${time}) остаётся в силе.`,
+    notYourEvent: 'Эта ссылка предназначена не для вас.',
+    alreadySubmitted: 'Это обращение уже отправлено.',
+  },
+  uz: {
+    openDm: 'Sababni yozish uchun bot bilan chatni oching.',
+    askReason: (truck, behavior, time) =>
+      `⚠️ E’tiroz: ${behavior}, ${truck}, ${time}\n\nBu hodisa nima uchun noto‘g‘ri ekanini bitta xabarda yozing (masalan, oldingizga kesib kirishdi, tezlik cheklovi noto‘g‘ri).`,
+    askEvidence:
+      'Rahmat. Endi dalil sifatida rasm yoki ovozli xabar yuborishingiz mumkin, yoki dalilsiz yuborish tugmasini bosing.',
+    sendWithoutEvidence: 'Dalilsiz yuborish',
+    submitted: '✅ E’tirozingiz safety menejerga yuborildi. Qaror shu yerga keladi.',
+    approved: (behavior, time) => `✅ E’tirozingiz qabul qilindi: ${behavior} (${time}) bekor qilindi.`,
+    rejected: (behavior, time) => `❌ E’tirozingiz rad etildi: ${behavior} (${time}) o‘z kuchida qoladi.`,
+    notYourEvent: 'Bu havola siz uchun emas.',
+    alreadySubmitted: 'Bu e’tiroz allaqachon yuborilgan.',
+  },
+};
+
+// ================== СТАТУС КОУЧИНГА В SAMSARA ==================
+
+export const coachingMessages: Record<
+  LanguageCode,
+  {
+    states: Record<string, string>;
+    stateChanged: (behavior: string, time: string, state: string) => string;
+    dismissed: (behavior: string, time: string) => string;
+  }
+> = {
+  en: {
+    states: {
+      needsReview: 'needs review',
+      needsCoaching: 'needs coaching',
+      coached: 'coached',
+      autoCoached: 'coached automatically',
+      reviewed: 'reviewed',
+      dismissed: 'dismissed',
+      recognized: 'recognized',
+      needsRecognition: 'needs recognition',
+    },
+    stateChanged: (behavior, time, state) => `📋 Samsara status of ${behavior} (${time}): ${state}`,
+    dismissed: (behavior, time) =>
+      `✅ ${behavior} (${time}) was dismissed by the safety manager and no longer counts.`,
+  },
+  ru: {
+    states: {
+      needsReview: 'требует проверки',
+      needsCoaching: 'требует коучинга',
+      coached: 'коучинг проведён',
+      autoCoached: 'коучинг проведён автоматически',
+      reviewed: 'проверено',
+      dismissed: 'снято',
+      recognized: 'отмечено',
+      needsRecognition: 'требует отметки',
+    },
+    stateChanged: (behavior, time, state) => `📋 Статус в Samsara для ${behavior} (${time}): ${state}`,
+    dismissed: (behavior, time) =>
+      `✅ ${behavior} (${time}) снято safety-менеджером и больше не учитывается.`,
+  },
+  uz: {
+    states: {
+      needsReview: 'tekshirilishi kerak',
+      needsCoaching: 'kouching kerak',
+      coached: 'kouching o‘tkazildi',
+      autoCoached: 'kouching avtomatik o‘tkazildi',
+      reviewed: 'tekshirildi',
+      dismissed: 'bekor qilindi',
+      recognized: 'belgilandi',
+      needsRecognition: 'belgilanishi kerak',
+    },
+    stateChanged: (behavior, time, state) => `📋 ${behavior} (${time}) Samsara holati: ${state}`,
+    dismissed: (behavior, time) =>
+      `✅ ${behavior} (${time}) safety menejer tomonidan bekor qilindi va endi hisoblanmaydi.`,
+  },
+};
+
+// ================== ДАЙДЖЕСТ ПО БЕЗОПАСНОСТИ ==================
+
+export const digestMessages: Record<
+  LanguageCode,
+  {
+    dailyTitle: (date: string) => string;
+    weeklyTitle: (from: string, to: string) => string;
+    events: (count: number, trend: string) => string;
+    previousDay: string;
+    previousWeek: string;
+    noEvents: string;
+    worstSpeeding: (truck: string, actual: number, limit: number, over: number, unit: string, time: string) => string;
+    pti: string;
+    ptiDone: string;
+    ptiMissed: string;
+    ptiDayOff: string;
+    ptiWeek: (done: number, total: number) => string;
+  }
+> = {
+  en: {
+    dailyTitle: (date) => `📰 Daily safety digest — ${date}`,
+    weeklyTitle: (from, to) => `📰 Weekly safety digest — ${from} – ${to}`,
+    events: (count, trend) => `Safety events: ${count} (${trend})`,
+    previousDay: 'vs previous day',
+    previousWeek: 'vs previous week',
+    noEvents: 'No safety events 👍',
+    worstSpeeding: (truck, actual, limit, over, unit, time) =>
+      `🟥 Worst speeding: ${truck}, ${actual} ${unit} in a ${limit} ${unit} zone (+${over}), ${time}`,
+    pti: 'PTI',
+    ptiDone: '✅ done',
+    ptiMissed: '❌ missed',
+    ptiDayOff: 'day off',
+    ptiWeek: (done, total) => `${done}/${total} working days`,
+  },
+  ru: {
+    dailyTitle: (date) => `📰 Дневной отчёт по безопасности — ${date}`,
+    weeklyTitle: (from, to) => `📰 Недельный отчёт по безопасности — ${from} – ${to}`,
+    events: (count, trend) => `События безопасности: ${count} (${trend})`,
+    previousDay: 'к предыдущему дню',
+    previousWeek: 'к предыдущей неделе',
+    noEvents: 'Событий безопасности нет 👍',
+    worstSpeeding: (truck, actual, limit, over, unit, time) =>
+      `🟥 Худшее превышение: ${truck}, ${actual} ${unit} при ограничении ${limit} ${unit} (+${over}), ${time}`,
+    pti: 'PTI',
+    ptiDone: '✅ выполнен',
+    ptiMissed: '❌ пропущен',
+    ptiDayOff: 'выходной',
+    ptiWeek: (done, total) => `${done}/${total} рабочих дней`,
+  },
+  uz: {
+    dailyTitle: (date) => `📰 Kunlik xavfsizlik hisoboti — ${date}`,
+    weeklyTitle: (from, to) => `📰 Haftalik xavfsizlik hisoboti — ${from} – ${to}`,
+    events: (count, trend) => `Xavfsizlik hodisalari: ${count} (${trend})`,
+    previousDay: 'oldingi kunga nisbatan',
+    previousWeek: 'oldingi haftaga nisbatan',
+    noEvents: 'Xavfsizlik hodisalari yo‘q 👍',
+    worstSpeeding: (truck, actual, limit, over, unit, time) =>
+      `🟥 Eng katta tezlik oshishi: ${truck}, ${limit} ${unit} cheklovda ${actual} ${unit} (+${over}), ${time}`,
+    pti: 'PTI',
+    ptiDone: '✅ bajarildi',
+    ptiMissed: '❌ o‘tkazib yuborildi',
+    ptiDayOff: 'dam olish kuni',
+    ptiWeek: (done, total) => `${done}/${total} ish kuni`,
+  },
+};
+
+// ================== СВОДКА СОБЫТИЙ ПОСЛЕ ПРОСТОЯ ==================
+
+export const catchUpMessages: Record<
+  LanguageCode,
+  {
+    title: (count: number) => string;
+    more: (count: number) => string;
+  }
+> = {
+  en: {
+    title: (count) => `🗂 ${count} safety event(s) from while alerts were paused:`,
+    more: (count) => `…and ${count} more`,
+  },
+  ru: {
+    title: (count) => `🗂 ${count} событий безопасности за время паузы уведомлений:`,
+    more: (count) => `…и ещё ${count}`,
+  },
+  uz: {
+    title: (count) => `🗂 Bildirishnomalar to‘xtagan paytdagi ${count} ta xavfsizlik hodisasi:`,
+    more: (count) => `…va yana ${count} ta`,
+  },
+};
@@ -1,36 +1,138 @@
-import { PrismaClient, Chat } from '@prisma/client';
+import {
+  PrismaClient,
+  Prisma,
+  Chat,
+  ChatLanguage,
+  CoachingAction,
+  DigestFrequency,
+  DisputeStatus,
+  EventDispute,
+  EventRule,
+  OutboxMessage,
+  PtiCompletion,
+  PtiMiss,
+  PtiTemplate,
+  PtiTemplateKind,
+  SafetyEventLog,
+  SpeedUnit,
+  Truck,
+  TruckAssignment,
+} from '@prisma/client';
 import { SafetyEvent } from './samsara';
 import { UnifiedEvent } from './services/eventNormalize';
+import { DEFAULT_TIMEZONE, getLocalDate, getLocalDateKey } from './services/timezone';
 
 const prisma = new PrismaClient();
 
+export type SamsaraVehicleRef = {
+  id?: string | null; // Samsara vehicle ID (event.vehicle.id / speeding assetId)
+  name?: string | null; // Samsara vehicle name (e.g., "Truck 105")
+};
+
+/**
+ * Find the Truck for a Samsara vehicle: by vehicle ID first, then by name.
+ *
+ * A name match is only used when the truck is not linked to another vehicle ID
+ * (a different vehicle may have taken the name after a rename). An unlinked truck
+ * matched by name is linked to the vehicle ID on the way.
+ *
+ * @param vehicle - Vehicle ID and/or name
+ * @returns Truck or null if not found
+ */
+export async function findTruckByVehicle(vehicle: SamsaraVehicleRef): Promise<Truck | null> {
+  try {
+    if (vehicle.id) {
+      const byId = await prisma.truck.findUnique({ where: { samsaraVehicleId: vehicle.id } });
+      if (byId) {
+        return byId;
+      }
+    }
+
+    if (!vehicle.name) {
+      return null;
+    }
+
+    const byName = await prisma.truck.findUnique({ where: { name: vehicle.name } });
+    if (!byName) {
+      return null;
+    }
+    if (!vehicle.id) {
+      return byName;
+    }
+    if (byName.samsaraVehicleId && byName.samsaraVehicleId !== vehicle.id) {
+      console.warn(
+        `⚠️ Truck "${byName.name}" is linked to vehicle ${byName.samsaraVehicleId}, not ${vehicle.id} - name match ignored`
+      );
+      return null;
+    }
+
+    console.log(`🔗 Linking truck "${byName.name}" to Samsara vehicle ${vehicle.id}`);
+    return await prisma.truck.update({
+      where: { id: byName.id },
+      data: { samsaraVehicleId: vehicle.id },
+    });
+  } catch (error) {
+    console.error(`❌ Error finding truck for vehicle ${vehicle.id ?? vehicle.name}:`, error);
+    return null;
+  }
+}
+
 /**
- * Find Chat by vehicle name from Samsara.
- * Looks up the Truck by name and returns the associated Chat.
+ * Find Chat for a Samsara vehicle.
+ * Looks up the Truck by vehicle ID, then by name (see findTruckByVehicle),
+ * and returns the associated Chat.
  *
- * @param vehicleName - Vehicle name from Samsara event (e.g., "Truck 105")
+ * When `at` is given, the owner is resolved from the truck assignment history
+ * at that moment (event occurrence time), so a late-arriving event goes to the
+ * chat that owned the truck when it happened. Falls back to the current owner
+ * only for trucks without assignment history; a truck with history but no row
+ * covering that moment (e.g. unassigned at the time) is not routed.
+ *
+ * @param vehicle - Vehicle ID and/or name from the Samsara event
+ * @param at - Optional event occurrence time
  * @returns Chat with language and telegramChatId, or null if not found
  */
-export async function findChatByVehicleName(
-  vehicleName: string | null | undefined
+export async function findChatByVehicle(
+  vehicle: SamsaraVehicleRef,
+  at?: Date | string | null
 ): Promise<Chat | null> {
-  if (!vehicleName) {
+  const truck = await findTruckByVehicle(vehicle);
+  if (!truck) {
     return null;
   }
 
   try {
-    const truck = await prisma.truck.findUnique({
-      where: {
-        name: vehicleName,
-      },
-      include: {
-        chat: true,
-      },
-    });
+    if (at) {
+      const atDate = new Date(at);
+      if (!isNaN(atDate.getTime())) {
+        const assignment = await prisma.truckAssignment.findFirst({
+          where: {
+            truckId: truck.id,
+            effectiveFrom: { lte: atDate },
+            OR: [{ effectiveTo: null }, { effectiveTo: { gt: atDate } }],
+          },
+          orderBy: { effectiveFrom: 'desc' },
+          include: { chat: true },
+        });
 
-    return truck?.chat ?? null;
+        if (assignment) {
+          return assignment.chat;
+        }
+
+        const history = await prisma.truckAssignment.count({ where: { truckId: truck.id } });
+        if (history > 0) {
+          console.warn(`⚠️ No assignment of ${truck.name} covers ${atDate.toISOString()}, not routed`);
+          return null;
+        }
+      }
+    }
+
+    if (truck.chatId === null) {
+      return null;
+    }
+    return await prisma.chat.findUnique({ where: { id: truck.chatId } });
   } catch (error) {
-    console.error(`❌ Error finding chat for vehicle ${vehicleName}:`, error);
+    console.error(`❌ Error finding chat for vehicle ${truck.name}:`, error);
     return null;
   }
 }
@@ -44,6 +146,7 @@ export async function findChatByVehicleName(
  * @param behavior - Behavior description string (e.g., "Speeding, Harsh Brake")
  * @param videoUrl - Optional video URL that was sent
  * @param timeLocal - Event time already converted to America/New_York timezone
+ * @returns Logged row, or null on error
  */
 export async function logSafetyEvent(
   event: SafetyEvent,
@@ -51,9 +154,9 @@ export async function logSafetyEvent(
   behavior: string,
   videoUrl: string | null | undefined,
   timeLocal: Date
-): Promise<void> {
+): Promise<SafetyEventLog | null> {
   try {
-    await prisma.safetyEventLog.upsert({
+    return await prisma.safetyEventLog.upsert({
       where: {
         samsaraEventId: event.id,
       },
@@ -65,6 +168,7 @@ export async function logSafetyEvent(
         longitude: event.location?.longitude ?? null,
         sentToChatId: chatId ? BigInt(Number(chatId)) : null,
         videoUrl: videoUrl ?? null,
+        coachingState: event.coachingState ?? null,
         rawJson: event as any, // Store full raw JSON
         updatedAt: new Date(),
       },
@@ -77,12 +181,14 @@ export async function logSafetyEvent(
         longitude: event.location?.longitude ?? null,
         sentToChatId: chatId ? BigInt(Number(chatId)) : null,
         videoUrl: videoUrl ?? null,
+        coachingState: event.coachingState ?? null,
         rawJson: event as any, // Store full raw JSON
       },
     });
   } catch (error) {
     console.error(`❌ Error logging safety event ${event.id}:`, error);
     // Don't throw - logging errors shouldn't break the bot
+    return null;
   }
 }
 
@@ -95,6 +201,7 @@ export async function logSafetyEvent(
  * @param behavior - Behavior description string (e.g., "Severe Speeding", "Harsh Brake")
  * @param videoUrl - Optional video URL that was sent
  * @param timeLocal - Event time already converted to America/New_York timezone
+ * @returns Logged row, or null on error
  */
 export async function logUnifiedEvent(
   event: UnifiedEvent,
@@ -102,9 +209,9 @@ export async function logUnifiedEvent(
   behavior: string,
   videoUrl: string | null | undefined,
   timeLocal: Date
-): Promise<void> {
+): Promise<SafetyEventLog | null> {
   try {
-    await prisma.safetyEventLog.upsert({
+    return await prisma.safetyEventLog.upsert({
       where: {
         samsaraEventId: event.id, // Works for both safety events and speeding intervals
       },
@@ -116,6 +223,7 @@ export async function logUnifiedEvent(
         longitude: event.details?.location?.longitude ?? null,
         sentToChatId: chatId ? BigInt(Number(chatId)) : null,
         videoUrl: videoUrl ?? null,
+        coachingState: event.details?.coachingState ?? null,
         rawJson: event as any, // Store full unified event JSON
         updatedAt: new Date(),
       },
@@ -128,12 +236,14 @@ export async function logUnifiedEvent(
         longitude: event.details?.location?.longitude ?? null,
         sentToChatId: chatId ? BigInt(Number(chatId)) : null,
         videoUrl: videoUrl ?? null,
+        coachingState: event.details?.coachingState ?? null,
         rawJson: event as any, // Store full unified event JSON
       },
     });
   } catch (error) {
     console.error(`❌ Error logging unified event ${event.id}:`, error);
     // Don't throw - logging errors shouldn't break the bot
+    return null;
   }
 }
 
@@ -193,6 +303,44 @@ export async function getAllChats(): Promise<Chat[]> {
   }
 }
 
+/**
+ * Get all trucks ordered by name.
+ *
+ * @returns Array of trucks (empty array on error)
+ */
+export async function getAllTrucks(): Promise<Truck[]> {
+  try {
+    return await prisma.truck.findMany({ orderBy: { name: 'asc' } });
+  } catch (error) {
+    console.error('❌ Error fetching trucks:', error);
+    return [];
+  }
+}
+
+/**
+ * Store the Samsara vehicle link of a truck (ID, VIN, serial) and optionally
+ * follow a rename in Samsara. Refreshes the owner chat's truckNames on rename.
+ *
+ * @param truckId - Truck ID
+ * @param data - Samsara vehicle ID, VIN, serial and (on rename) the new name
+ * @returns Updated Truck, or null on error (e.g. the new name is taken)
+ */
+export async function updateTruckVehicleLink(
+  truckId: number,
+  data: { samsaraVehicleId: string; vin: string | null; serial: string | null; name?: string }
+): Promise<Truck | null> {
+  try {
+    const truck = await prisma.truck.update({ where: { id: truckId }, data });
+    if (data.name && truck.chatId !== null) {
+      await updateChatTruckNames(truck.chatId);
+    }
+    return truck;
+  } catch (error) {
+    console.error(`❌ Error linking truck ${truckId} to Samsara vehicle ${data.samsaraVehicleId}:`, error);
+    return null;
+  }
+}
+
 /**
  * Update truckNames field for a chat based on its associated trucks.
  * This makes it easier to see truck numbers in Prisma Studio.
@@ -285,6 +433,304 @@ export async function findChatByTelegramChatId(
   }
 }
 
+/**
+ * Create or update a Chat record for a Telegram group.
+ * Used by the /register onboarding wizard.
+ *
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param data - Group name and PTI language
+ * @returns Created/updated Chat or null on error
+ */
+export async function upsertChat(
+  telegramChatId: bigint,
+  data: { name: string; language: ChatLanguage }
+): Promise<Chat | null> {
+  try {
+    return await prisma.chat.upsert({
+      where: {
+        telegramChatId,
+      },
+      update: {
+        name: data.name,
+        language: data.language,
+      },
+      create: {
+        telegramChatId,
+        name: data.name,
+        language: data.language,
+      },
+    });
+  } catch (error) {
+    console.error(
+      `❌ Error upserting chat for telegramChatId ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Get all trucks bound to a chat.
+ *
+ * @param chatId - Chat ID
+ * @returns Trucks ordered by name (empty array on error)
+ */
+export async function getTrucksByChatId(chatId: number): Promise<Truck[]> {
+  try {
+    return await prisma.truck.findMany({
+      where: { chatId },
+      orderBy: { name: 'asc' },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching trucks for chat ${chatId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Bind exactly the given trucks to a chat.
+ * - Selected trucks are created, or moved from another chat if they already exist
+ * - Trucks previously bound to this chat but not selected are unassigned
+ * - Every change is recorded in the truck assignment history
+ * - All changes run in one transaction: either every truck is updated or none
+ *
+ * @param chatId - Chat ID
+ * @param truckNames - Samsara vehicle names (e.g., "Truck 105")
+ * @param assignedByTgUserId - Telegram user ID of the admin making the change
+ * @returns Updated Chat or null on error (nothing changed)
+ */
+export async function setChatTrucks(
+  chatId: number,
+  truckNames: string[],
+  assignedByTgUserId?: bigint | null
+): Promise<Chat | null> {
+  try {
+    const names = new Set(
+      truckNames.map((name) => name.trim()).filter((name) => name !== '')
+    );
+    const at = new Date();
+
+    const affectedChatIds = await prisma.$transaction(async (tx) => {
+      const affected = new Set<number>([chatId]);
+
+      const currentTrucks = await tx.truck.findMany({ where: { chatId } });
+      for (const truck of currentTrucks) {
+        if (!names.has(truck.name)) {
+          await reassignTruck(tx, truck, null, at, assignedByTgUserId);
+        }
+      }
+
+      for (const name of names) {
+        const truck =
+          (await tx.truck.findUnique({ where: { name } })) ??
+          (await tx.truck.create({ data: { name, chatId: null } }));
+        if (truck.chatId !== null) {
+          affected.add(truck.chatId);
+        }
+        await reassignTruck(tx, truck, chatId, at, assignedByTgUserId);
+      }
+
+      return affected;
+    });
+
+    for (const affectedChatId of affectedChatIds) {
+      await updateChatTruckNames(affectedChatId);
+    }
+
+    return await prisma.chat.findUnique({ where: { id: chatId } });
+  } catch (error) {
+    console.error(`❌ Error setting trucks for chat ${chatId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Move a truck to a new owner (or to no owner) inside a transaction,
+ * closing the open history row and opening a new one.
+ *
+ * Trucks created before the history table existed have no rows yet; for those
+ * a backfill row for the current owner (from truck.createdAt) is written first,
+ * so events from that period still resolve to the right chat.
+ */
+async function reassignTruck(
+  tx: Prisma.TransactionClient,
+  truck: Truck,
+  newChatId: number | null,
+  at: Date,
+  assignedByTgUserId?: bigint | null
+): Promise<void> {
+  const openAssignment = await tx.truckAssignment.findFirst({
+    where: { truckId: truck.id, effectiveTo: null },
+    orderBy: { effectiveFrom: 'desc' },
+  });
+
+  if (openAssignment && openAssignment.chatId === newChatId) {
+    return; // Already owned by this chat
+  }
+
+  if (openAssignment) {
+    await tx.truckAssignment.updateMany({
+      where: { truckId: truck.id, effectiveTo: null },
+      data: { effectiveTo: at },
+    });
+  } else if (truck.chatId !== null && truck.chatId !== newChatId) {
+    const historyCount = await tx.truckAssignment.count({ where: { truckId: truck.id } });
+    if (historyCount === 0) {
+      await tx.truckAssignment.create({
+        data: {
+          truckId: truck.id,
+          chatId: truck.chatId,
+          effectiveFrom: truck.createdAt,
+          effectiveTo: at,
+        },
+      });
+    }
+  }
+
+  if (newChatId !== null) {
+    await tx.truckAssignment.create({
+      data: {
+        truckId: truck.id,
+        chatId: newChatId,
+        effectiveFrom: at,
+        assignedByTgUserId: assignedByTgUserId ?? null,
+      },
+    });
+  }
+
+  await tx.truck.update({
+    where: { id: truck.id },
+    data: { chatId: newChatId },
+  });
+}
+
+/**
+ * Assign a truck to a chat (creating the Truck row if needed).
+ * If the truck belonged to another chat, that ownership is closed in the history.
+ * Refreshes truckNames for both the new and the previous chat.
+ *
+ * @param truckName - Samsara vehicle name (e.g., "Truck 105")
+ * @param chatId - Chat ID of the new owner
+ * @param assignedByTgUserId - Telegram user ID of the admin making the change
+ * @param samsaraVehicleId - Samsara vehicle ID to link (if known and not linked to another truck)
+ * @returns Truck with the previous owner chat ID, or null on error
+ */
+export async function assignTruckToChat(
+  truckName: string,
+  chatId: number,
+  assignedByTgUserId?: bigint | null,
+  samsaraVehicleId?: string | null
+): Promise<{ truck: Truck; previousChatId: number | null } | null> {
+  try {
+    const at = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      let truck = await tx.truck.findUnique({ where: { name: truckName } });
+      const previousChatId = truck?.chatId ?? null;
+
+      const linkId =
+        samsaraVehicleId && !truck?.samsaraVehicleId
+          ? (await tx.truck.findUnique({ where: { samsaraVehicleId } }))
+            ? null // Already linked to another truck
+            : samsaraVehicleId
+          : null;
+
+      if (!truck) {
+        truck = await tx.truck.create({
+          data: { name: truckName, chatId: null, samsaraVehicleId: linkId },
+        });
+      } else if (linkId) {
+        truck = await tx.truck.update({
+          where: { id: truck.id },
+          data: { samsaraVehicleId: linkId },
+        });
+      }
+
+      await reassignTruck(tx, truck, chatId, at, assignedByTgUserId);
+
+      return {
+        truck: { ...truck, chatId },
+        previousChatId,
+      };
+    });
+
+    await updateChatTruckNames(chatId);
+    if (result.previousChatId !== null && result.previousChatId !== chatId) {
+      await updateChatTruckNames(result.previousChatId);
+    }
+
+    return result;
+  } catch (error) {
+    console.error(`❌ Error assigning truck ${truckName} to chat ${chatId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Unassign a truck from its current chat (the Truck row and its history are kept).
+ *
+ * @param truckName - Samsara vehicle name
+ * @param assignedByTgUserId - Telegram user ID of the admin making the change
+ * @returns Truck with the previous owner chat ID, or null if not found / on error
+ */
+export async function unassignTruck(
+  truckName: string,
+  assignedByTgUserId?: bigint | null
+): Promise<{ truck: Truck; previousChatId: number | null } | null> {
+  try {
+    const at = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const truck = await tx.truck.findUnique({ where: { name: truckName } });
+      if (!truck) {
+        return null;
+      }
+
+      await reassignTruck(tx, truck, null, at, assignedByTgUserId);
+
+      return {
+        truck: { ...truck, chatId: null },
+        previousChatId: truck.chatId,
+      };
+    });
+
+    if (result?.previousChatId != null) {
+      await updateChatTruckNames(result.previousChatId);
+    }
+
+    return result;
+  } catch (error) {
+    console.error(`❌ Error unassigning truck ${truckName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the ownership history of a truck (newest first).
+ *
+ * @param truckName - Samsara vehicle name
+ * @returns Truck with its assignments (incl. chat), or null if not found
+ */
+export async function getTruckAssignmentHistory(
+  truckName: string
+): Promise<(Truck & { chat: Chat | null; assignments: (TruckAssignment & { chat: Chat })[] }) | null> {
+  try {
+    return await prisma.truck.findUnique({
+      where: { name: truckName },
+      include: {
+        chat: true,
+        assignments: {
+          include: { chat: true },
+          orderBy: { effectiveFrom: 'desc' },
+        },
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching assignment history for truck ${truckName}:`, error);
+    return null;
+  }
+}
+
 /**
  * Update mention template for a chat.
  *
@@ -515,71 +961,1192 @@ export async function cleanupOldSentEvents(daysOld: number = 7): Promise<number>
 }
 
 /**
- * Mark PTI as completed for a chat (sets lastPtiDate to today in NY timezone).
- * 
- * @param telegramChatId - Telegram chat ID (BigInt)
- * @returns Updated Chat or null if not found
+ * Enqueue a Telegram delivery in the outbox.
+ * Idempotent per eventKey: an event that is already queued (or sent) is not queued again.
+ *
+ * @param data - Handler kind, event key, Telegram chat ID, handler payload and drain priority (0 = first)
+ * @returns Outbox row (existing one if already queued), or null on error
  */
-export async function markPtiCompleted(telegramChatId: bigint): Promise<Chat | null> {
+export async function enqueueOutboxMessage(data: {
+  kind: string;
+  eventKey: string;
+  chatId: bigint;
+  payload: Prisma.InputJsonValue;
+  priority: number;
+}): Promise<OutboxMessage | null> {
   try {
-    // Get current date in America/New_York timezone (date only, no time)
-    const now = new Date();
-    const nyDate = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-    // Set to start of day (00:00:00) in NY timezone
-    nyDate.setHours(0, 0, 0, 0);
-
-    const existing = await prisma.chat.findUnique({
-      where: {
-        telegramChatId,
-      },
+    return await prisma.outboxMessage.upsert({
+      where: { eventKey: data.eventKey },
+      update: {},
+      create: data,
     });
+  } catch (error) {
+    console.error(`❌ Error enqueueing outbox message for ${data.eventKey}:`, error);
+    return null;
+  }
+}
 
-    if (!existing) {
-      console.log(
-        `⚠️ Chat not found for telegramChatId ${telegramChatId}, cannot mark PTI completed`
-      );
-      return null;
-    }
+/**
+ * Check if an event already has an outbox delivery (any status).
+ *
+ * @param eventKey - Samsara event ID or speeding key
+ */
+export async function hasOutboxMessage(eventKey: string): Promise<boolean> {
+  try {
+    const existing = await prisma.outboxMessage.findUnique({
+      where: { eventKey },
+      select: { id: true },
+    });
+    return existing !== null;
+  } catch (error) {
+    console.error(`❌ Error checking outbox for ${eventKey}:`, error);
+    return false;
+  }
+}
 
-    return await prisma.chat.update({
-      where: {
-        telegramChatId,
-      },
-      data: {
-        lastPtiDate: nyDate,
-      },
+/**
+ * Get pending outbox messages that are due, highest priority first, then oldest first.
+ *
+ * @param now - Current time
+ * @param limit - Max rows
+ * @returns Rows (empty array on error)
+ */
+export async function getDueOutboxMessages(now: Date, limit: number): Promise<OutboxMessage[]> {
+  try {
+    return await prisma.outboxMessage.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: now } },
+      orderBy: [{ priority: 'asc' }, { nextAttemptAt: 'asc' }],
+      take: limit,
     });
   } catch (error) {
-    console.error(
-      `❌ Error marking PTI completed for chat ${telegramChatId}:`,
-      error
-    );
-    return null;
+    console.error('❌ Error fetching due outbox messages:', error);
+    return [];
   }
 }
 
 /**
- * Check if PTI was completed today (in NY timezone) for a chat.
- * 
- * @param chat - Chat object with lastPtiDate field
- * @returns true if PTI was completed today
+ * Claim a pending outbox message for sending (pending -> sending).
+ * Only one worker wins, so overlapping ticks never send the same message twice.
+ *
+ * @returns true if this caller claimed it
  */
-export function isPtiCompletedToday(chat: Chat & { lastPtiDate?: Date | null }): boolean {
-  if (!chat.lastPtiDate) {
+export async function claimOutboxMessage(id: number): Promise<boolean> {
+  try {
+    const result = await prisma.outboxMessage.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'sending' },
+    });
+    return result.count === 1;
+  } catch (error) {
+    console.error(`❌ Error claiming outbox message ${id}:`, error);
     return false;
   }
+}
 
-  // Get today's date in NY timezone (date only, no time)
-  const now = new Date();
-  const todayNy = new Date(now.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  todayNy.setHours(0, 0, 0, 0);
+/**
+ * Mark an outbox message as delivered.
+ */
+export async function markOutboxMessageSent(id: number, telegramMessageId: number | null): Promise<void> {
+  try {
+    await prisma.outboxMessage.update({
+      where: { id },
+      data: { status: 'sent', sentAt: new Date(), telegramMessageId, lastError: null },
+    });
+  } catch (error) {
+    console.error(`❌ Error marking outbox message ${id} as sent:`, error);
+  }
+}
 
-  // Get lastPtiDate as date only (in NY timezone)
-  const lastPtiNy = new Date(chat.lastPtiDate.toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  lastPtiNy.setHours(0, 0, 0, 0);
+/**
+ * Record a failed attempt: back to pending with the next attempt time, or failed for good.
+ */
+export async function markOutboxMessageFailed(
+  id: number,
+  data: { status: 'pending' | 'failed'; attempts: number; nextAttemptAt: Date; lastError: string }
+): Promise<void> {
+  try {
+    await prisma.outboxMessage.update({ where: { id }, data });
+  } catch (error) {
+    console.error(`❌ Error updating outbox message ${id}:`, error);
+  }
+}
 
-  // Compare dates (ignore time)
-  return lastPtiNy.getTime() === todayNy.getTime();
+/**
+ * Put messages stuck in "sending" (worker crashed mid-send) back to pending.
+ *
+ * @param before - Claimed before this moment (updatedAt)
+ * @returns Number of released rows
+ */
+export async function releaseStaleOutboxMessages(before: Date): Promise<number> {
+  try {
+    const result = await prisma.outboxMessage.updateMany({
+      where: { status: 'sending', updatedAt: { lt: before } },
+      data: { status: 'pending' },
+    });
+    return result.count;
+  } catch (error) {
+    console.error('❌ Error releasing stale outbox messages:', error);
+    return 0;
+  }
+}
+
+/**
+ * Get outbox messages that failed for good since `since`, newest first (reconciliation report).
+ * Their events are logged with sentToChatId set, but the group never got the alert.
+ *
+ * @param since - Lower bound on updatedAt (when the last attempt failed)
+ * @returns Rows (empty array on error)
+ */
+export async function getFailedOutboxMessages(since: Date): Promise<OutboxMessage[]> {
+  try {
+    return await prisma.outboxMessage.findMany({
+      where: { status: 'failed', updatedAt: { gte: since } },
+      orderBy: { updatedAt: 'desc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching failed outbox messages:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete delivered outbox messages older than the given number of days
+ * (failed ones are kept for inspection).
+ *
+ * @param days - Keep this many days
+ * @returns Number of deleted rows
+ */
+export async function cleanupOldOutboxMessages(days: number): Promise<number> {
+  try {
+    const result = await prisma.outboxMessage.deleteMany({
+      where: {
+        status: 'sent',
+        sentAt: { lt: new Date(Date.now() - days * 24 * 60 * 60 * 1000) },
+      },
+    });
+    return result.count;
+  } catch (error) {
+    console.error('❌ Error cleaning up old outbox messages:', error);
+    return 0;
+  }
+}
+
+/**
+ * Get the stored high-water mark of a polled source.
+ *
+ * @param source - "safety" or "speeding"
+ * @returns End of the last fully processed window, or null if never polled
+ */
+export async function getPollCursor(source: string): Promise<Date | null> {
+  try {
+    const cursor = await prisma.pollCursor.findUnique({ where: { source } });
+    return cursor?.windowEnd ?? null;
+  } catch (error) {
+    console.error(`❌ Error fetching poll cursor for ${source}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store the high-water mark of a polled source.
+ *
+ * @param source - "safety" or "speeding"
+ * @param windowEnd - End of the last fully processed window
+ */
+export async function savePollCursor(source: string, windowEnd: Date): Promise<void> {
+  try {
+    await prisma.pollCursor.upsert({
+      where: { source },
+      update: { windowEnd },
+      create: { source, windowEnd },
+    });
+  } catch (error) {
+    console.error(`❌ Error saving poll cursor for ${source}:`, error);
+  }
+}
+
+/**
+ * Mark a logged event as caught up without its own alert (summarized or archived).
+ *
+ * @param samsaraEventId - Samsara event ID or speeding key
+ */
+export async function archiveSafetyEventLog(samsaraEventId: string): Promise<void> {
+  try {
+    await prisma.safetyEventLog.update({
+      where: { samsaraEventId },
+      data: { archivedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`❌ Error archiving safety event ${samsaraEventId}:`, error);
+  }
+}
+
+/**
+ * Mark PTI as completed for a chat (sets lastPtiDate to today in the chat's timezone)
+ * and appends a row to the PTI completion history.
+ * lastPtiDate is stored as UTC midnight of the local calendar day.
+ * 
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param completion - How the PTI was completed (default: manual)
+ * @returns Updated Chat or null if not found
+ */
+export async function markPtiCompleted(
+  telegramChatId: bigint,
+  completion: {
+    source: 'video' | 'manual';
+    completedByTgUserId?: bigint | null;
+    telegramMessageId?: number | null;
+  } = { source: 'manual' }
+): Promise<Chat | null> {
+  try {
+    const existing = await prisma.chat.findUnique({
+      where: {
+        telegramChatId,
+      },
+    });
+
+    if (!existing) {
+      console.log(
+        `⚠️ Chat not found for telegramChatId ${telegramChatId}, cannot mark PTI completed`
+      );
+      return null;
+    }
+
+    // Today's date in the chat's timezone (date only, no time)
+    const today = getLocalDate(new Date(), existing.timezone || DEFAULT_TIMEZONE);
+
+    const [updated] = await prisma.$transaction([
+      prisma.chat.update({
+        where: {
+          telegramChatId,
+        },
+        data: {
+          lastPtiDate: today,
+        },
+      }),
+      prisma.ptiCompletion.create({
+        data: {
+          chatId: existing.id,
+          ptiDate: today,
+          source: completion.source,
+          completedByTgUserId: completion.completedByTgUserId ?? null,
+          telegramMessageId: completion.telegramMessageId ?? null,
+        },
+      }),
+    ]);
+
+    return updated;
+  } catch (error) {
+    console.error(
+      `❌ Error marking PTI completed for chat ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Check if PTI was completed today (in the chat's timezone) for a chat.
+ * 
+ * @param chat - Chat object with lastPtiDate and timezone fields
+ * @returns true if PTI was completed today
+ */
+export function isPtiCompletedToday(chat: Chat & { lastPtiDate?: Date | null }): boolean {
+  if (!chat.lastPtiDate) {
+    return false;
+  }
+
+  // lastPtiDate is UTC midnight of the local day, so its ISO date is the local date
+  const lastPtiKey = chat.lastPtiDate.toISOString().slice(0, 10);
+  return lastPtiKey === getLocalDateKey(new Date(), chat.timezone || DEFAULT_TIMEZONE);
+}
+
+/**
+ * Update PTI reminder schedule and timezone for a chat.
+ *
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param schedule - Reminder time ("HH:MM"), working days ("1,2,3,4,5,6") and IANA timezone
+ * @returns Updated Chat or null if not found
+ */
+export async function updateChatPtiSchedule(
+  telegramChatId: bigint,
+  schedule: {
+    ptiReminderTime: string;
+    ptiWorkingDays: string;
+    timezone: string;
+  }
+): Promise<Chat | null> {
+  try {
+    const existing = await prisma.chat.findUnique({
+      where: {
+        telegramChatId,
+      },
+    });
+
+    if (!existing) {
+      console.log(
+        `⚠️ Chat not found for telegramChatId ${telegramChatId}, cannot update PTI schedule`
+      );
+      return null;
+    }
+
+    return await prisma.chat.update({
+      where: {
+        telegramChatId,
+      },
+      data: schedule,
+    });
+  } catch (error) {
+    console.error(
+      `❌ Error updating PTI schedule for chat ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Update the speed unit (mph / km/h) used in alerts for a chat.
+ *
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param speedUnit - SpeedUnit enum value
+ * @returns Updated Chat or null if not found
+ */
+export async function updateChatSpeedUnit(
+  telegramChatId: bigint,
+  speedUnit: SpeedUnit
+): Promise<Chat | null> {
+  try {
+    return await prisma.chat.update({
+      where: {
+        telegramChatId,
+      },
+      data: { speedUnit },
+    });
+  } catch (error) {
+    console.error(
+      `❌ Error updating speed unit for chat ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Update safety digest settings for a chat.
+ *
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param settings - Frequency, local time ("HH:MM") and weekday for weekly digests
+ * @returns Updated Chat or null on error
+ */
+export async function updateChatDigestSettings(
+  telegramChatId: bigint,
+  settings: { digestFrequency: DigestFrequency; digestTime?: string; digestWeekday?: number }
+): Promise<Chat | null> {
+  try {
+    return await prisma.chat.update({
+      where: {
+        telegramChatId,
+      },
+      data: settings,
+    });
+  } catch (error) {
+    console.error(
+      `❌ Error updating digest settings for chat ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Remember the local date a digest was sent (one digest per day).
+ *
+ * @param chatId - Chat.id
+ * @param date - Local date (UTC midnight)
+ */
+export async function markDigestSent(chatId: number, date: Date): Promise<void> {
+  try {
+    await prisma.chat.update({
+      where: { id: chatId },
+      data: { lastDigestDate: date },
+    });
+  } catch (error) {
+    console.error(`❌ Error marking digest sent for chat ${chatId}:`, error);
+  }
+}
+
+/**
+ * Claim a PTI ladder step for a chat for the day, before it is sent
+ * (sets the step's date unless it is already set to `date`).
+ * Only one scheduler tick wins, so a slow tick that overlaps the next one
+ * never sends the same step twice.
+ *
+ * @param chatId - Chat.id
+ * @param step - Ladder step
+ * @param date - Local date (UTC midnight)
+ * @returns true if this caller claimed it
+ */
+export async function claimPtiStep(
+  chatId: number,
+  step: 'reminder' | 'follow_up' | 'escalation',
+  date: Date
+): Promise<boolean> {
+  const field = {
+    reminder: 'ptiReminderSentDate',
+    follow_up: 'ptiFollowUpSentDate',
+    escalation: 'ptiEscalatedDate',
+  }[step];
+
+  try {
+    const result = await prisma.chat.updateMany({
+      where: { id: chatId, OR: [{ [field]: null }, { [field]: { lt: date } }] },
+      data: { [field]: date },
+    });
+    return result.count === 1;
+  } catch (error) {
+    console.error(`❌ Error claiming PTI ${step} for chat ${chatId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Update PTI video detection rules for a chat.
+ * Null values fall back to the global env defaults.
+ *
+ * @param telegramChatId - Telegram chat ID (BigInt)
+ * @param rules - Time window ("HH:MM") and minimum video duration (seconds)
+ * @returns Updated Chat or null if not found
+ */
+export async function updateChatPtiRules(
+  telegramChatId: bigint,
+  rules: {
+    ptiWindowStart: string | null;
+    ptiWindowEnd: string | null;
+    ptiMinVideoSeconds: number | null;
+  }
+): Promise<Chat | null> {
+  try {
+    const existing = await prisma.chat.findUnique({
+      where: {
+        telegramChatId,
+      },
+    });
+
+    if (!existing) {
+      console.log(
+        `⚠️ Chat not found for telegramChatId ${telegramChatId}, cannot update PTI rules`
+      );
+      return null;
+    }
+
+    return await prisma.chat.update({
+      where: {
+        telegramChatId,
+      },
+      data: rules,
+    });
+  } catch (error) {
+    console.error(
+      `❌ Error updating PTI rules for chat ${telegramChatId}:`,
+      error
+    );
+    return null;
+  }
+}
+
+/**
+ * Record a missed PTI for a chat (idempotent per chat and day).
+ *
+ * @param chat - Chat that did not complete PTI
+ * @param ptiDate - Local calendar day in the chat's timezone (UTC midnight, see services/timezone)
+ * @returns PtiMiss row or null on error
+ */
+export async function recordPtiMiss(chat: Chat, ptiDate: Date): Promise<PtiMiss | null> {
+  try {
+    return await prisma.ptiMiss.upsert({
+      where: {
+        chatId_ptiDate: {
+          chatId: chat.id,
+          ptiDate,
+        },
+      },
+      update: {},
+      create: {
+        chatId: chat.id,
+        ptiDate,
+        truckNames: chat.truckNames,
+        driverTgUserId: chat.driverTgUserId,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error recording PTI miss for chat ${chat.id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get PTI completion history for a date range (inclusive, local calendar days).
+ *
+ * @param from - First day (UTC midnight)
+ * @param to - Last day (UTC midnight)
+ * @returns Completions ordered by day (empty array on error)
+ */
+export async function getPtiCompletionsInRange(from: Date, to: Date): Promise<PtiCompletion[]> {
+  try {
+    return await prisma.ptiCompletion.findMany({
+      where: {
+        ptiDate: {
+          gte: from,
+          lte: to,
+        },
+      },
+      orderBy: [{ ptiDate: 'asc' }, { completedAt: 'asc' }],
+    });
+  } catch (error) {
+    console.error('❌ Error fetching PTI completions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get recorded PTI misses for a date range (inclusive, local calendar days).
+ *
+ * @param from - First day (UTC midnight)
+ * @param to - Last day (UTC midnight)
+ * @returns Misses ordered by day (empty array on error)
+ */
+export async function getPtiMissesInRange(from: Date, to: Date): Promise<PtiMiss[]> {
+  try {
+    return await prisma.ptiMiss.findMany({
+      where: {
+        ptiDate: {
+          gte: from,
+          lte: to,
+        },
+      },
+      orderBy: { ptiDate: 'asc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching PTI misses:', error);
+    return [];
+  }
+}
+
+/**
+ * Get all saved versions of a PTI template, newest first.
+ *
+ * @param kind - Template kind (reminder / follow_up)
+ * @param language - Template language
+ * @param chatId - Chat.id for a per-chat override, or null for the global template
+ * @returns Versions (empty array if never edited or on error)
+ */
+export async function getPtiTemplateVersions(
+  kind: PtiTemplateKind,
+  language: ChatLanguage,
+  chatId: number | null
+): Promise<PtiTemplate[]> {
+  try {
+    return await prisma.ptiTemplate.findMany({
+      where: {
+        kind,
+        language,
+        chatId,
+      },
+      orderBy: { version: 'desc' },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching PTI templates (${kind}/${language}/${chatId ?? 'global'}):`, error);
+    return [];
+  }
+}
+
+/**
+ * Get the current (highest version) PTI template.
+ *
+ * @param kind - Template kind (reminder / follow_up)
+ * @param language - Template language
+ * @param chatId - Chat.id for a per-chat override, or null for the global template
+ * @returns Current template or null if never edited
+ */
+export async function getCurrentPtiTemplate(
+  kind: PtiTemplateKind,
+  language: ChatLanguage,
+  chatId: number | null
+): Promise<PtiTemplate | null> {
+  try {
+    return await prisma.ptiTemplate.findFirst({
+      where: {
+        kind,
+        language,
+        chatId,
+      },
+      orderBy: { version: 'desc' },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching PTI template (${kind}/${language}/${chatId ?? 'global'}):`, error);
+    return null;
+  }
+}
+
+/**
+ * Save a new PTI template version (previous versions are kept for rollback).
+ *
+ * @param kind - Template kind (reminder / follow_up)
+ * @param language - Template language
+ * @param chatId - Chat.id for a per-chat override, or null for the global template
+ * @param body - Template text
+ * @param createdByTgUserId - Telegram user ID of the admin who saved it
+ * @returns Created version or null on error
+ */
+export async function savePtiTemplateVersion(
+  kind: PtiTemplateKind,
+  language: ChatLanguage,
+  chatId: number | null,
+  body: string,
+  createdByTgUserId?: bigint
+): Promise<PtiTemplate | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const latest = await tx.ptiTemplate.findFirst({
+        where: { kind, language, chatId },
+        orderBy: { version: 'desc' },
+      });
+
+      return tx.ptiTemplate.create({
+        data: {
+          kind,
+          language,
+          chatId,
+          version: (latest?.version ?? 0) + 1,
+          body,
+          createdByTgUserId: createdByTgUserId ?? null,
+        },
+      });
+    });
+  } catch (error) {
+    console.error(`❌ Error saving PTI template (${kind}/${language}/${chatId ?? 'global'}):`, error);
+    return null;
+  }
+}
+
+/**
+ * Get all stored event routing rules (oldest first).
+ *
+ * @returns Rules (empty array if none stored or on error)
+ */
+export async function getEventRules(): Promise<EventRule[]> {
+  try {
+    return await prisma.eventRule.findMany({
+      orderBy: { id: 'asc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching event rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a new event routing rule.
+ *
+ * When the table is still empty, `seedRules` (the built-in defaults) are
+ * stored first, so adding one rule does not drop the default behavior.
+ *
+ * @param rule - Rule fields
+ * @param seedRules - Rules to store first if no rules exist yet
+ * @returns Created rule or null on error
+ */
+export async function createEventRule(
+  rule: Prisma.EventRuleUncheckedCreateInput,
+  seedRules: Prisma.EventRuleUncheckedCreateInput[] = []
+): Promise<EventRule | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const existing = await tx.eventRule.count();
+      if (existing === 0 && seedRules.length) {
+        await tx.eventRule.createMany({ data: seedRules });
+      }
+      return tx.eventRule.create({ data: rule });
+    });
+  } catch (error) {
+    console.error('❌ Error creating event rule:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete an event routing rule.
+ *
+ * @param id - EventRule.id
+ * @returns Deleted rule or null if not found
+ */
+export async function deleteEventRule(id: number): Promise<EventRule | null> {
+  try {
+    const existing = await prisma.eventRule.findUnique({ where: { id } });
+    if (!existing) {
+      return null;
+    }
+    return await prisma.eventRule.delete({ where: { id } });
+  } catch (error) {
+    console.error(`❌ Error deleting event rule ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get a logged event by Samsara event ID (or speeding key).
+ *
+ * @param samsaraEventId - SafetyEventLog.samsaraEventId
+ * @returns Row or null if not found / on error
+ */
+export async function getSafetyEventLogBySamsaraEventId(samsaraEventId: string): Promise<SafetyEventLog | null> {
+  try {
+    return await prisma.safetyEventLog.findUnique({ where: { samsaraEventId } });
+  } catch (error) {
+    console.error(`❌ Error fetching safety event log ${samsaraEventId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get a safety event log row by ID.
+ *
+ * @param id - SafetyEventLog.id
+ * @returns Row or null if not found
+ */
+export async function getSafetyEventLogById(id: number): Promise<SafetyEventLog | null> {
+  try {
+    return await prisma.safetyEventLog.findUnique({ where: { id } });
+  } catch (error) {
+    console.error(`❌ Error fetching safety event log ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Remember which Telegram message carries the alert and who must acknowledge it.
+ *
+ * @param id - SafetyEventLog.id
+ * @param telegramMessageId - Alert message ID in sentToChatId
+ * @param driverTgUserId - Driver expected to acknowledge (null: no buttons, nobody to remind)
+ */
+export async function setSafetyEventAlertMessage(
+  id: number,
+  telegramMessageId: number,
+  driverTgUserId: bigint | null
+): Promise<SafetyEventLog | null> {
+  try {
+    return await prisma.safetyEventLog.update({
+      where: { id },
+      data: {
+        telegramMessageId,
+        driverTgUserId,
+        alertSentAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error saving alert message for safety event log ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store the driver's acknowledgment (first press wins).
+ *
+ * @param id - SafetyEventLog.id
+ * @param tgUserId - Telegram user ID who acknowledged
+ * @returns Updated row, or null if it was already acknowledged / not found
+ */
+export async function acknowledgeSafetyEvent(
+  id: number,
+  tgUserId: bigint
+): Promise<SafetyEventLog | null> {
+  try {
+    const result = await prisma.safetyEventLog.updateMany({
+      where: { id, acknowledgedAt: null },
+      data: {
+        acknowledgedAt: new Date(),
+        acknowledgedByTgUserId: tgUserId,
+      },
+    });
+    if (result.count === 0) {
+      return null;
+    }
+    return await prisma.safetyEventLog.findUnique({ where: { id } });
+  } catch (error) {
+    console.error(`❌ Error acknowledging safety event log ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get alerts with buttons that are still not acknowledged and not escalated,
+ * delivered at or before `sentBefore`.
+ *
+ * @param sentBefore - Latest alertSentAt to include
+ * @returns Rows ordered by alertSentAt (empty array on error)
+ */
+export async function getUnacknowledgedAlerts(sentBefore: Date): Promise<SafetyEventLog[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        acknowledgedAt: null,
+        ackEscalatedAt: null,
+        telegramMessageId: { not: null },
+        driverTgUserId: { not: null },
+        alertSentAt: { lte: sentBefore },
+      },
+      orderBy: { alertSentAt: 'asc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching unacknowledged alerts:', error);
+    return [];
+  }
+}
+
+/**
+ * Mark the acknowledgment reminder / escalation step as done.
+ *
+ * @param id - SafetyEventLog.id
+ * @param step - 'reminder' or 'escalation'
+ */
+export async function markAckStepDone(id: number, step: 'reminder' | 'escalation'): Promise<void> {
+  try {
+    await prisma.safetyEventLog.update({
+      where: { id },
+      data: step === 'reminder' ? { ackReminderSentAt: new Date() } : { ackEscalatedAt: new Date() },
+    });
+  } catch (error) {
+    console.error(`❌ Error marking ack ${step} for safety event log ${id}:`, error);
+  }
+}
+
+/**
+ * Get all logged events in [from, to), newest first (fleet dashboard).
+ *
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @returns Rows (empty array on error)
+ */
+export async function getSafetyEventLogsInRange(from: Date, to: Date): Promise<SafetyEventLog[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        timeLocal: { gte: from, lt: to },
+      },
+      orderBy: { timeLocal: 'desc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching safety events in range:', error);
+    return [];
+  }
+}
+
+/**
+ * Get events logged since `since` that were not delivered to any chat
+ * (no chat mapping for the vehicle), newest first (reconciliation report).
+ *
+ * @param since - Lower bound on createdAt
+ * @returns Rows (empty array on error)
+ */
+export async function getUndeliveredSafetyEvents(since: Date): Promise<SafetyEventLog[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        sentToChatId: null,
+        createdAt: { gte: since },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching undelivered safety events:', error);
+    return [];
+  }
+}
+
+export type SafetyEventLogDetails = SafetyEventLog & {
+  dispute: EventDispute | null;
+  coachingActions: CoachingAction[];
+};
+
+/**
+ * Get a safety event log row with its dispute and coaching actions.
+ *
+ * @param id - SafetyEventLog.id
+ * @returns Row or null if not found
+ */
+export async function getSafetyEventLogDetails(id: number): Promise<SafetyEventLogDetails | null> {
+  try {
+    return await prisma.safetyEventLog.findUnique({
+      where: { id },
+      include: {
+        dispute: true,
+        coachingActions: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching safety event log details ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get events that count for safety scores (not dismissed) in [from, to).
+ *
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @returns Rows (empty array on error)
+ */
+export async function getScorableSafetyEvents(from: Date, to: Date): Promise<SafetyEventLog[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        timeLocal: { gte: from, lt: to },
+        dismissedAt: null,
+      },
+      orderBy: { timeLocal: 'asc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching safety events for scoring:', error);
+    return [];
+  }
+}
+
+/**
+ * Get events sent to a chat in [from, to) that were not dismissed (digest).
+ *
+ * @param telegramChatId - Telegram chat ID the events were sent to
+ * @param from - Range start (inclusive)
+ * @param to - Range end (exclusive)
+ * @returns Rows (empty array on error)
+ */
+export async function getChatSafetyEventsInRange(
+  telegramChatId: bigint,
+  from: Date,
+  to: Date
+): Promise<SafetyEventLog[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        sentToChatId: telegramChatId,
+        timeLocal: { gte: from, lt: to },
+        dismissedAt: null,
+      },
+      orderBy: { timeLocal: 'asc' },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching safety events for chat ${telegramChatId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Get delivered safety events (not speeding intervals) that happened since `since`,
+ * for the coaching-state sync.
+ *
+ * @param since - Earliest event time to include
+ * @returns Rows with their dispute status, ordered by event time (empty array on error)
+ */
+export async function getSafetyEventLogsForCoachingSync(
+  since: Date
+): Promise<(SafetyEventLog & { dispute: { status: DisputeStatus } | null })[]> {
+  try {
+    return await prisma.safetyEventLog.findMany({
+      where: {
+        sentToChatId: { not: null },
+        timeLocal: { gte: since },
+        NOT: { samsaraEventId: { startsWith: 'speeding:' } },
+      },
+      include: { dispute: { select: { status: true } } },
+      orderBy: { timeLocal: 'asc' },
+    });
+  } catch (error) {
+    console.error('❌ Error fetching safety events for coaching sync:', error);
+    return [];
+  }
+}
+
+/**
+ * Store a new Samsara coaching state for a safety event.
+ *
+ * @param id - SafetyEventLog.id
+ * @param coachingState - New coachingState from Samsara
+ * @param dismissedAt - New dismissedAt: a date excludes the event from scores and fines,
+ *   null counts it again (dismissal reversed), undefined leaves it unchanged
+ * @returns Updated row, or null on error
+ */
+export async function updateSafetyEventCoachingState(
+  id: number,
+  coachingState: string,
+  dismissedAt?: Date | null
+): Promise<SafetyEventLog | null> {
+  try {
+    return await prisma.safetyEventLog.update({
+      where: { id },
+      data: {
+        coachingState,
+        coachingStateChangedAt: new Date(),
+        ...(dismissedAt !== undefined ? { dismissedAt } : {}),
+      },
+    });
+  } catch (error) {
+    console.error(`❌ Error updating coaching state for safety event log ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record a manager coaching action (Mark coached / Dismiss) for audit.
+ *
+ * @param data - Action row
+ */
+export async function recordCoachingAction(
+  data: Prisma.CoachingActionUncheckedCreateInput
+): Promise<void> {
+  try {
+    await prisma.coachingAction.create({ data });
+  } catch (error) {
+    console.error(`❌ Error recording coaching action for safety event log ${data.safetyEventLogId}:`, error);
+  }
+}
+
+export type EventDisputeWithLog = EventDispute & { safetyEventLog: SafetyEventLog };
+
+/**
+ * Start a dispute for a safety event (one dispute per event).
+ * Returns the existing dispute if the event was already disputed.
+ *
+ * @param safetyEventLogId - SafetyEventLog.id
+ * @param driverTgUserId - Driver who disputes
+ * @returns Dispute with its event, or null on error
+ */
+export async function createEventDispute(
+  safetyEventLogId: number,
+  driverTgUserId: bigint
+): Promise<EventDisputeWithLog | null> {
+  try {
+    return await prisma.eventDispute.upsert({
+      where: { safetyEventLogId },
+      update: {},
+      create: {
+        safetyEventLogId,
+        driverTgUserId,
+      },
+      include: { safetyEventLog: true },
+    });
+  } catch (error) {
+    console.error(`❌ Error creating dispute for safety event log ${safetyEventLogId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get a dispute by ID.
+ *
+ * @param id - EventDispute.id
+ * @returns Dispute with its event, or null if not found
+ */
+export async function getEventDispute(id: number): Promise<EventDisputeWithLog | null> {
+  try {
+    return await prisma.eventDispute.findUnique({
+      where: { id },
+      include: { safetyEventLog: true },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching dispute ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the dispute a driver is currently filling in (status "collecting").
+ *
+ * @param driverTgUserId - Driver's Telegram user ID
+ * @returns Latest collecting dispute or null
+ */
+export async function getCollectingDispute(driverTgUserId: bigint): Promise<EventDisputeWithLog | null> {
+  try {
+    return await prisma.eventDispute.findFirst({
+      where: { driverTgUserId, status: 'collecting' },
+      orderBy: { updatedAt: 'desc' },
+      include: { safetyEventLog: true },
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching collecting dispute for ${driverTgUserId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Update dispute fields (reason, evidence, status, manager message).
+ *
+ * @param id - EventDispute.id
+ * @param data - Fields to update
+ * @returns Updated dispute or null on error
+ */
+export async function updateEventDispute(
+  id: number,
+  data: Prisma.EventDisputeUpdateInput
+): Promise<EventDisputeWithLog | null> {
+  try {
+    return await prisma.eventDispute.update({
+      where: { id },
+      data,
+      include: { safetyEventLog: true },
+    });
+  } catch (error) {
+    console.error(`❌ Error updating dispute ${id}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Record the manager decision for a pending dispute.
+ * Approving dismisses the event (SafetyEventLog.dismissedAt).
+ *
+ * @param id - EventDispute.id
+ * @param approved - true = approve (dismiss event), false = reject
+ * @param decidedByTgUserId - Manager's Telegram user ID
+ * @returns Updated dispute, or null if it was not pending (already decided) / not found
+ */
+export async function decideEventDispute(
+  id: number,
+  approved: boolean,
+  decidedByTgUserId: bigint
+): Promise<EventDisputeWithLog | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const result = await tx.eventDispute.updateMany({
+        where: { id, status: 'pending' },
+        data: {
+          status: approved ? 'approved' : 'rejected',
+          decidedByTgUserId,
+          decidedAt: now,
+        },
+      });
+      if (result.count === 0) {
+        return null;
+      }
+
+      const dispute = await tx.eventDispute.findUniqueOrThrow({
+        where: { id },
+        include: { safetyEventLog: true },
+      });
+
+      if (approved) {
+        dispute.safetyEventLog = await tx.safetyEventLog.update({
+          where: { id: dispute.safetyEventLogId },
+          data: { dismissedAt: now },
+        });
+      }
+
+      return dispute;
+    });
+  } catch (error) {
+    console.error(`❌ Error deciding dispute ${id}:`, error);
+    return null;
+  }
 }
 
 // Export Prisma client for direct use if needed
@@ -1,4 +1,4 @@
-import axios from "axios";
+import { getSamsaraClient, SamsaraApiError, toSamsaraError } from "./services/samsaraClient";
 // dotenv is loaded in entrypoint (src/index.ts), no need to load here
 
 export interface SafetyEvent {
@@ -40,84 +40,90 @@ export interface SafetyEvent {
 }
 
 
+export type SafetyEventsResult = {
+  events: SafetyEvent[];
+  truncated: boolean; // More events than maxEvents (or pages) in the window - the rest was not fetched
+  pages: number;
+  error: SamsaraApiError | null; // Set when the API failed: events (if any) are incomplete, not "no events"
+};
+
+// Events per request; the window is paged with pagination.endCursor
+const SAFETY_EVENTS_PAGE_SIZE = 200;
+// Hard stop against a cursor that never ends
+const SAFETY_EVENTS_MAX_PAGES = 50;
+
+/**
+ * Default cap on events fetched for one window (SAMSARA_SAFETY_MAX_EVENTS, default 1000).
+ */
+export function getSafetyEventsMaxEvents(): number {
+  const value = parseInt(process.env.SAMSARA_SAFETY_MAX_EVENTS || '1000', 10);
+  return isNaN(value) || value <= 0 ? 1000 : value;
+}
+
 export async function getRecentSafetyEvents(
   lookbackMinutes: number = 60
 ): Promise<SafetyEvent[]> {
   const now = new Date();
   const since = new Date(now.getTime() - lookbackMinutes * 60 * 1000);
-  return getSafetyEventsInWindow({ from: since, to: now });
+  return (await getSafetyEventsInWindow({ from: since, to: now })).events;
 }
 
 /**
  * Fetch safety events for a custom time window.
- * Used by debug command and can be reused by cron if needed.
+ * Used by the safety cron, debug command, coaching sync and rule dry runs.
+ *
+ * Pages through Samsara results (pagination.endCursor / hasNextPage) until the window
+ * is exhausted or maxEvents is reached; `truncated` tells the caller events were left out.
  * 
- * @param window - Time window with from and to dates
- * @param limit - Maximum number of events to return (default: 100 for debug)
- * @returns Array of safety events
+ * @param window - Time window with from and to dates, optionally only some vehicles
+ * @param maxEvents - Maximum number of events to return (default: SAMSARA_SAFETY_MAX_EVENTS)
+ * @returns Events, truncation flag and number of pages fetched
  */
 export async function getSafetyEventsInWindow(
-  window: { from: Date; to: Date },
-  limit: number = 100
-): Promise<SafetyEvent[]> {
-  const token = process.env.SAM_SARA_API_TOKEN;
-
-  if (!token) {
-    console.error("❌ SAM_SARA_API_TOKEN is missing in .env");
-    return [];
-  }
+  window: { from: Date; to: Date; vehicleIds?: string[] },
+  maxEvents: number = getSafetyEventsMaxEvents()
+): Promise<SafetyEventsResult> {
+  const events: SafetyEvent[] = [];
+  let cursor: string | undefined;
+  let hasNextPage = true;
+  let pages = 0;
 
   try {
-    const res = await axios.get("https://api.samsara.com/fleet/safety-events", {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/json",
-      },
-      params: {
+    while (hasNextPage && events.length < maxEvents && pages < SAFETY_EVENTS_MAX_PAGES) {
+      const page = await getSamsaraClient().listSafetyEvents({
         startTime: window.from.toISOString(),
         endTime: window.to.toISOString(),
-        limit,
-      },
-    });
+        limit: Math.min(SAFETY_EVENTS_PAGE_SIZE, maxEvents - events.length),
+        after: cursor,
+        ...(window.vehicleIds?.length ? { vehicleIds: window.vehicleIds.join(',') } : {}),
+      });
+      pages++;
+
+      // Detailed debug logging for cron: show exact JSON shape from Samsara (first page only)
+      if (pages === 1 && page.data.length) {
+        console.log(
+          "[SAMSARA][SAFETY][RAW_SAMPLE_EVENT]",
+          JSON.stringify(page.data[0], null, 2),
+        );
+      }
 
-    const raw = res.data;
-
-    // Detailed debug logging for cron: show exact JSON shape from Samsara
-    try {
-      const keys =
-        raw && typeof raw === "object" ? Object.keys(raw) : ["<non-object>"];
-      console.log(
-        "[SAMSARA][SAFETY][RAW_RESPONSE_KEYS]",
-        JSON.stringify(keys),
-      );
-
-      const sampleEvent =
-        raw?.data?.[0] ??
-        raw?.safetyEvents?.[0] ??
-        (Array.isArray(raw) ? raw[0] : raw);
-
-      console.log(
-        "[SAMSARA][SAFETY][RAW_SAMPLE_EVENT]",
-        JSON.stringify(sampleEvent, null, 2),
-      );
-    } catch (logErr) {
-      console.log(
-        "[SAMSARA][SAFETY][RAW_LOG_ERROR]",
-        (logErr as any)?.message ?? logErr,
-      );
+      events.push(...page.data);
+      cursor = page.pagination?.endCursor || undefined;
+      hasNextPage = Boolean(page.pagination?.hasNextPage && cursor && page.data.length > 0);
     }
-
-    const events = raw?.data || raw?.safetyEvents || raw || [];
-
-    console.log(`🛰 Samsara returned ${events.length} events for window ${window.from.toISOString()} to ${window.to.toISOString()}`);
-    return events;
   } catch (err: any) {
-    console.error(
-      "❌ Error fetching safety events:",
-      err.response?.data || err.message
-    );
-    return [];
+    const error = toSamsaraError(err, "GET /fleet/safety-events");
+    console.error(`❌ Error fetching safety events (${error.kind}):`, error.message);
+    // Pages fetched before the error are still returned
+    return { events, truncated: events.length > 0, pages, error };
   }
+
+  const truncated = hasNextPage;
+  console.log(
+    `🛰 Samsara returned ${events.length} events in ${pages} page(s) for window ${window.from.toISOString()} to ${window.to.toISOString()}` +
+      (truncated ? ` (truncated at ${maxEvents} events / ${SAFETY_EVENTS_MAX_PAGES} pages)` : '')
+  );
+  return { events, truncated, pages, error: null };
 }
 
 /**
@@ -135,16 +141,10 @@ export async function getSafetyEventsInWindow(
 export async function fetchSafetyEventMedia(
   event: { vehicle?: { id?: string }; time?: string; occurredAt?: string; id?: string }
 ): Promise<{ videoUrl?: string }> {
-  const token = process.env.SAM_SARA_API_TOKEN;
   const eventId = event.id || 'unknown';
   const vehicleId = event.vehicle?.id;
   const eventTime = event.time || event.occurredAt;
 
-  if (!token) {
-    console.error(`[MEDIA_LOOKUP] eventId=${eventId} - SAM_SARA_API_TOKEN missing`);
-    return {};
-  }
-
   if (!vehicleId || !eventTime) {
     console.log(`[MEDIA_LOOKUP] eventId=${eventId} - Missing vehicle.id or time, skipping lookup`);
     return {};
@@ -158,21 +158,13 @@ export async function fetchSafetyEventMedia(
 
     console.log(`[MEDIA_LOOKUP] eventId=${eventId} window=±5min (${windowStart.toISOString()} to ${windowEnd.toISOString()})`);
 
-    const res = await axios.get("https://api.samsara.com/fleet/safety-events", {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: "application/json",
-      },
-      params: {
-        startTime: windowStart.toISOString(),
-        endTime: windowEnd.toISOString(),
-        vehicleIds: vehicleId,
-        limit: 100, // Should be enough to find the event
-      },
+    const { data: events } = await getSamsaraClient().listSafetyEvents({
+      startTime: windowStart.toISOString(),
+      endTime: windowEnd.toISOString(),
+      vehicleIds: vehicleId,
+      limit: 100, // Should be enough to find the event
     });
 
-    const events = res.data?.data || res.data?.safetyEvents || res.data || [];
-
     // Find the matching event by ID (if available) or by time proximity
     let matchedEvent: SafetyEvent | null = null;
     
@@ -219,10 +211,8 @@ export async function fetchSafetyEventMedia(
       return {};
     }
   } catch (err: any) {
-    console.error(
-      `[MEDIA_LOOKUP] eventId=${eventId} - Error during lookup:`,
-      err.response?.data || err.message
-    );
+    const error = toSamsaraError(err, "GET /fleet/safety-events");
+    console.error(`[MEDIA_LOOKUP] eventId=${eventId} - Error during lookup (${error.kind}):`, error.message);
     return {};
   }
 }
\ No newline at end of file
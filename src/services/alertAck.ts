@@ -0,0 +1,270 @@
+import { Context, Markup, Telegram } from 'telegraf';
+import { InlineKeyboardButton, InlineKeyboardMarkup } from 'telegraf/types';
+import { Chat, SafetyEventLog } from '@prisma/client';
+import { ackMessages, buildDriverMention, LanguageCode } from '../messages';
+import {
+  acknowledgeSafetyEvent,
+  findChatByTelegramChatId,
+  getSafetyEventLogById,
+  getUnacknowledgedAlerts,
+  markAckStepDone,
+  setSafetyEventAlertMessage,
+} from '../repository';
+import { startDispute } from './disputes';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Driver acknowledgment of safety / speeding alerts.
+ *
+ * Every alert sent to a chat with an assigned driver gets two buttons
+ * ("Acknowledged", "Dispute") that only that driver can press. Safety events
+ * also get manager buttons ("Mark coached", "Dismiss"). If nobody
+ * presses them:
+ * 1. after ACK_REMIND_AFTER_MINUTES the driver is re-mentioned under the alert
+ * 2. after ACK_ESCALATE_AFTER_MINUTES the manager chat is notified
+ * "Dispute" also starts the dispute workflow in the driver's DM (disputes.ts).
+ */
+
+const ACK_REMIND_AFTER_MINUTES = parseInt(process.env.ACK_REMIND_AFTER_MINUTES || '30', 10);
+const ACK_ESCALATE_AFTER_MINUTES = parseInt(process.env.ACK_ESCALATE_AFTER_MINUTES || '120', 10);
+
+function getLanguage(chat: Chat | null): LanguageCode {
+  return chat && chat.language in ackMessages ? (chat.language as LanguageCode) : 'en';
+}
+
+/**
+ * "Acknowledged" / "Dispute" buttons for an alert (assigned driver only).
+ */
+export function buildAckRow(logId: number, language: LanguageCode): InlineKeyboardButton[] {
+  const t = ackMessages[language];
+  return [
+    Markup.button.callback(t.acknowledgeButton, `ack:${logId}`),
+    Markup.button.callback(t.disputeButton, `dispute:${logId}`),
+  ];
+}
+
+/**
+ * "Mark coached" / "Dismiss" buttons for an alert (safety managers only, see coachingActions.ts).
+ */
+export function buildCoachingRow(logId: number): InlineKeyboardButton[] {
+  return [
+    Markup.button.callback('🎓 Mark coached', `cm:coached:${logId}`),
+    Markup.button.callback('🚫 Dismiss', `cm:dismissed:${logId}`),
+  ];
+}
+
+/**
+ * Replace the keyboard row whose buttons start with one of `prefixes`, keeping the other rows.
+ *
+ * @param markup - Current keyboard of the alert message
+ * @param prefixes - Callback data prefixes of the row to replace (e.g. ["ack:", "dispute:"])
+ * @param row - New row
+ */
+export function replaceKeyboardRow(
+  markup: InlineKeyboardMarkup | undefined,
+  prefixes: string[],
+  row: InlineKeyboardButton[]
+): InlineKeyboardMarkup {
+  const rows = markup?.inline_keyboard ?? [];
+  const matches = (button: InlineKeyboardButton) =>
+    'callback_data' in button && prefixes.some((p) => button.callback_data.startsWith(p));
+  const index = rows.findIndex((r) => r.some(matches));
+  return {
+    inline_keyboard: index === -1 ? [...rows, row] : rows.map((r, i) => (i === index ? row : r)),
+  };
+}
+
+/**
+ * Attach alert buttons to a delivered alert and remember the message:
+ * - "Acknowledged" / "Dispute" if the chat has an assigned driver
+ * - "Mark coached" / "Dismiss" for Samsara safety events (not speeding intervals)
+ *
+ * @param telegram - Telegram API instance
+ * @param chat - Destination chat
+ * @param log - SafetyEventLog row of the alert
+ * @param messageId - Telegram message ID of the alert
+ */
+export async function attachAlertButtons(
+  telegram: Telegram,
+  chat: Chat,
+  log: SafetyEventLog,
+  messageId: number
+): Promise<void> {
+  const rows: InlineKeyboardButton[][] = [];
+  if (chat.driverTgUserId) {
+    rows.push(buildAckRow(log.id, getLanguage(chat)));
+  }
+  if (!log.samsaraEventId.startsWith('speeding:')) {
+    rows.push(buildCoachingRow(log.id));
+  }
+
+  try {
+    if (rows.length) {
+      await telegram.editMessageReplyMarkup(Number(chat.telegramChatId), messageId, undefined, {
+        inline_keyboard: rows,
+      });
+    }
+    await setSafetyEventAlertMessage(log.id, messageId, chat.driverTgUserId);
+  } catch (err: any) {
+    console.error(
+      `❌ [ACK] Failed to attach buttons to alert ${log.samsaraEventId} (messageId=${messageId}):`,
+      err.response?.description || err.message
+    );
+  }
+}
+
+/**
+ * Format a time in the chat timezone ("3:45 PM").
+ */
+function formatAckTime(date: Date, chat: Chat | null): string {
+  return date.toLocaleTimeString('en-US', {
+    timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Link to a message in a supergroup (t.me/c/...), or null for other chats.
+ */
+function buildMessageLink(telegramChatId: bigint, messageId: number): string | null {
+  const id = telegramChatId.toString();
+  return id.startsWith('-100') ? `https://t.me/c/${id.slice(4)}/${messageId}` : null;
+}
+
+/**
+ * Callback handler for "ack:<logId>" and "dispute:<logId>" buttons.
+ *
+ * @param ctx - Telegraf context (callback query)
+ */
+export async function handleAlertAckCallback(ctx: Context): Promise<void> {
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+  const [action, idStr] = data.split(':');
+  const logId = parseInt(idStr, 10);
+
+  if (isNaN(logId) || !ctx.from) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const log = await getSafetyEventLogById(logId);
+  if (!log) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const chat = log.sentToChatId ? await findChatByTelegramChatId(log.sentToChatId) : null;
+  const t = ackMessages[getLanguage(chat)];
+
+  if (!log.driverTgUserId || log.driverTgUserId !== BigInt(ctx.from.id)) {
+    await ctx.answerCbQuery(t.onlyDriver, { show_alert: true });
+    return;
+  }
+
+  const acknowledged = await acknowledgeSafetyEvent(log.id, BigInt(ctx.from.id));
+  if (!acknowledged) {
+    await ctx.answerCbQuery(t.alreadyAcknowledged);
+    return;
+  }
+
+  const time = formatAckTime(acknowledged.acknowledgedAt ?? new Date(), chat);
+  const label = action === 'dispute' ? t.disputed(time) : t.acknowledged(time);
+  console.log(`✅ [ACK] ${action} for alert ${log.samsaraEventId} by ${ctx.from.id}`);
+
+  try {
+    const message = ctx.callbackQuery?.message;
+    const current = message && 'reply_markup' in message ? message.reply_markup : undefined;
+    await ctx.editMessageReplyMarkup(
+      replaceKeyboardRow(current, ['ack:', 'dispute:'], [Markup.button.callback(label, 'ack:done')])
+    );
+  } catch (err: any) {
+    console.warn(`⚠️ [ACK] Failed to update buttons for alert ${log.samsaraEventId}:`, err.message);
+  }
+
+  if (action === 'dispute') {
+    // Reason and evidence are collected in the driver's DM (see disputes.ts)
+    await startDispute(ctx, acknowledged, chat);
+    return;
+  }
+
+  await ctx.answerCbQuery(t.thanks);
+}
+
+/**
+ * Re-mention drivers and escalate alerts that were not acknowledged in time.
+ * Runs every minute from the cron in index.ts.
+ *
+ * @param telegram - Telegram API instance
+ * @param managerChatId - Safety-manager chat ID (SAFETY_MANAGER_CHAT_ID)
+ * @param now - Current time (injectable for testing)
+ */
+export async function runAckEscalationTick(
+  telegram: Telegram,
+  managerChatId: number | null,
+  now: Date = new Date()
+): Promise<void> {
+  const remindBefore = new Date(now.getTime() - ACK_REMIND_AFTER_MINUTES * 60 * 1000);
+  const pending = await getUnacknowledgedAlerts(remindBefore);
+
+  for (const log of pending) {
+    if (!log.sentToChatId || !log.telegramMessageId || !log.alertSentAt) continue;
+
+    const chat = await findChatByTelegramChatId(log.sentToChatId);
+    const ageMinutes = (now.getTime() - log.alertSentAt.getTime()) / (60 * 1000);
+
+    // Step 1: re-mention the driver under the alert
+    if (!log.ackReminderSentAt) {
+      const t = ackMessages[getLanguage(chat)];
+      const mention = chat ? buildDriverMention(chat) : '';
+      try {
+        await telegram.sendMessage(
+          Number(log.sentToChatId),
+          mention ? `${mention}\n\n${t.reminder}` : t.reminder,
+          {
+            parse_mode: 'Markdown',
+            reply_parameters: { message_id: log.telegramMessageId, allow_sending_without_reply: true },
+          }
+        );
+        console.log(`⏰ [ACK] Reminder sent for alert ${log.samsaraEventId}`);
+      } catch (err: any) {
+        console.error(
+          `❌ [ACK] Failed to send reminder for alert ${log.samsaraEventId}:`,
+          err.response?.description || err.message
+        );
+      }
+      await markAckStepDone(log.id, 'reminder');
+      continue;
+    }
+
+    // Step 2: notify the manager chat
+    if (ageMinutes >= ACK_ESCALATE_AFTER_MINUTES) {
+      if (managerChatId) {
+        const driver =
+          [chat?.driverFirstName, chat?.driverLastName].filter(Boolean).join(' ') ||
+          (chat?.driverUsername ? `@${chat.driverUsername}` : `id ${log.driverTgUserId}`);
+        const link = buildMessageLink(log.sentToChatId, log.telegramMessageId);
+        try {
+          await telegram.sendMessage(
+            managerChatId,
+            `🚩 Safety alert not acknowledged after ${Math.round(ageMinutes)} min\n` +
+              `Truck: ${log.vehicleName}\n` +
+              `Behavior: ${log.behavior}\n` +
+              `Group: ${chat?.name ?? log.sentToChatId}\n` +
+              `Driver: ${driver}` +
+              (link ? `\n${link}` : ''),
+            { link_preview_options: { is_disabled: true } }
+          );
+          console.log(`🚩 [ACK] Escalated alert ${log.samsaraEventId} to manager chat`);
+        } catch (err: any) {
+          console.error(
+            `❌ [ACK] Failed to escalate alert ${log.samsaraEventId}:`,
+            err.response?.description || err.message
+          );
+        }
+      } else {
+        console.warn(`⚠️ [ACK] SAFETY_MANAGER_CHAT_ID is not set, alert ${log.samsaraEventId} not escalated`);
+      }
+      await markAckStepDone(log.id, 'escalation');
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Chat } from '@prisma/client';
+import { alertMessages, catchUpMessages, getAlertLocale, translateBehaviorLabel } from '../messages';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Poll cursors and catch-up after downtime.
+ *
+ * Each polled source ("safety", "speeding") stores the end of its last fully processed
+ * window (PollCursor). After a restart or an outage the safety poll walks from the cursor
+ * to the live window in CATCHUP_CHUNK_MINUTES chunks (at most CATCHUP_MAX_CHUNKS_PER_RUN
+ * per cron run, never further back than CATCHUP_MAX_HOURS).
+ *
+ * Events older than CATCHUP_OLD_EVENT_HOURS follow CATCHUP_OLD_EVENT_POLICY:
+ * - deliver: normal alerts;
+ * - summarize: one summary message per group, events logged and archived;
+ * - archive: logged and archived, nothing sent.
+ */
+
+export type PollWindow = { from: Date; to: Date };
+
+export type OldEventPolicy = 'deliver' | 'summarize' | 'archive';
+
+export type CatchUpItem = {
+  eventId: string;
+  time: Date;
+  vehicleName: string;
+  behavior: string;
+  record: () => Promise<void>; // Log + archive the event once the summary is queued
+};
+
+// Old events collected during one run, by Telegram chat ID
+export type CatchUpBatch = Map<string, { chat: Chat; items: CatchUpItem[] }>;
+
+const MAX_SUMMARY_LINES = 30;
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+export function getOldEventPolicy(): OldEventPolicy {
+  const value = (process.env.CATCHUP_OLD_EVENT_POLICY || 'summarize').toLowerCase();
+  return value === 'deliver' || value === 'archive' ? value : 'summarize';
+}
+
+/**
+ * Whether an event is too old for its own alert (CATCHUP_OLD_EVENT_HOURS, default 2).
+ *
+ * @param time - Event time (ISO); events without a time are never old
+ * @param now - Current time
+ */
+export function isOldEvent(time: string | undefined, now: Date): boolean {
+  if (!time) {
+    return false;
+  }
+  const ageMs = now.getTime() - new Date(time).getTime();
+  return ageMs > readIntEnv('CATCHUP_OLD_EVENT_HOURS', 2) * 60 * 60 * 1000;
+}
+
+/**
+ * Earliest time a catch-up may start from (CATCHUP_MAX_HOURS, default 48).
+ */
+export function getCatchUpFloor(now: Date): Date {
+  return new Date(now.getTime() - readIntEnv('CATCHUP_MAX_HOURS', 48) * 60 * 60 * 1000);
+}
+
+/**
+ * Where a catch-up from a stored cursor starts (the cursor, not before CATCHUP_MAX_HOURS).
+ *
+ * @returns null when the source was never polled
+ */
+export function getCatchUpStart(cursor: Date | null, now: Date): Date | null {
+  if (!cursor) {
+    return null;
+  }
+  const floor = getCatchUpFloor(now);
+  return cursor < floor ? floor : cursor;
+}
+
+/**
+ * Windows to poll in this run.
+ *
+ * The live window (last `lookbackMinutes`) is always polled. When the cursor is older
+ * than the live window, catch-up chunks from the cursor come first; `complete` is false
+ * while chunks remain for the next runs (the cursor must then stop at the last chunk).
+ *
+ * @param cursor - Stored cursor (null on first run)
+ * @param now - Current time
+ * @param lookbackMinutes - Live window length
+ */
+export function planPollWindows(
+  cursor: Date | null,
+  now: Date,
+  lookbackMinutes: number
+): { catchUp: PollWindow[]; live: PollWindow; complete: boolean } {
+  const live = { from: new Date(now.getTime() - lookbackMinutes * 60 * 1000), to: now };
+  if (!cursor || cursor >= live.from) {
+    return { catchUp: [], live, complete: true };
+  }
+
+  const chunkMs = readIntEnv('CATCHUP_CHUNK_MINUTES', 60) * 60 * 1000;
+  const maxChunks = readIntEnv('CATCHUP_MAX_CHUNKS_PER_RUN', 6);
+  const catchUp: PollWindow[] = [];
+  let from = getCatchUpStart(cursor, now) as Date;
+  while (from < live.from && catchUp.length < maxChunks) {
+    const to = new Date(Math.min(from.getTime() + chunkMs, live.from.getTime()));
+    catchUp.push({ from, to });
+    from = to;
+  }
+  return { catchUp, live, complete: from >= live.from };
+}
+
+/**
+ * Add an old event to the per-chat summary batch.
+ */
+export function addCatchUpItem(batch: CatchUpBatch, chat: Chat, item: CatchUpItem): void {
+  const key = chat.telegramChatId.toString();
+  const entry = batch.get(key) ?? { chat, items: [] };
+  entry.items.push(item);
+  batch.set(key, entry);
+}
+
+/**
+ * Summary message for a group (chat language and timezone), oldest event first.
+ */
+export function buildCatchUpSummary(chat: Chat, items: CatchUpItem[]): string {
+  const locale = getAlertLocale(chat);
+  const t = catchUpMessages[locale.language];
+  const a = alertMessages[locale.language];
+  const sorted = [...items].sort((x, y) => x.time.getTime() - y.time.getTime());
+
+  const lines = [t.title(items.length), ''];
+  for (const item of sorted.slice(0, MAX_SUMMARY_LINES)) {
+    const time = item.time.toLocaleString(a.dateLocale, {
+      timeZone: chat.timezone || DEFAULT_TIMEZONE,
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: a.hour12,
+    });
+    const behavior = item.behavior
+      .split(',')
+      .map((l) => translateBehaviorLabel(l.trim(), locale.language))
+      .join(', ');
+    lines.push(`• ${time} — ${item.vehicleName} — ${behavior}`);
+  }
+  if (sorted.length > MAX_SUMMARY_LINES) {
+    lines.push(t.more(sorted.length - MAX_SUMMARY_LINES));
+  }
+  return lines.join('\n');
+}
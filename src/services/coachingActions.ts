@@ -0,0 +1,109 @@
+import { Context, Markup } from 'telegraf';
+import { isSafetyManager } from '../guards/isAdmin';
+import {
+  findChatByTelegramChatId,
+  getSafetyEventLogById,
+  recordCoachingAction,
+  updateSafetyEventCoachingState,
+} from '../repository';
+import { buildCoachingNotice } from './coachingSync';
+import { replaceKeyboardRow } from './alertAck';
+import { getSamsaraClient, SafetyEventCoachingState } from './samsaraClient';
+
+/**
+ * Manager coaching buttons on alerts ("Mark coached" / "Dismiss").
+ *
+ * The new state is pushed to Samsara first; only if Samsara accepts it the
+ * event is updated locally (coachingState, dismissedAt) and the group is told.
+ * Every press is stored in coaching_actions (who, when, Samsara result).
+ */
+
+/**
+ * Callback handler for "cm:coached:<logId>" and "cm:dismissed:<logId>" buttons.
+ *
+ * @param ctx - Telegraf context (callback query)
+ */
+export async function handleCoachingCallback(ctx: Context): Promise<void> {
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+  const [, action, idStr] = data.split(':');
+  const logId = parseInt(idStr, 10);
+
+  if (!ctx.from || isNaN(logId) || (action !== 'coached' && action !== 'dismissed')) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  if (!isSafetyManager(ctx.from.id)) {
+    await ctx.answerCbQuery('Only safety managers can coach or dismiss events.', { show_alert: true });
+    return;
+  }
+
+  const log = await getSafetyEventLogById(logId);
+  if (!log) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const state: SafetyEventCoachingState = action;
+  const who = ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name;
+  const message = ctx.callbackQuery?.message;
+  const currentMarkup = message && 'reply_markup' in message ? message.reply_markup : undefined;
+  const setDoneRow = async (label: string) => {
+    try {
+      await ctx.editMessageReplyMarkup(
+        replaceKeyboardRow(currentMarkup, ['cm:'], [Markup.button.callback(label, 'cm:done:0')])
+      );
+    } catch (err: any) {
+      console.warn(`⚠️ [COACHING] Failed to update buttons for alert ${log.samsaraEventId}:`, err.message);
+    }
+  };
+
+  if (log.coachingState === 'coached' || log.coachingState === 'dismissed') {
+    await setDoneRow(log.coachingState === 'coached' ? '🎓 Coached' : '🚫 Dismissed');
+    await ctx.answerCbQuery(`Already ${log.coachingState} in Samsara.`);
+    return;
+  }
+
+  const result = await getSamsaraClient().updateSafetyEventCoachingState(log.samsaraEventId, state);
+
+  await recordCoachingAction({
+    safetyEventLogId: log.id,
+    action: state,
+    tgUserId: BigInt(ctx.from.id),
+    tgUsername: ctx.from.username ?? null,
+    samsaraSynced: result.ok,
+    error: result.ok ? null : result.error,
+  });
+
+  if (!result.ok) {
+    await ctx.answerCbQuery(`❌ Samsara update failed: ${result.error}`.slice(0, 200), { show_alert: true });
+    return;
+  }
+
+  await updateSafetyEventCoachingState(
+    log.id,
+    state,
+    state === 'dismissed' && !log.dismissedAt ? new Date() : undefined
+  );
+  console.log(`🎓 [COACHING] ${log.samsaraEventId} marked ${state} by ${ctx.from.id}`);
+
+  await setDoneRow(`${state === 'coached' ? '🎓 Coached' : '🚫 Dismissed'} by ${who}`);
+  await ctx.answerCbQuery(state === 'coached' ? 'Marked as coached in Samsara.' : 'Dismissed in Samsara.');
+
+  // The coaching sync will not see this transition (state is already stored), so tell the group here
+  if (log.sentToChatId) {
+    const chat = await findChatByTelegramChatId(log.sentToChatId);
+    try {
+      await ctx.telegram.sendMessage(Number(log.sentToChatId), buildCoachingNotice(log, state, chat), {
+        ...(log.telegramMessageId
+          ? { reply_parameters: { message_id: log.telegramMessageId, allow_sending_without_reply: true } }
+          : {}),
+      });
+    } catch (err: any) {
+      console.error(
+        `❌ [COACHING] Failed to post coaching state for ${log.samsaraEventId}:`,
+        err.response?.description || err.message
+      );
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { Telegram } from 'telegraf';
+import { Chat, SafetyEventLog } from '@prisma/client';
+import { getSafetyEventsInWindow } from '../samsara';
+import { SamsaraApiError } from './samsaraClient';
+import { coachingMessages, LanguageCode, translateBehaviorLabel } from '../messages';
+import {
+  findChatByTelegramChatId,
+  getSafetyEventLogsForCoachingSync,
+  updateSafetyEventCoachingState,
+} from '../repository';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Samsara coaching-state sync.
+ *
+ * Re-fetches safety events that were already sent to Telegram and compares
+ * their coachingState with the stored one (needsReview -> coached -> dismissed).
+ * Only the logged events are queried: batches narrowed to their time span and vehicles.
+ * Every transition is posted as a reply to the original alert; "dismissed"
+ * also marks the event dismissed so it no longer counts for the driver, and
+ * leaving "dismissed" counts it again (unless a driver dispute was approved).
+ */
+
+const COACHING_SYNC_LOOKBACK_DAYS = parseInt(process.env.COACHING_SYNC_LOOKBACK_DAYS || '7', 10);
+const COACHING_SYNC_BATCH_SIZE = 50; // Logged events per Samsara request
+
+// States worth announcing even when the previous state is unknown (events logged before the sync existed)
+const FINAL_STATES = new Set(['coached', 'autoCoached', 'dismissed']);
+
+function getLanguage(chat: Chat | null): LanguageCode {
+  return chat && chat.language in coachingMessages ? (chat.language as LanguageCode) : 'en';
+}
+
+/**
+ * Human-readable coaching state ("needsReview" -> "needs review" if not translated).
+ */
+function formatCoachingState(state: string, language: LanguageCode): string {
+  return coachingMessages[language].states[state] ?? state.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/**
+ * Build the localized transition notice for a chat.
+ */
+export function buildCoachingNotice(log: SafetyEventLog, state: string, chat: Chat | null): string {
+  const language = getLanguage(chat);
+  const t = coachingMessages[language];
+  const behavior = log.behavior
+    .split(',')
+    .map((l) => translateBehaviorLabel(l.trim(), language))
+    .join(', ');
+  const time = log.timeLocal.toLocaleString('en-US', {
+    timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+  return state === 'dismissed'
+    ? t.dismissed(behavior, time)
+    : t.stateChanged(behavior, time, formatCoachingState(state, language));
+}
+
+function getLogVehicleId(log: SafetyEventLog): string | null {
+  const raw = log.rawJson as { vehicle?: { id?: string } } | null;
+  return raw?.vehicle?.id ? String(raw.vehicle.id) : null;
+}
+
+/**
+ * Fetch the current coaching states of a batch of logged events into `states`.
+ * The request covers the batch's time span and vehicles only; a truncated
+ * result is split in two and fetched again, so no event is left unchecked.
+ *
+ * @returns Samsara error (the sync should be retried), or null
+ */
+async function fetchCoachingStates(
+  logs: SafetyEventLog[],
+  states: Map<string, string>
+): Promise<SamsaraApiError | null> {
+  const vehicleIds = logs.map(getLogVehicleId);
+  const from = new Date(logs[0].timeLocal.getTime() - 60 * 1000);
+  const to = new Date(logs[logs.length - 1].timeLocal.getTime() + 60 * 1000);
+
+  const { events, truncated, error } = await getSafetyEventsInWindow({
+    from,
+    to,
+    // Events logged without a vehicle ID: all vehicles in the time span
+    vehicleIds: vehicleIds.every(Boolean) ? Array.from(new Set(vehicleIds as string[])) : undefined,
+  });
+  if (error) {
+    return error;
+  }
+  for (const ev of events) {
+    if (ev.id && ev.coachingState) {
+      states.set(ev.id, ev.coachingState as string);
+    }
+  }
+
+  if (truncated) {
+    if (logs.length === 1) {
+      console.warn(`⚠️ [COACHING] Samsara results truncated, state of ${logs[0].samsaraEventId} not checked`);
+      return null;
+    }
+    const middle = Math.ceil(logs.length / 2);
+    return (
+      (await fetchCoachingStates(logs.slice(0, middle), states)) ??
+      (await fetchCoachingStates(logs.slice(middle), states))
+    );
+  }
+  return null;
+}
+
+/**
+ * Detect coaching-state transitions of recently sent safety events and post them to Telegram.
+ * Runs from the cron in index.ts.
+ *
+ * @param telegram - Telegram API instance
+ * @param now - Current time (injectable for testing)
+ * @returns Number of transitions found
+ */
+export async function runCoachingSyncTick(telegram: Telegram, now: Date = new Date()): Promise<number> {
+  const since = new Date(now.getTime() - COACHING_SYNC_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const logs = await getSafetyEventLogsForCoachingSync(since);
+  if (!logs.length) {
+    return 0;
+  }
+
+  // One request per batch of logged events (sorted by time) instead of one per event
+  const statesById = new Map<string, string>();
+  for (let i = 0; i < logs.length; i += COACHING_SYNC_BATCH_SIZE) {
+    const error = await fetchCoachingStates(logs.slice(i, i + COACHING_SYNC_BATCH_SIZE), statesById);
+    if (error) {
+      // Not the same as "no state changes": the next run retries
+      console.error(`❌ [COACHING] Samsara ${error.kind} error, sync skipped: ${error.message}`);
+      return 0;
+    }
+  }
+
+  let transitions = 0;
+  for (const log of logs) {
+    const state = statesById.get(log.samsaraEventId);
+    if (!state || state === log.coachingState) continue;
+
+    const previous = log.coachingState;
+    let dismissedAt: Date | null | undefined;
+    if (state === 'dismissed' && !log.dismissedAt) {
+      dismissedAt = new Date();
+    } else if (state !== 'dismissed' && log.dismissedAt && log.dispute?.status !== 'approved') {
+      dismissedAt = null; // Dismissal reversed in Samsara: the event counts again
+    }
+    const updated = await updateSafetyEventCoachingState(log.id, state, dismissedAt);
+    if (!updated) continue;
+
+    transitions++;
+    console.log(
+      `📋 [COACHING] ${log.samsaraEventId} (${log.vehicleName}): ${previous ?? 'unknown'} -> ${state}`
+    );
+
+    // First sight of an event logged before coachingState was stored: only announce final states
+    if (previous === null && !FINAL_STATES.has(state)) continue;
+
+    const chat = await findChatByTelegramChatId(log.sentToChatId!);
+    try {
+      await telegram.sendMessage(Number(log.sentToChatId), buildCoachingNotice(log, state, chat), {
+        ...(log.telegramMessageId
+          ? { reply_parameters: { message_id: log.telegramMessageId, allow_sending_without_reply: true } }
+          : {}),
+      });
+    } catch (err: any) {
+      console.error(
+        `❌ [COACHING] Failed to post coaching state for ${log.samsaraEventId}:`,
+        err.response?.description || err.message
+      );
+    }
+  }
+
+  if (transitions) {
+    console.log(`📋 [COACHING] ${transitions} coaching state change(s) synced`);
+  }
+  return transitions;
+}
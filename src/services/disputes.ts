@@ -0,0 +1,310 @@
+import { Context, Markup, Telegram } from 'telegraf';
+import { Chat, SafetyEventLog } from '@prisma/client';
+import { disputeMessages, LanguageCode } from '../messages';
+import {
+  createEventDispute,
+  decideEventDispute,
+  EventDisputeWithLog,
+  findChatByTelegramChatId,
+  getCollectingDispute,
+  getEventDispute,
+  updateEventDispute,
+} from '../repository';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Driver dispute workflow.
+ *
+ * 1. Driver presses "Dispute" under an alert -> dispute is created (status "collecting")
+ *    and the bot asks for the reason in a private DM (deep link /start dispute_<id>
+ *    if the bot cannot write to the driver first)
+ * 2. Driver sends a reason, then an optional photo or voice note
+ * 3. The package goes to the safety-manager chat with Approve / Reject buttons (status "pending")
+ * 4. Approve dismisses the event (SafetyEventLog.dismissedAt), the driver is notified either way
+ */
+
+// Telegram caption limit is 1024 chars
+const MAX_CAPTION_LENGTH = 1000;
+
+function getLanguage(chat: Chat | null): LanguageCode {
+  return chat && chat.language in disputeMessages ? (chat.language as LanguageCode) : 'en';
+}
+
+/**
+ * Format the event time in the chat timezone ("Dec 13, 6:30 PM").
+ */
+function formatEventTime(log: SafetyEventLog, chat: Chat | null): string {
+  return log.timeLocal.toLocaleString('en-US', {
+    timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+async function getEventChat(log: SafetyEventLog): Promise<Chat | null> {
+  return log.sentToChatId ? findChatByTelegramChatId(log.sentToChatId) : null;
+}
+
+/**
+ * Ask the driver for the dispute reason in a private chat.
+ */
+async function askReason(telegram: Telegram, dispute: EventDisputeWithLog, chat: Chat | null): Promise<void> {
+  const t = disputeMessages[getLanguage(chat)];
+  const log = dispute.safetyEventLog;
+  await telegram.sendMessage(
+    Number(dispute.driverTgUserId),
+    t.askReason(log.vehicleName, log.behavior, formatEventTime(log, chat))
+  );
+}
+
+/**
+ * Start a dispute from the "Dispute" alert button (answers the callback query).
+ *
+ * @param ctx - Telegraf context (callback query from the driver)
+ * @param log - Disputed SafetyEventLog row
+ * @param chat - Chat the alert was sent to
+ */
+export async function startDispute(ctx: Context, log: SafetyEventLog, chat: Chat | null): Promise<void> {
+  const t = disputeMessages[getLanguage(chat)];
+  const dispute = ctx.from ? await createEventDispute(log.id, BigInt(ctx.from.id)) : null;
+  if (!dispute) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  console.log(`⚠️ [DISPUTE] Dispute #${dispute.id} started for alert ${log.samsaraEventId}`);
+
+  try {
+    await askReason(ctx.telegram, dispute, chat);
+    await ctx.answerCbQuery(t.openDm);
+  } catch {
+    // The bot cannot start a private chat with a user; open it via deep link
+    await ctx.answerCbQuery(t.openDm, {
+      url: `https://t.me/${ctx.botInfo.username}?start=dispute_${dispute.id}`,
+    });
+  }
+}
+
+/**
+ * Send the dispute package to the safety-manager chat with Approve / Reject buttons.
+ */
+async function submitDispute(
+  telegram: Telegram,
+  dispute: EventDisputeWithLog,
+  managerChatId: number | null
+): Promise<void> {
+  const log = dispute.safetyEventLog;
+  const chat = await getEventChat(log);
+  const driver =
+    [chat?.driverFirstName, chat?.driverLastName].filter(Boolean).join(' ') ||
+    (chat?.driverUsername ? `@${chat.driverUsername}` : '');
+
+  const text =
+    `⚠️ Dispute #${dispute.id}\n` +
+    `Truck: ${log.vehicleName}\n` +
+    `Behavior: ${log.behavior}\n` +
+    `Time: ${formatEventTime(log, chat)}\n` +
+    `Group: ${chat?.name ?? log.sentToChatId}\n` +
+    `Driver: ${driver ? `${driver} ` : ''}(id ${dispute.driverTgUserId})\n\n` +
+    `Reason: ${dispute.reason ?? '-'}`;
+
+  const keyboard = Markup.inlineKeyboard([
+    [
+      Markup.button.callback('✅ Approve (dismiss event)', `dsp:approve:${dispute.id}`),
+      Markup.button.callback('❌ Reject', `dsp:reject:${dispute.id}`),
+    ],
+  ]);
+
+  let managerMessageId: number | null = null;
+  if (managerChatId) {
+    const caption = text.length > MAX_CAPTION_LENGTH ? `${text.slice(0, MAX_CAPTION_LENGTH)}…` : text;
+    try {
+      const sent =
+        dispute.evidenceType === 'photo' && dispute.evidenceFileId
+          ? await telegram.sendPhoto(managerChatId, dispute.evidenceFileId, { caption, ...keyboard })
+          : dispute.evidenceType === 'voice' && dispute.evidenceFileId
+            ? await telegram.sendVoice(managerChatId, dispute.evidenceFileId, { caption, ...keyboard })
+            : await telegram.sendMessage(managerChatId, text, keyboard);
+      managerMessageId = sent.message_id;
+    } catch (err: any) {
+      console.error(
+        `❌ [DISPUTE] Failed to send dispute #${dispute.id} to manager chat:`,
+        err.response?.description || err.message
+      );
+    }
+  } else {
+    console.warn(`⚠️ [DISPUTE] SAFETY_MANAGER_CHAT_ID is not set, dispute #${dispute.id} waits in the database`);
+  }
+
+  await updateEventDispute(dispute.id, { status: 'pending', managerMessageId });
+  try {
+    await telegram.sendMessage(Number(dispute.driverTgUserId), disputeMessages[getLanguage(chat)].submitted);
+  } catch (err: any) {
+    console.error(
+      `❌ [DISPUTE] Failed to confirm dispute #${dispute.id} to the driver:`,
+      err.response?.description || err.message
+    );
+  }
+  console.log(`📨 [DISPUTE] Dispute #${dispute.id} submitted`);
+}
+
+/**
+ * Private-chat middleware for the driver side of the dispute
+ * (/start dispute_<id>, reason text, photo / voice evidence).
+ * Must be registered before the private chat filter; passes everything else on.
+ *
+ * @param ctx - Telegraf context
+ * @param next - Next middleware
+ * @param managerChatId - Safety-manager chat ID
+ */
+export async function handleDisputeDm(
+  ctx: Context,
+  next: () => Promise<void>,
+  managerChatId: number | null
+): Promise<void> {
+  if (ctx.chat?.type !== 'private' || !ctx.from || !ctx.message) {
+    return next();
+  }
+
+  const message = ctx.message;
+  const text = 'text' in message ? message.text : '';
+  const userId = BigInt(ctx.from.id);
+
+  // Deep link from the alert button: /start dispute_<id>
+  const startMatch = /^\/start\s+dispute_(\d+)$/.exec(text);
+  if (startMatch) {
+    const dispute = await getEventDispute(parseInt(startMatch[1], 10));
+    if (!dispute) return;
+
+    const chat = await getEventChat(dispute.safetyEventLog);
+    const t = disputeMessages[getLanguage(chat)];
+    if (dispute.driverTgUserId !== userId) {
+      await ctx.reply(t.notYourEvent);
+    } else if (dispute.status !== 'collecting') {
+      await ctx.reply(t.alreadySubmitted);
+    } else {
+      // Touch updatedAt so this becomes the dispute the driver is filling in
+      await updateEventDispute(dispute.id, { status: 'collecting' });
+      await askReason(ctx.telegram, dispute, chat);
+    }
+    return;
+  }
+
+  if (text.startsWith('/')) {
+    return next();
+  }
+
+  const dispute = await getCollectingDispute(userId);
+  if (!dispute) {
+    return next();
+  }
+
+  const chat = await getEventChat(dispute.safetyEventLog);
+  const t = disputeMessages[getLanguage(chat)];
+
+  if (text) {
+    await updateEventDispute(dispute.id, { reason: text.trim() });
+    await ctx.reply(
+      t.askEvidence,
+      Markup.inlineKeyboard([[Markup.button.callback(t.sendWithoutEvidence, `dsp:skip:${dispute.id}`)]])
+    );
+    return;
+  }
+
+  const evidence =
+    'photo' in message
+      ? { type: 'photo', fileId: message.photo[message.photo.length - 1].file_id }
+      : 'voice' in message
+        ? { type: 'voice', fileId: message.voice.file_id }
+        : null;
+
+  if (!evidence) {
+    return next();
+  }
+
+  if (!dispute.reason) {
+    await askReason(ctx.telegram, dispute, chat);
+    return;
+  }
+
+  const updated = await updateEventDispute(dispute.id, {
+    evidenceType: evidence.type,
+    evidenceFileId: evidence.fileId,
+  });
+  if (updated) {
+    await submitDispute(ctx.telegram, updated, managerChatId);
+  }
+}
+
+/**
+ * Callback handler for dispute buttons:
+ * - dsp:skip:<id>    - driver submits without evidence (private chat)
+ * - dsp:approve:<id> - manager approves, event dismissed (manager chat only)
+ * - dsp:reject:<id>  - manager rejects (manager chat only)
+ *
+ * @param ctx - Telegraf context (callback query)
+ * @param managerChatId - Safety-manager chat ID
+ */
+export async function handleDisputeCallback(ctx: Context, managerChatId: number | null): Promise<void> {
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : '';
+  const [, action, idStr] = data.split(':');
+  const dispute = ctx.from ? await getEventDispute(parseInt(idStr, 10)) : null;
+
+  if (!dispute || !ctx.from) {
+    await ctx.answerCbQuery();
+    return;
+  }
+
+  const chat = await getEventChat(dispute.safetyEventLog);
+  const t = disputeMessages[getLanguage(chat)];
+
+  if (action === 'skip') {
+    if (dispute.driverTgUserId !== BigInt(ctx.from.id)) {
+      await ctx.answerCbQuery(t.notYourEvent);
+      return;
+    }
+    if (dispute.status !== 'collecting') {
+      await ctx.answerCbQuery(t.alreadySubmitted);
+      return;
+    }
+    await ctx.answerCbQuery();
+    await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+    await submitDispute(ctx.telegram, dispute, managerChatId);
+    return;
+  }
+
+  if (!managerChatId || ctx.chat?.id !== managerChatId) {
+    await ctx.answerCbQuery('Only the safety-manager chat can decide disputes.', { show_alert: true });
+    return;
+  }
+
+  const approved = action === 'approve';
+  const decided = await decideEventDispute(dispute.id, approved, BigInt(ctx.from.id));
+  if (!decided) {
+    await ctx.answerCbQuery(`Dispute is already ${dispute.status}.`);
+    return;
+  }
+
+  const who = ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name;
+  console.log(`⚖️ [DISPUTE] Dispute #${dispute.id} ${decided.status} by ${ctx.from.id}`);
+
+  await ctx.editMessageReplyMarkup(
+    Markup.inlineKeyboard([
+      [Markup.button.callback(`${approved ? '✅ Approved' : '❌ Rejected'} by ${who}`, 'dsp:done:0')],
+    ]).reply_markup
+  ).catch(() => undefined);
+  await ctx.answerCbQuery(approved ? 'Approved, event dismissed.' : 'Rejected.');
+
+  const log = decided.safetyEventLog;
+  const time = formatEventTime(log, chat);
+  try {
+    await ctx.telegram.sendMessage(
+      Number(dispute.driverTgUserId),
+      approved ? t.approved(log.behavior, time) : t.rejected(log.behavior, time)
+    );
+  } catch (err: any) {
+    console.warn(`⚠️ [DISPUTE] Could not notify driver about dispute #${dispute.id}:`, err.message);
+  }
+}
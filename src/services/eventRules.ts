@@ -0,0 +1,270 @@
+import { Chat, EventRule, EventRuleAction } from '@prisma/client';
+import { SafetyEvent } from '../samsara';
+import { UnifiedEvent } from './eventNormalize';
+import { findChatByVehicle, getEventRules } from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  getLocalMinutesOfDay,
+  isWithinTimeWindow,
+  parseTimeOfDay,
+} from './timezone';
+
+/**
+ * Event routing rules: decide which Samsara events reach Telegram.
+ *
+ * An event is relevant if at least one include rule matches it and no
+ * exclude rule matches it (exclude wins). While the event_rules table is
+ * empty, DEFAULT_EVENT_RULES are used; the first /rules add stores them.
+ */
+
+export type EventRuleDraft = {
+  action: EventRuleAction;
+  label: string | null;
+  minSeverity: string | null;
+  vehicleName: string | null;
+  chatId: number | null;
+  timeStart: string | null;
+  timeEnd: string | null;
+};
+
+// Stored rule or built-in default (id = null)
+export type EventRuleLike = EventRuleDraft & { id: number | null };
+
+export type EventRuleInput = {
+  labels: string[]; // Behavior labels ("Harsh Brake", "harshBrake", ...)
+  severity: string | null; // light | moderate | heavy | severe (if known)
+  vehicleName: string;
+  vehicleId?: string | null; // Samsara vehicle ID (preferred over the name for the chat lookup)
+  occurredAt: Date;
+  chat: Chat | null; // Destination chat (resolved only when a rule needs it)
+};
+
+export type EventRuleDecision = {
+  relevant: boolean;
+  include: EventRuleLike | null; // First matching include rule
+  exclude: EventRuleLike | null; // First matching exclude rule
+};
+
+const draft = (action: EventRuleAction, label: string): EventRuleDraft => ({
+  action,
+  label,
+  minSeverity: null,
+  vehicleName: null,
+  chatId: null,
+  timeStart: null,
+  timeEnd: null,
+});
+
+// Built-in rules (previously SPEEDING_KEYWORDS / OTHER_SERIOUS_KEYWORDS / BLOCKED_KEYWORDS)
+export const DEFAULT_EVENT_RULES: EventRuleDraft[] = [
+  // Speeding
+  draft('include', 'speed'),
+  // Other serious types
+  draft('include', 'harsh brake'), // Harsh Brake
+  draft('include', 'harsh braking'),
+  draft('include', 'yield'), // Did Not Yield
+  draft('include', 'red light'), // Ran Red Light
+  draft('include', 'rolling stop'),
+  draft('include', 'crash'),
+  draft('include', 'collision'),
+  // Following Distance is too noisy for drivers
+  draft('exclude', 'following distance'),
+];
+
+export const SEVERITY_LEVELS = ['light', 'moderate', 'heavy', 'severe'];
+
+const SEVERITY_ALIASES: Record<string, string> = {
+  low: 'light',
+  minor: 'light',
+  medium: 'moderate',
+  high: 'heavy',
+  critical: 'severe',
+};
+
+/**
+ * Normalize a severity value to one of SEVERITY_LEVELS (null if unknown).
+ */
+export function normalizeSeverity(value: string | null | undefined): string | null {
+  const lower = (value || '').toLowerCase().trim();
+  const level = SEVERITY_ALIASES[lower] ?? lower;
+  return SEVERITY_LEVELS.includes(level) ? level : null;
+}
+
+function compact(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Load the active rules: stored rules, or the built-in defaults if none are stored.
+ */
+export async function loadEventRules(): Promise<{ rules: EventRuleLike[]; isDefault: boolean }> {
+  const stored: EventRule[] = await getEventRules();
+  if (!stored.length) {
+    return { rules: DEFAULT_EVENT_RULES.map((r) => ({ ...r, id: null })), isDefault: true };
+  }
+  return { rules: stored, isDefault: false };
+}
+
+/**
+ * Check whether a rule needs the destination chat (chat scope or time-of-day in chat timezone).
+ */
+function needsChat(rule: EventRuleDraft): boolean {
+  return rule.chatId !== null || rule.timeStart !== null;
+}
+
+/**
+ * Check if a single rule matches an event.
+ */
+export function ruleMatches(rule: EventRuleDraft, input: EventRuleInput): boolean {
+  if (rule.label) {
+    const keyword = rule.label.toLowerCase();
+    const keywordCompact = compact(rule.label);
+    const matched = input.labels.some(
+      (l) => l.toLowerCase().includes(keyword) || compact(l).includes(keywordCompact)
+    );
+    if (!matched) return false;
+  }
+
+  if (rule.minSeverity) {
+    const severity = normalizeSeverity(input.severity);
+    if (!severity) return false;
+    if (SEVERITY_LEVELS.indexOf(severity) < SEVERITY_LEVELS.indexOf(rule.minSeverity)) return false;
+  }
+
+  if (rule.vehicleName && compact(rule.vehicleName) !== compact(input.vehicleName)) {
+    return false;
+  }
+
+  if (rule.chatId !== null && input.chat?.id !== rule.chatId) {
+    return false;
+  }
+
+  if (rule.timeStart && rule.timeEnd) {
+    const start = parseTimeOfDay(rule.timeStart);
+    const end = parseTimeOfDay(rule.timeEnd);
+    if (start !== null && end !== null) {
+      const minutes = getLocalMinutesOfDay(input.occurredAt, input.chat?.timezone || DEFAULT_TIMEZONE);
+      if (!isWithinTimeWindow(minutes, start, end)) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate all rules for an event.
+ */
+export function evaluateEventRules(rules: EventRuleLike[], input: EventRuleInput): EventRuleDecision {
+  const include = rules.find((r) => r.action === 'include' && ruleMatches(r, input)) ?? null;
+  const exclude = rules.find((r) => r.action === 'exclude' && ruleMatches(r, input)) ?? null;
+  return { relevant: !!include && !exclude, include, exclude };
+}
+
+/**
+ * Build rule input from a Samsara safety event.
+ */
+export function safetyEventToRuleInput(ev: SafetyEvent, chat: Chat | null = null): EventRuleInput {
+  const labels = (ev.behaviorLabels ?? []).flatMap((l) => [l.label || '', l.name || '']).filter(Boolean);
+  return {
+    labels,
+    severity: ev.severity ?? null,
+    vehicleName: ev.vehicle?.name ?? 'Unknown',
+    vehicleId: ev.vehicle?.id ?? null,
+    occurredAt: new Date(ev.time || ev.occurredAt || ev.startTime || Date.now()),
+    chat,
+  };
+}
+
+/**
+ * Build rule input from a unified event (safety event or speeding interval).
+ */
+export function unifiedEventToRuleInput(event: UnifiedEvent, chat: Chat | null = null): EventRuleInput {
+  const labels =
+    event.source === 'speeding'
+      ? ['Severe Speeding', event.type]
+      : ((event.details?.behaviorLabels as SafetyEvent['behaviorLabels']) ?? [])
+          .flatMap((l) => [l.label || '', l.name || ''])
+          .filter(Boolean)
+          .concat(event.type);
+  return {
+    labels,
+    severity: event.details?.severityLevel ?? event.severity ?? null,
+    vehicleName: event.vehicleName ?? 'Unknown',
+    vehicleId: event.assetId ?? null,
+    occurredAt: new Date(event.occurredAt),
+    chat,
+  };
+}
+
+/**
+ * Resolve the destination chat for an event only if some rule needs it.
+ */
+async function resolveChatIfNeeded(rules: EventRuleLike[], input: EventRuleInput): Promise<EventRuleInput> {
+  if (!rules.some(needsChat)) {
+    return input;
+  }
+  const chat = await findChatByVehicle({ id: input.vehicleId, name: input.vehicleName }, input.occurredAt);
+  return { ...input, chat };
+}
+
+/**
+ * Evaluate rules for a safety event (resolves chat scope when needed).
+ */
+export async function evaluateSafetyEvent(
+  rules: EventRuleLike[],
+  ev: SafetyEvent
+): Promise<EventRuleDecision> {
+  if (!(ev.behaviorLabels ?? []).length) {
+    return { relevant: false, include: null, exclude: null };
+  }
+  const input = await resolveChatIfNeeded(rules, safetyEventToRuleInput(ev));
+  return evaluateEventRules(rules, input);
+}
+
+/**
+ * Check if a unified event is relevant (safety event or severe speeding interval).
+ */
+export async function isRelevantUnifiedEvent(
+  rules: EventRuleLike[],
+  event: UnifiedEvent
+): Promise<boolean> {
+  const input = await resolveChatIfNeeded(rules, unifiedEventToRuleInput(event));
+  return evaluateEventRules(rules, input).relevant;
+}
+
+/**
+ * Filter safety events by rules. Events dropped because no include rule
+ * matched are logged, so unknown labels are visible instead of silently lost.
+ */
+export async function filterSafetyEventsByRules(
+  rules: EventRuleLike[],
+  events: SafetyEvent[]
+): Promise<SafetyEvent[]> {
+  const relevant: SafetyEvent[] = [];
+  for (const ev of events) {
+    const decision = await evaluateSafetyEvent(rules, ev);
+    if (decision.relevant) {
+      relevant.push(ev);
+    } else if (!decision.include && !decision.exclude) {
+      const labels = (ev.behaviorLabels ?? []).map((l) => l.name || l.label).join(', ') || 'no labels';
+      console.log(`[RULES] Event ${ev.id} dropped: no include rule matches (${labels})`);
+    }
+  }
+  return relevant;
+}
+
+/**
+ * Format a rule for display (e.g. "#3 exclude label="following distance" chat=Truck 704 group").
+ *
+ * @param chatNames - Optional Chat.id -> name map for chat-scoped rules
+ */
+export function formatEventRule(rule: EventRuleLike, chatNames?: Map<number, string>): string {
+  const parts: string[] = [rule.id !== null ? `#${rule.id}` : '•', rule.action];
+  if (rule.label) parts.push(`label="${rule.label}"`);
+  if (rule.minSeverity) parts.push(`severity>=${rule.minSeverity}`);
+  if (rule.vehicleName) parts.push(`vehicle="${rule.vehicleName}"`);
+  if (rule.chatId !== null) parts.push(`chat="${chatNames?.get(rule.chatId) ?? rule.chatId}"`);
+  if (rule.timeStart && rule.timeEnd) parts.push(`time=${rule.timeStart}-${rule.timeEnd}`);
+  if (parts.length === 2) parts.push('(any event)');
+  return parts.join(' ');
+}
@@ -0,0 +1,150 @@
+import { OutboxMessage } from '@prisma/client';
+import {
+  claimOutboxMessage,
+  getDueOutboxMessages,
+  markOutboxMessageFailed,
+  markOutboxMessageSent,
+  releaseStaleOutboxMessages,
+} from '../repository';
+
+/**
+ * Durable outbox for Telegram alert deliveries.
+ *
+ * The safety cron enqueues every planned delivery (enqueueOutboxMessage) and the
+ * worker below sends it through a handler per kind, highest priority first
+ * (OutboxMessage.priority, then nextAttemptAt). Failures are retried with
+ * exponential backoff; a Telegram 429 waits for retry_after and does not count as
+ * an attempt. Permanent Telegram errors (4xx, e.g. bot removed from the group) and
+ * OUTBOX_MAX_ATTEMPTS end in status "failed" with the last error kept in the row.
+ */
+
+export type OutboxDeliveryResult =
+  | { ok: true; messageId: number | null }
+  | { ok: false; error: string; errorCode?: number; retryAfter?: number };
+
+export type OutboxHandler = (message: OutboxMessage) => Promise<OutboxDeliveryResult>;
+
+export type OutboxHandlers = Record<string, OutboxHandler>;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const MESSAGES_PER_TICK = 20;
+// A message claimed longer ago than this was left by a crashed worker
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+function getMaxAttempts(): number {
+  const value = parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10);
+  return isNaN(value) || value <= 0 ? 10 : value;
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m ... capped at 30 minutes.
+ *
+ * @param attempts - Failed attempts so far (1 after the first failure)
+ */
+export function getOutboxRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Error details from a Telegraf / network error, for handler results.
+ */
+export function toOutboxFailure(err: any): Extract<OutboxDeliveryResult, { ok: false }> {
+  return {
+    ok: false,
+    error: err?.response?.description || err?.message || 'Unknown error',
+    errorCode: err?.response?.error_code,
+    retryAfter: err?.response?.parameters?.retry_after,
+  };
+}
+
+/**
+ * 4xx errors other than 429 won't succeed on retry (chat not found, bot kicked, bad request).
+ */
+function isPermanentFailure(result: Extract<OutboxDeliveryResult, { ok: false }>): boolean {
+  return result.errorCode !== undefined && result.errorCode >= 400 && result.errorCode < 500 && result.errorCode !== 429;
+}
+
+/**
+ * Send one claimed outbox message and record the outcome.
+ */
+async function deliver(message: OutboxMessage, handlers: OutboxHandlers, now: Date): Promise<void> {
+  const handler = handlers[message.kind];
+  let result: OutboxDeliveryResult;
+  if (!handler) {
+    result = { ok: false, error: `No outbox handler for kind "${message.kind}"`, errorCode: 400 };
+  } else {
+    try {
+      result = await handler(message);
+    } catch (err: any) {
+      result = toOutboxFailure(err);
+    }
+  }
+
+  if (result.ok) {
+    await markOutboxMessageSent(message.id, result.messageId);
+    console.log(
+      `📬 [OUTBOX] ${message.kind} ${message.eventKey} delivered to ${message.chatId}` +
+        (message.attempts ? ` after ${message.attempts} failed attempt(s)` : '')
+    );
+    return;
+  }
+
+  if (result.errorCode === 429 && result.retryAfter) {
+    await markOutboxMessageFailed(message.id, {
+      status: 'pending',
+      attempts: message.attempts,
+      nextAttemptAt: new Date(now.getTime() + (result.retryAfter + 1) * 1000),
+      lastError: result.error,
+    });
+    console.warn(`⏳ [OUTBOX] 429 for ${message.eventKey}, retrying in ${result.retryAfter}s`);
+    return;
+  }
+
+  const attempts = message.attempts + 1;
+  const failed = isPermanentFailure(result) || attempts >= getMaxAttempts();
+  const nextAttemptAt = new Date(now.getTime() + getOutboxRetryDelayMs(attempts));
+  await markOutboxMessageFailed(message.id, {
+    status: failed ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt,
+    lastError: result.error,
+  });
+
+  if (failed) {
+    console.error(
+      `❌ [OUTBOX] ${message.kind} ${message.eventKey} to ${message.chatId} failed permanently after ${attempts} attempt(s): ${result.error}`
+    );
+  } else {
+    console.warn(
+      `⚠️ [OUTBOX] ${message.kind} ${message.eventKey} attempt ${attempts} failed: ${result.error}. ` +
+        `Next attempt at ${nextAttemptAt.toISOString()}`
+    );
+  }
+}
+
+/**
+ * Drain due outbox messages. Runs every minute from index.ts and right after the
+ * safety cron enqueues new alerts. Overlapping runs are safe (messages are claimed).
+ *
+ * @param handlers - Delivery handler per message kind
+ * @param now - Current time (injectable for testing)
+ * @returns Number of messages attempted
+ */
+export async function runOutboxTick(handlers: OutboxHandlers, now: Date = new Date()): Promise<number> {
+  const released = await releaseStaleOutboxMessages(new Date(now.getTime() - STALE_SENDING_MS));
+  if (released) {
+    console.warn(`⚠️ [OUTBOX] Released ${released} message(s) stuck in "sending"`);
+  }
+
+  const due = await getDueOutboxMessages(now, MESSAGES_PER_TICK);
+  let attempted = 0;
+  for (const message of due) {
+    if (!(await claimOutboxMessage(message.id))) {
+      continue; // Taken by an overlapping run
+    }
+    attempted += 1;
+    await deliver(message, handlers, now);
+  }
+  return attempted;
+}
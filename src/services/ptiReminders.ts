@@ -0,0 +1,255 @@
+import { Telegram } from 'telegraf';
+import { Chat } from '@prisma/client';
+import { buildDriverMention } from '../messages';
+import { claimPtiStep, getAllChats, isPtiCompletedToday, recordPtiMiss } from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  getLocalDate,
+  getLocalDateKey,
+  getUtcForLocalTime,
+  getZonedParts,
+  parseTimeOfDay,
+  parseWorkingDays,
+} from './timezone';
+import { renderPtiMessageForChat } from './ptiTemplates';
+
+/**
+ * PTI reminder schedule and escalation ladder.
+ *
+ * Every chat has its own reminder time, working days and IANA timezone
+ * (Chat.ptiReminderTime / ptiWorkingDays / timezone). A scheduler tick runs
+ * every minute and, for each chat, fires the latest step whose local time has
+ * passed if it has not run today (Chat.ptiReminderSentDate / ptiFollowUpSentDate /
+ * ptiEscalatedDate), so a step missed during a restart still runs the same day
+ * (earlier steps it overtook are skipped):
+ * 1. Daily reminder    - Chat.ptiReminderTime (default 06:00)
+ * 2. Follow-up         - PTI_FOLLOWUP_TIME (default 16:00), only chats without PTI today
+ * 3. Final escalation  - PTI_ESCALATION_TIME (default 19:00), record a PtiMiss for every
+ *                        chat still without PTI and send the list to SAFETY_MANAGER_CHAT_ID
+ *
+ * Set PTI_FOLLOWUP_TIME / PTI_ESCALATION_TIME to "off" to disable a step.
+ */
+
+const PTI_FOLLOWUP_TIME = process.env.PTI_FOLLOWUP_TIME || '16:00';
+const PTI_ESCALATION_TIME = process.env.PTI_ESCALATION_TIME || '19:00';
+
+/**
+ * Build the reminder text with driver mention for a chat.
+ */
+function withMention(chat: Chat, baseText: string): string {
+  const mentionText = buildDriverMention(chat);
+  return mentionText ? `${mentionText}\n\n${baseText}` : baseText;
+}
+
+/**
+ * Send the daily PTI reminder to the given chats.
+ */
+export async function sendDailyPtiReminders(telegram: Telegram, chats: Chat[]): Promise<void> {
+  console.log(`📣 Sending PTI reminders to ${chats.length} chat(s)...`);
+
+  for (const chat of chats) {
+    const chatId = Number(chat.telegramChatId);
+
+    try {
+      // Rendered from the stored template (chat override -> language -> built-in default)
+      const baseText = await renderPtiMessageForChat('reminder', chat);
+      await telegram.sendMessage(chatId, withMention(chat, baseText), {
+        parse_mode: 'Markdown',
+        link_preview_options: { is_disabled: true },
+      });
+      console.log(
+        `✅ PTI reminder sent to ${chat.name} (chatId=${chatId}, lang=${chat.language}, tz=${chat.timezone})`,
+      );
+    } catch (err) {
+      console.error(
+        `❌ Failed to send PTI reminder to ${chat.name} (chatId=${chatId})`,
+        err,
+      );
+    }
+  }
+}
+
+/**
+ * Send the follow-up PTI reminder to chats that have not completed PTI today.
+ */
+export async function sendPtiFollowUpReminders(telegram: Telegram, chats: Chat[]): Promise<void> {
+  const pending = chats.filter((chat) => !isPtiCompletedToday(chat));
+
+  console.log(
+    `📣 [PTI][FOLLOW_UP] ${pending.length}/${chats.length} chats without PTI today`
+  );
+
+  for (const chat of pending) {
+    const chatId = Number(chat.telegramChatId);
+
+    try {
+      const baseText = await renderPtiMessageForChat('follow_up', chat);
+      await telegram.sendMessage(chatId, withMention(chat, baseText), {
+        parse_mode: 'Markdown',
+        link_preview_options: { is_disabled: true },
+      });
+      console.log(`✅ [PTI][FOLLOW_UP] Sent to ${chat.name} (chatId=${chatId})`);
+    } catch (err) {
+      console.error(`❌ [PTI][FOLLOW_UP] Failed to send to ${chat.name} (chatId=${chatId})`, err);
+    }
+  }
+}
+
+/**
+ * Final escalation: record PTI misses and notify the safety-manager chat.
+ *
+ * @param telegram - Telegram API instance
+ * @param managerChatId - Safety-manager chat ID (SAFETY_MANAGER_CHAT_ID); if missing, misses are only recorded
+ * @param chats - Chats whose escalation is due now
+ */
+export async function escalateMissedPti(
+  telegram: Telegram,
+  managerChatId: number | null,
+  chats: Chat[]
+): Promise<void> {
+  const now = new Date();
+  const missed = chats.filter((chat) => !isPtiCompletedToday(chat));
+
+  console.log(`🚩 [PTI][ESCALATION] ${missed.length}/${chats.length} chats missed PTI today`);
+
+  for (const chat of missed) {
+    await recordPtiMiss(chat, getLocalDate(now, chat.timezone || DEFAULT_TIMEZONE));
+  }
+
+  if (!managerChatId) {
+    console.warn('⚠️ [PTI][ESCALATION] SAFETY_MANAGER_CHAT_ID is not set, skipping manager notification');
+    return;
+  }
+
+  const dateLabel = now.toLocaleDateString('en-US', {
+    timeZone: chats[0]?.timezone || DEFAULT_TIMEZONE,
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const lines: string[] = [];
+  if (!missed.length) {
+    lines.push(`✅ PTI completed by all ${chats.length} groups today (${dateLabel}).`);
+  } else {
+    lines.push(`🚩 PTI missed — ${dateLabel}`);
+    lines.push(`${missed.length} of ${chats.length} groups have no PTI today:`);
+    lines.push('');
+    for (const chat of missed) {
+      const driver =
+        [chat.driverFirstName, chat.driverLastName].filter(Boolean).join(' ') ||
+        (chat.driverUsername ? `@${chat.driverUsername}` : 'no driver set');
+      const tzLabel = chat.timezone !== DEFAULT_TIMEZONE ? `, ${chat.timezone}` : '';
+      lines.push(`• ${chat.truckNames || 'no trucks'} — ${chat.name} (${driver}${tzLabel})`);
+    }
+  }
+
+  try {
+    await telegram.sendMessage(managerChatId, lines.join('\n'), {
+      parse_mode: undefined,
+      link_preview_options: { is_disabled: true },
+    });
+    console.log(`✅ [PTI][ESCALATION] Manager notified (chatId=${managerChatId})`);
+  } catch (err) {
+    console.error(`❌ [PTI][ESCALATION] Failed to notify manager chat ${managerChatId}`, err);
+  }
+}
+
+type PtiStep = 'reminder' | 'follow_up' | 'escalation';
+
+function lastStepRun(chat: Chat, step: PtiStep): Date | null {
+  if (step === 'reminder') return chat.ptiReminderSentDate;
+  if (step === 'follow_up') return chat.ptiFollowUpSentDate;
+  return chat.ptiEscalatedDate;
+}
+
+/**
+ * The ladder step due for the chat now, if any.
+ *
+ * On one of the chat's working days, take the latest step whose local time has
+ * passed (and that was scheduled after the chat was registered); it is due if it
+ * has not run today. Earlier steps are skipped once a later one's time has passed,
+ * so after a late restart the driver doesn't get the morning reminder, the
+ * follow-up and the escalation at once.
+ */
+function getDueStep(chat: Chat, now: Date): PtiStep | null {
+  const timeZone = chat.timezone || DEFAULT_TIMEZONE;
+  if (!parseWorkingDays(chat.ptiWorkingDays).has(getZonedParts(now, timeZone).weekday)) {
+    return null;
+  }
+
+  const todayKey = getLocalDateKey(now, timeZone);
+  const steps: [PtiStep, string][] = [
+    ['reminder', chat.ptiReminderTime],
+    ['follow_up', PTI_FOLLOWUP_TIME],
+    ['escalation', PTI_ESCALATION_TIME],
+  ];
+
+  let latest: { step: PtiStep; at: Date } | null = null;
+  for (const [step, time] of steps) {
+    const minutes = time.toLowerCase() === 'off' ? null : parseTimeOfDay(time);
+    if (minutes === null) continue;
+
+    const at = getUtcForLocalTime(todayKey, minutes, timeZone);
+    if (now < at || chat.createdAt > at) continue;
+    if (!latest || at >= latest.at) {
+      latest = { step, at };
+    }
+  }
+
+  if (!latest || lastStepRun(chat, latest.step)?.toISOString().slice(0, 10) === todayKey) {
+    return null;
+  }
+  return latest.step;
+}
+
+/**
+ * Claim the step for today (local date of each chat) before sending.
+ * Chats claimed by an overlapping tick are left out.
+ */
+async function claimStep(chats: Chat[], step: PtiStep, now: Date): Promise<Chat[]> {
+  const claimed: Chat[] = [];
+  for (const chat of chats) {
+    if (await claimPtiStep(chat.id, step, getLocalDate(now, chat.timezone || DEFAULT_TIMEZONE))) {
+      claimed.push(chat);
+    }
+  }
+  return claimed;
+}
+
+/**
+ * Scheduler tick (run every minute): fire the PTI ladder steps due for each chat.
+ *
+ * @param telegram - Telegram API instance
+ * @param managerChatId - Safety-manager chat ID for the final escalation
+ * @param now - Current time (injectable for testing)
+ */
+export async function runPtiSchedulerTick(
+  telegram: Telegram,
+  managerChatId: number | null,
+  now: Date = new Date()
+): Promise<void> {
+  const chats = await getAllChats();
+
+  const dueSteps = new Map(chats.map((chat) => [chat.id, getDueStep(chat, now)]));
+  // Claimed before sending: a tick slowed down by the send queue may overlap the next one
+  const dueFor = (step: PtiStep) => chats.filter((chat) => dueSteps.get(chat.id) === step);
+  const reminderDue = await claimStep(dueFor('reminder'), 'reminder', now);
+  const followUpDue = await claimStep(dueFor('follow_up'), 'follow_up', now);
+  const escalationDue = await claimStep(dueFor('escalation'), 'escalation', now);
+
+  if (reminderDue.length) {
+    console.log(`⏰ [CRON PTI] reminder due for ${reminderDue.length} chat(s)`);
+    await sendDailyPtiReminders(telegram, reminderDue);
+  }
+
+  if (followUpDue.length) {
+    console.log(`⏰ [CRON PTI] follow-up due for ${followUpDue.length} chat(s)`);
+    await sendPtiFollowUpReminders(telegram, followUpDue);
+  }
+
+  if (escalationDue.length) {
+    console.log(`⏰ [CRON PTI] escalation due for ${escalationDue.length} chat(s)`);
+    await escalateMissedPti(telegram, managerChatId, escalationDue);
+  }
+}
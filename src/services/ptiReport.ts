@@ -0,0 +1,220 @@
+import { Chat, PtiCompletion, PtiMiss } from '@prisma/client';
+import { getAllChats, getPtiCompletionsInRange, getPtiMissesInRange } from '../repository';
+import { DEFAULT_TIMEZONE, getLocalDate, getLocalDateKey, parseWorkingDays } from './timezone';
+
+export const PTI_FINE_AMOUNT = parseInt(process.env.PTI_FINE_AMOUNT || '100', 10);
+
+export type PtiReportRow = {
+  chat: Chat;
+  workingDays: number; // Working days evaluated in the period
+  completedDays: number;
+  completionRate: number; // 0..1 (1 if no working days evaluated)
+  currentStreak: number; // Consecutive completed working days ending at the last evaluated day
+  longestMissStreak: number;
+  totalMisses: number; // PtiMiss rows recorded by the escalation in the period
+  fineTotal: number; // totalMisses * PTI_FINE_AMOUNT
+};
+
+export type PtiReport = {
+  period: string; // "YYYY-MM"
+  from: Date; // First day (UTC midnight)
+  to: Date; // Last evaluated day (UTC midnight)
+  rows: PtiReportRow[];
+};
+
+/**
+ * Parse report month argument.
+ * Accepts "YYYY-MM", "MM" (current year) or nothing (current month).
+ *
+ * @returns { year, month } (month 1-12) or null if invalid
+ */
+export function parseReportMonth(
+  arg: string | undefined,
+  now: Date = new Date()
+): { year: number; month: number } | null {
+  const todayKey = getLocalDateKey(now, DEFAULT_TIMEZONE);
+  const currentYear = parseInt(todayKey.slice(0, 4), 10);
+  const currentMonth = parseInt(todayKey.slice(5, 7), 10);
+
+  if (!arg) {
+    return { year: currentYear, month: currentMonth };
+  }
+
+  const full = /^(\d{4})-(\d{1,2})$/.exec(arg.trim());
+  const short = /^(\d{1,2})$/.exec(arg.trim());
+  const year = full ? parseInt(full[1], 10) : currentYear;
+  const month = full ? parseInt(full[2], 10) : short ? parseInt(short[1], 10) : NaN;
+
+  if (isNaN(month) || month < 1 || month > 12) {
+    return null;
+  }
+
+  return { year, month };
+}
+
+/**
+ * List calendar days (UTC midnight) from `from` to `to` inclusive.
+ */
+function listDays(from: Date, to: Date): Date[] {
+  const days: Date[] = [];
+  for (let d = new Date(from); d <= to; d = new Date(d.getTime() + 24 * 60 * 60 * 1000)) {
+    days.push(d);
+  }
+  return days;
+}
+
+/**
+ * Compute PTI compliance for every chat for one month.
+ *
+ * A working day is evaluated if it is before today, or it is today and the
+ * PTI is already completed or the miss was already recorded by the escalation.
+ * Days before the chat was registered are not evaluated. Working days and
+ * "today" follow each chat's PTI schedule and timezone.
+ *
+ * Completions drive the completion rate and streaks only. Misses and fines
+ * come from the PtiMiss rows the escalation recorded (what managers were told),
+ * so a later schedule change, a late PTI or bot downtime don't change them.
+ */
+export async function buildPtiReport(
+  year: number,
+  month: number,
+  now: Date = new Date()
+): Promise<PtiReport> {
+  const period = `${year}-${String(month).padStart(2, '0')}`;
+  const monthStart = new Date(Date.UTC(year, month - 1, 1));
+  const monthEnd = new Date(Date.UTC(year, month, 0));
+  const latestToday = getLocalDate(now, 'Pacific/Kiritimati'); // Earliest timezone to reach a new day
+  const to = monthEnd < latestToday ? monthEnd : latestToday;
+
+  const [chats, completions, misses] = await Promise.all([
+    getAllChats(),
+    getPtiCompletionsInRange(monthStart, to),
+    getPtiMissesInRange(monthStart, to),
+  ]);
+
+  const completedByChat = groupDayKeys(completions);
+  const missedByChat = groupDayKeys(misses);
+
+  const rows: PtiReportRow[] = chats.map((chat) => {
+    const completed = completedByChat.get(chat.id) ?? new Set<string>();
+    const recordedMisses = missedByChat.get(chat.id) ?? new Set<string>();
+    // Days and working days are evaluated in the chat's own timezone
+    const timeZone = chat.timezone || DEFAULT_TIMEZONE;
+    const workingDays = parseWorkingDays(chat.ptiWorkingDays);
+    const today = getLocalDate(now, timeZone);
+    const registeredOn = getLocalDate(chat.createdAt, timeZone);
+    const start = registeredOn > monthStart ? registeredOn : monthStart;
+
+    const evaluated = listDays(start, to).filter((day) => {
+      if (!workingDays.has(day.getUTCDay())) return false;
+      if (day.getTime() > today.getTime()) return false;
+      if (day.getTime() < today.getTime()) return true;
+      const key = day.toISOString().slice(0, 10);
+      return completed.has(key) || recordedMisses.has(key);
+    });
+
+    let completedDays = 0;
+    let missStreak = 0;
+    let longestMissStreak = 0;
+    let currentStreak = 0;
+
+    for (const day of evaluated) {
+      if (completed.has(day.toISOString().slice(0, 10))) {
+        completedDays++;
+        currentStreak++;
+        missStreak = 0;
+      } else {
+        currentStreak = 0;
+        missStreak++;
+        longestMissStreak = Math.max(longestMissStreak, missStreak);
+      }
+    }
+
+    const totalMisses = recordedMisses.size;
+
+    return {
+      chat,
+      workingDays: evaluated.length,
+      completedDays,
+      completionRate: evaluated.length ? completedDays / evaluated.length : 1,
+      currentStreak,
+      longestMissStreak,
+      totalMisses,
+      fineTotal: totalMisses * PTI_FINE_AMOUNT,
+    };
+  });
+
+  rows.sort((a, b) => a.completionRate - b.completionRate || b.totalMisses - a.totalMisses);
+
+  return { period, from: monthStart, to, rows };
+}
+
+/**
+ * Group PTI rows into chatId -> set of "YYYY-MM-DD" days.
+ */
+function groupDayKeys(items: Array<PtiCompletion | PtiMiss>): Map<number, Set<string>> {
+  const map = new Map<number, Set<string>>();
+  for (const item of items) {
+    const key = item.ptiDate.toISOString().slice(0, 10);
+    if (!map.has(item.chatId)) {
+      map.set(item.chatId, new Set());
+    }
+    map.get(item.chatId)!.add(key);
+  }
+  return map;
+}
+
+/**
+ * Escape a CSV field (RFC 4180).
+ */
+function csvField(value: string | number | bigint | null | undefined): string {
+  const str = value == null ? '' : String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Render the report as CSV (one row per chat) for payroll.
+ */
+export function formatPtiReportCsv(report: PtiReport): string {
+  const header = [
+    'period',
+    'chat_name',
+    'telegram_chat_id',
+    'trucks',
+    'driver',
+    'working_days',
+    'completed_days',
+    'completion_rate_pct',
+    'current_streak',
+    'longest_miss_streak',
+    'total_misses',
+    'fine_total_usd',
+  ];
+
+  const lines = [header.join(',')];
+  for (const row of report.rows) {
+    const driver =
+      [row.chat.driverFirstName, row.chat.driverLastName].filter(Boolean).join(' ') ||
+      (row.chat.driverUsername ? `@${row.chat.driverUsername}` : '');
+    lines.push(
+      [
+        report.period,
+        row.chat.name,
+        row.chat.telegramChatId,
+        row.chat.truckNames,
+        driver,
+        row.workingDays,
+        row.completedDays,
+        Math.round(row.completionRate * 1000) / 10,
+        row.currentStreak,
+        row.longestMissStreak,
+        row.totalMisses,
+        row.fineTotal,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
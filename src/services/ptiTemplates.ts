@@ -0,0 +1,114 @@
+import { Chat, ChatLanguage, PtiTemplateKind } from '@prisma/client';
+import { LanguageCode, ptiFollowUpMessages, ptiMessages } from '../messages';
+import { getCurrentPtiTemplate } from '../repository';
+import { PTI_FINE_AMOUNT } from './ptiReport';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * PTI message templates.
+ *
+ * Resolution order for a chat: per-chat override -> global template for the
+ * chat's language -> built-in default from messages.ts. Templates are stored
+ * as versions in pti_templates; the highest version is current.
+ */
+
+export const PTI_TEMPLATE_PLACEHOLDERS = ['driverName', 'truckNames', 'date', 'fineAmount'] as const;
+
+export type PtiTemplateVars = Record<(typeof PTI_TEMPLATE_PLACEHOLDERS)[number], string>;
+
+export type ResolvedPtiTemplate = {
+  body: string;
+  source: 'chat' | 'global' | 'default';
+  version: number | null; // null for the built-in default
+};
+
+/**
+ * Built-in default template (messages.ts).
+ */
+export function getDefaultPtiTemplate(kind: PtiTemplateKind, language: ChatLanguage): string {
+  const lang = language as LanguageCode;
+  if (kind === 'follow_up') {
+    return ptiFollowUpMessages[lang] ?? ptiFollowUpMessages.en;
+  }
+  return ptiMessages[lang] ?? ptiMessages.en;
+}
+
+/**
+ * Resolve the current template for a language and optional chat override.
+ */
+export async function resolvePtiTemplate(
+  kind: PtiTemplateKind,
+  language: ChatLanguage,
+  chatId: number | null = null
+): Promise<ResolvedPtiTemplate> {
+  if (chatId !== null) {
+    const override = await getCurrentPtiTemplate(kind, language, chatId);
+    if (override) {
+      return { body: override.body, source: 'chat', version: override.version };
+    }
+  }
+
+  const global = await getCurrentPtiTemplate(kind, language, null);
+  if (global) {
+    return { body: global.body, source: 'global', version: global.version };
+  }
+
+  return { body: getDefaultPtiTemplate(kind, language), source: 'default', version: null };
+}
+
+/**
+ * Build placeholder values for a chat (or sample values when no chat is given).
+ */
+export function buildPtiTemplateVars(chat: Chat | null, now: Date = new Date()): PtiTemplateVars {
+  const driverName = chat
+    ? [chat.driverFirstName, chat.driverLastName].filter(Boolean).join(' ') ||
+      (chat.driverUsername ? `@${chat.driverUsername}` : 'driver')
+    : 'John Smith';
+
+  return {
+    driverName,
+    truckNames: chat ? chat.truckNames || '' : 'Truck 101',
+    date: now.toLocaleDateString('en-US', {
+      timeZone: chat?.timezone || DEFAULT_TIMEZONE,
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    }),
+    fineAmount: `$${PTI_FINE_AMOUNT}`,
+  };
+}
+
+/**
+ * Replace {placeholder} tokens. Unknown placeholders are left as-is.
+ */
+export function renderPtiTemplate(body: string, vars: PtiTemplateVars): string {
+  return body.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? vars[name as keyof PtiTemplateVars] : match
+  );
+}
+
+/**
+ * List placeholders used in a template that are not supported.
+ */
+export function findUnknownPlaceholders(body: string): string[] {
+  const known = new Set<string>(PTI_TEMPLATE_PLACEHOLDERS);
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(/\{(\w+)\}/g)) {
+    if (!known.has(match[1])) {
+      unknown.add(match[1]);
+    }
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Render the current PTI message of the given kind for a chat.
+ */
+export async function renderPtiMessageForChat(
+  kind: PtiTemplateKind,
+  chat: Chat,
+  now: Date = new Date()
+): Promise<string> {
+  const template = await resolvePtiTemplate(kind, chat.language, chat.id);
+  return renderPtiTemplate(template.body, buildPtiTemplateVars(chat, now));
+}
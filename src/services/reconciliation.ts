@@ -0,0 +1,208 @@
+import { Markup, Telegram } from 'telegraf';
+import { InlineKeyboardButton } from 'telegraf/types';
+import { OutboxMessage, Truck } from '@prisma/client';
+import { getTelegramAdminIds } from '../guards/isAdmin';
+import { getAllChats, getAllTrucks, getFailedOutboxMessages, getUndeliveredSafetyEvents } from '../repository';
+import { loadAllVehicles, VehicleInfo } from './samsaraVehicles';
+import { toSamsaraError } from './samsaraClient';
+import { DEFAULT_TIMEZONE } from './timezone';
+
+/**
+ * Vehicle ↔ Truck reconciliation.
+ *
+ * Compares Samsara vehicles with the trucks table and reports:
+ * - Samsara vehicles without a chat (no Truck row, or Truck.chatId null);
+ * - Truck rows that no longer match a Samsara vehicle (linked ID gone, or unlinked name gone);
+ * - events logged with sentToChatId = null (lost to drivers);
+ * - outbox deliveries that failed for good (alert queued for a chat, never sent).
+ * The report goes to each TELEGRAM_ADMIN_IDS private chat with "assign" buttons ("rc:").
+ */
+
+const MAX_LIST_LINES = 20;
+const MAX_ASSIGN_BUTTONS = 10;
+
+export type ReconciliationReport = {
+  samsaraAvailable: boolean; // false = vehicle list could not be loaded (orphans not checked)
+  unmappedVehicles: VehicleInfo[];
+  orphanedTrucks: Truck[];
+  undelivered: { vehicleName: string; count: number; lastAt: Date }[];
+  failedDeliveries: (OutboxMessage & { chatName: string | null })[];
+  lookbackHours: number;
+};
+
+function getLookbackHours(): number {
+  const hours = parseInt(process.env.RECONCILE_LOOKBACK_HOURS || '24', 10);
+  return isNaN(hours) || hours <= 0 ? 24 : hours;
+}
+
+/**
+ * Build the reconciliation report.
+ *
+ * @param now - Current time (injectable for testing)
+ */
+export async function buildReconciliationReport(now: Date = new Date()): Promise<ReconciliationReport> {
+  const lookbackHours = getLookbackHours();
+  let samsaraAvailable = true;
+  const loadVehicles = async (): Promise<VehicleInfo[]> => {
+    try {
+      return await loadAllVehicles();
+    } catch (err) {
+      const error = toSamsaraError(err, 'GET /fleet/vehicles');
+      console.error(`❌ [RECONCILE] Could not load Samsara vehicles (${error.kind}):`, error.message);
+      samsaraAvailable = false;
+      return [];
+    }
+  };
+  const since = new Date(now.getTime() - lookbackHours * 60 * 60 * 1000);
+  const [vehicles, trucks, undeliveredLogs, failedMessages, chats] = await Promise.all([
+    loadVehicles(),
+    getAllTrucks(),
+    getUndeliveredSafetyEvents(since),
+    getFailedOutboxMessages(since),
+    getAllChats(),
+  ]);
+  const chatNames = new Map(chats.map((c) => [c.telegramChatId, c.name]));
+
+  // Same matching as findTruckByVehicle: vehicle ID first, then name of an unlinked truck
+  const trucksById = new Map(trucks.filter((t) => t.samsaraVehicleId).map((t) => [t.samsaraVehicleId, t]));
+  const trucksByName = new Map(trucks.filter((t) => !t.samsaraVehicleId).map((t) => [t.name, t]));
+  const findTruck = (v: VehicleInfo) => trucksById.get(v.id) ?? trucksByName.get(v.name as string);
+  const vehicleIds = new Set(vehicles.map((v) => v.id));
+  const vehicleNames = new Set(vehicles.map((v) => v.name).filter(Boolean));
+
+  const undelivered = new Map<string, { vehicleName: string; count: number; lastAt: Date }>();
+  for (const log of undeliveredLogs) {
+    const entry = undelivered.get(log.vehicleName);
+    if (entry) {
+      entry.count += 1;
+    } else {
+      // Rows are newest first
+      undelivered.set(log.vehicleName, { vehicleName: log.vehicleName, count: 1, lastAt: log.createdAt });
+    }
+  }
+
+  return {
+    samsaraAvailable,
+    unmappedVehicles: vehicles
+      .filter((v) => v.name && (findTruck(v)?.chatId ?? null) === null)
+      .sort((a, b) => (a.name as string).localeCompare(b.name as string)),
+    // A failed Samsara call doesn't mean every truck is gone
+    orphanedTrucks: samsaraAvailable
+      ? trucks.filter((t) => (t.samsaraVehicleId ? !vehicleIds.has(t.samsaraVehicleId) : !vehicleNames.has(t.name)))
+      : [],
+    undelivered: Array.from(undelivered.values()).sort((a, b) => b.count - a.count),
+    failedDeliveries: failedMessages.map((m) => ({ ...m, chatName: chatNames.get(m.chatId) ?? null })),
+    lookbackHours,
+  };
+}
+
+export function isReconciliationReportEmpty(report: ReconciliationReport): boolean {
+  return (
+    report.samsaraAvailable &&
+    !report.unmappedVehicles.length &&
+    !report.orphanedTrucks.length &&
+    !report.undelivered.length &&
+    !report.failedDeliveries.length
+  );
+}
+
+function listLines<T>(items: T[], format: (item: T) => string): string[] {
+  const lines = items.slice(0, MAX_LIST_LINES).map((item) => `• ${format(item)}`);
+  if (items.length > MAX_LIST_LINES) {
+    lines.push(`…and ${items.length - MAX_LIST_LINES} more`);
+  }
+  return lines;
+}
+
+/**
+ * Format the report with "assign" buttons for the first unmapped vehicles.
+ */
+export function formatReconciliationReport(report: ReconciliationReport): {
+  text: string;
+  keyboard: InlineKeyboardButton[][];
+} {
+  if (isReconciliationReportEmpty(report)) {
+    return { text: '✅ Reconciliation: every Samsara vehicle has a chat, nothing undelivered.', keyboard: [] };
+  }
+
+  const lines = ['🧭 Vehicle reconciliation'];
+  if (!report.samsaraAvailable) {
+    lines.push('', '⚠️ Could not load vehicles from Samsara, only undelivered events are checked.');
+  }
+  if (report.unmappedVehicles.length) {
+    lines.push('', `❓ Samsara vehicles without a chat (${report.unmappedVehicles.length}):`);
+    lines.push(...listLines(report.unmappedVehicles, (v) => v.name as string));
+  }
+  if (report.orphanedTrucks.length) {
+    lines.push('', `👻 Trucks not found in Samsara (${report.orphanedTrucks.length}) — renamed or removed? Try /link_trucks`);
+    lines.push(...listLines(report.orphanedTrucks, (t) => `${t.name}${t.chatId === null ? '' : ' (assigned)'}`));
+  }
+  if (report.undelivered.length) {
+    lines.push('', `📭 Events not delivered to any chat, last ${report.lookbackHours}h:`);
+    lines.push(
+      ...listLines(
+        report.undelivered,
+        (u) =>
+          `${u.vehicleName} — ${u.count} event(s), last ${u.lastAt.toLocaleString('en-US', {
+            timeZone: DEFAULT_TIMEZONE,
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+          })}`
+      )
+    );
+  }
+
+  if (report.failedDeliveries.length) {
+    lines.push('', `🚫 Alerts that failed to send, last ${report.lookbackHours}h:`);
+    lines.push(
+      ...listLines(
+        report.failedDeliveries,
+        (m) =>
+          `${m.kind} ${m.eventKey} → ${m.chatName ?? m.chatId.toString()} — ${m.attempts} attempt(s)` +
+          (m.lastError ? `: ${m.lastError.slice(0, 100)}` : '')
+      )
+    );
+  }
+
+  const keyboard = report.unmappedVehicles
+    .slice(0, MAX_ASSIGN_BUTTONS)
+    .map((v) => [Markup.button.callback(`➕ Assign ${v.name}`, `rc:v:${v.id}`)]);
+  if (report.unmappedVehicles.length > MAX_ASSIGN_BUTTONS) {
+    lines.push('', `Buttons for the first ${MAX_ASSIGN_BUTTONS}; use /assign_truck in the group for the rest.`);
+  }
+
+  return { text: lines.join('\n'), keyboard };
+}
+
+/**
+ * Send the report to every bot admin. Runs from the cron in index.ts (RECONCILE_CRON).
+ * Nothing is sent when there is nothing to report.
+ *
+ * @param telegram - Telegram API instance
+ * @param now - Current time (injectable for testing)
+ */
+export async function runReconciliationReport(telegram: Telegram, now: Date = new Date()): Promise<void> {
+  const report = await buildReconciliationReport(now);
+  if (isReconciliationReportEmpty(report)) {
+    console.log('🧭 [RECONCILE] Nothing to report');
+    return;
+  }
+
+  const { text, keyboard } = formatReconciliationReport(report);
+  for (const adminId of getTelegramAdminIds()) {
+    try {
+      await telegram.sendMessage(adminId, text, { reply_markup: { inline_keyboard: keyboard } });
+    } catch (err: any) {
+      // The admin must have started the bot in a private chat
+      console.error(
+        `❌ [RECONCILE] Failed to send report to admin ${adminId}:`,
+        err.response?.description || err.message
+      );
+    }
+  }
+  console.log(
+    `🧭 [RECONCILE] unmapped=${report.unmappedVehicles.length} orphaned=${report.orphanedTrucks.length} undelivered=${report.undelivered.length} failed=${report.failedDeliveries.length}`
+  );
+}
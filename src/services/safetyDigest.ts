@@ -0,0 +1,226 @@
+import { Telegram } from 'telegraf';
+import { Chat, SafetyEventLog } from '@prisma/client';
+import {
+  alertMessages,
+  convertSpeed,
+  digestMessages,
+  getAlertLocale,
+  translateBehaviorLabel,
+} from '../messages';
+import {
+  getAllChats,
+  getChatSafetyEventsInRange,
+  getPtiCompletionsInRange,
+  markDigestSent,
+} from '../repository';
+import {
+  DEFAULT_TIMEZONE,
+  getLocalDate,
+  getLocalDateKey,
+  getUtcForLocalTime,
+  getZonedParts,
+  parseTimeOfDay,
+  parseWorkingDays,
+} from './timezone';
+
+/**
+ * Per-group safety digest (opt-in with /digest).
+ *
+ * daily: the previous local day; weekly: the previous 7 local days.
+ * Contents: events by behavior, worst speeding interval, PTI status and the
+ * change in event count versus the period before. Dismissed events don't count.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type DigestPeriod = {
+  days: Date[]; // Local calendar days (UTC midnight)
+  from: Date; // UTC moment of the first local midnight
+  to: Date; // UTC moment of the local midnight after the last day
+};
+
+/**
+ * Local-day period of `length` days ending the day before `today` (offset in periods).
+ */
+function buildPeriod(today: Date, length: number, periodsBack: number, timeZone: string): DigestPeriod {
+  const first = new Date(today.getTime() - length * (periodsBack + 1) * DAY_MS);
+  const days = Array.from({ length }, (_, i) => new Date(first.getTime() + i * DAY_MS));
+  const after = new Date(first.getTime() + length * DAY_MS);
+  return {
+    days,
+    from: getUtcForLocalTime(first.toISOString().slice(0, 10), 0, timeZone),
+    to: getUtcForLocalTime(after.toISOString().slice(0, 10), 0, timeZone),
+  };
+}
+
+function formatTrend(current: number, previous: number): string {
+  const diff = current - previous;
+  if (diff > 0) return `▲ +${diff}`;
+  if (diff < 0) return `▼ −${Math.abs(diff)}`;
+  return '= 0';
+}
+
+type WorstSpeeding = { log: SafetyEventLog; maxMph: number; limitMph: number };
+
+/**
+ * Worst speeding interval (max speed over limit) among logged severe-speeding events.
+ * Uses the same UnifiedEvent details as formatSevereSpeedingMessage.
+ */
+function findWorstSpeeding(logs: SafetyEventLog[]): WorstSpeeding | null {
+  let worst: WorstSpeeding | null = null;
+  for (const log of logs) {
+    if (!log.samsaraEventId.startsWith('speeding:')) continue;
+    const raw = log.rawJson as { details?: { maxSpeedMph?: number; speedLimitMph?: number } } | null;
+    const details = raw?.details;
+    const maxMph = details?.maxSpeedMph ?? 0;
+    const limitMph = details?.speedLimitMph ?? 0;
+    if (!worst || maxMph - limitMph > worst.maxMph - worst.limitMph) {
+      worst = { log, maxMph, limitMph };
+    }
+  }
+  return worst;
+}
+
+/**
+ * Build the digest text for a chat.
+ *
+ * @param chat - Destination chat (language, timezone, speed unit, PTI schedule)
+ * @param frequency - 'daily' or 'weekly'
+ * @param now - Current time (injectable for testing)
+ */
+export async function buildSafetyDigest(
+  chat: Chat,
+  frequency: 'daily' | 'weekly',
+  now: Date = new Date()
+): Promise<string> {
+  const locale = getAlertLocale(chat);
+  const t = digestMessages[locale.language];
+  const a = alertMessages[locale.language];
+  const timeZone = chat.timezone || DEFAULT_TIMEZONE;
+  const length = frequency === 'daily' ? 1 : 7;
+  const today = getLocalDate(now, timeZone);
+
+  const current = buildPeriod(today, length, 0, timeZone);
+  const previous = buildPeriod(today, length, 1, timeZone);
+
+  const [logs, previousLogs, completions] = await Promise.all([
+    getChatSafetyEventsInRange(chat.telegramChatId, current.from, current.to),
+    getChatSafetyEventsInRange(chat.telegramChatId, previous.from, previous.to),
+    getPtiCompletionsInRange(current.days[0], current.days[current.days.length - 1]),
+  ]);
+
+  const formatDay = (day: Date) =>
+    day.toLocaleDateString(a.dateLocale, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+  const lines: string[] = [
+    frequency === 'daily'
+      ? t.dailyTitle(formatDay(current.days[0]))
+      : t.weeklyTitle(formatDay(current.days[0]), formatDay(current.days[current.days.length - 1])),
+    '',
+  ];
+
+  // Events by behavior
+  if (!logs.length) {
+    lines.push(t.noEvents);
+  } else {
+    const comparedTo = frequency === 'daily' ? t.previousDay : t.previousWeek;
+    lines.push(t.events(logs.length, `${formatTrend(logs.length, previousLogs.length)} ${comparedTo}`));
+    const counts = new Map<string, number>();
+    for (const log of logs) {
+      for (const label of log.behavior.split(',').map((l) => l.trim()).filter(Boolean)) {
+        const name = translateBehaviorLabel(label, locale.language);
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      }
+    }
+    for (const [name, count] of Array.from(counts.entries()).sort((x, y) => y[1] - x[1])) {
+      lines.push(`• ${name} × ${count}`);
+    }
+  }
+
+  // Worst speeding interval
+  const worst = findWorstSpeeding(logs);
+  if (worst) {
+    const actual = convertSpeed(worst.maxMph, locale.speedUnit);
+    const limit = convertSpeed(worst.limitMph, locale.speedUnit);
+    const time = worst.log.timeLocal.toLocaleString(a.dateLocale, {
+      timeZone,
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: a.hour12,
+    });
+    lines.push(
+      '',
+      t.worstSpeeding(worst.log.vehicleName, actual, limit, actual - limit, a.units[locale.speedUnit], time)
+    );
+  }
+
+  // PTI status
+  const workingDays = parseWorkingDays(chat.ptiWorkingDays);
+  const registeredOn = getLocalDate(chat.createdAt, timeZone);
+  const completed = new Set(
+    completions.filter((c) => c.chatId === chat.id).map((c) => c.ptiDate.toISOString().slice(0, 10))
+  );
+  const evaluated = current.days.filter((d) => workingDays.has(d.getUTCDay()) && d >= registeredOn);
+  const done = evaluated.filter((d) => completed.has(d.toISOString().slice(0, 10))).length;
+
+  if (frequency === 'daily') {
+    const status = !evaluated.length ? t.ptiDayOff : done ? t.ptiDone : t.ptiMissed;
+    lines.push('', `${t.pti}: ${status}`);
+  } else {
+    lines.push('', `${t.pti}: ${t.ptiWeek(done, evaluated.length)}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Check whether a chat's digest is due at `now`: the latest scheduled moment
+ * (today at digestTime, or this week's digestWeekday at digestTime) has passed
+ * and no digest was sent since. A digest missed during a restart is sent late.
+ */
+function isDigestDue(chat: Chat, now: Date): boolean {
+  if (chat.digestFrequency === 'off') return false;
+
+  const timeZone = chat.timezone || DEFAULT_TIMEZONE;
+  const time = parseTimeOfDay(chat.digestTime);
+  if (time === null) return false;
+
+  const daysSinceScheduled =
+    chat.digestFrequency === 'weekly' ? (getZonedParts(now, timeZone).weekday - chat.digestWeekday + 7) % 7 : 0;
+  const scheduledKey = new Date(
+    new Date(`${getLocalDateKey(now, timeZone)}T00:00:00Z`).getTime() - daysSinceScheduled * 24 * 60 * 60 * 1000
+  )
+    .toISOString()
+    .slice(0, 10);
+  if (now < getUtcForLocalTime(scheduledKey, time, timeZone)) return false;
+
+  // Dates are "YYYY-MM-DD", so string order is date order
+  const lastSentKey = chat.lastDigestDate?.toISOString().slice(0, 10);
+  return !lastSentKey || lastSentKey < scheduledKey;
+}
+
+/**
+ * Send digests that are due now. Runs every minute from the cron in index.ts.
+ *
+ * @param telegram - Telegram API instance
+ * @param now - Current time (injectable for testing)
+ */
+export async function runDigestTick(telegram: Telegram, now: Date = new Date()): Promise<void> {
+  const chats = (await getAllChats()).filter((chat) => isDigestDue(chat, now));
+
+  for (const chat of chats) {
+    const frequency = chat.digestFrequency === 'weekly' ? 'weekly' : 'daily';
+    try {
+      const text = await buildSafetyDigest(chat, frequency, now);
+      await telegram.sendMessage(Number(chat.telegramChatId), text);
+      await markDigestSent(chat.id, getLocalDate(now, chat.timezone || DEFAULT_TIMEZONE));
+      console.log(`📰 [DIGEST] ${frequency} digest sent to ${chat.name}`);
+    } catch (err: any) {
+      console.error(
+        `❌ [DIGEST] Failed to send digest to ${chat.name}:`,
+        err.response?.description || err.message
+      );
+    }
+  }
+}
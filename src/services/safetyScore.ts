@@ -0,0 +1,397 @@
+import { Telegram } from 'telegraf';
+import { Chat, SafetyEventLog, Truck } from '@prisma/client';
+import { getAllChats, getAllTrucks, getScorableSafetyEvents } from '../repository';
+import { getAllVehiclesInfo, getVehicleMilesDriven } from './samsaraVehicles';
+
+/**
+ * Safety score engine.
+ *
+ * Every event in SafetyEventLog (except dismissed ones) costs points:
+ * safety events by behavior label, severe speeding by Samsara severityLevel.
+ * Score = 100 - points per 1000 miles (GPS odometer), clamped to 0..100 and
+ * compared with the previous period of the same length. Under MIN_MILES_FOR_RATE
+ * miles (or miles unknown) there is no score: shown as "insufficient mileage"
+ * and left out of the leaderboard ranking.
+ */
+
+export type ScoreWeights = {
+  behaviors: Record<string, number>; // key: label in lowercase letters only ("harshbrake")
+  speeding: Record<string, number>; // key: severityLevel ("heavy", "severe", ...)
+  defaultWeight: number; // Behavior without a configured weight
+};
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  behaviors: {
+    speeding: 3,
+    harshbrake: 5,
+    harshbraking: 5,
+    harshacceleration: 3,
+    harshturn: 3,
+    didnotyield: 6,
+    ranredlight: 8,
+    rollingstop: 4,
+    followingdistance: 2,
+    forwardcollisionwarning: 6,
+    mobileusage: 6,
+    crash: 20,
+    collision: 20,
+  },
+  speeding: {
+    light: 1,
+    moderate: 2,
+    heavy: 4,
+    severe: 8,
+  },
+  defaultWeight: 3,
+};
+
+// Below this many miles the per-mile rate is too noisy to score
+const MIN_MILES_FOR_RATE = 100;
+const SCORE_PERIOD_DAYS = 7;
+
+export type SafetyScore = {
+  events: number;
+  points: number;
+  miles: number | null;
+  score: number | null; // null: insufficient mileage
+  topBehaviors: { behavior: string; count: number }[];
+};
+
+export type ScoreSubject = {
+  kind: 'driver' | 'truck';
+  label: string;
+  telegramChatId: bigint | null; // Driver: events sent to this chat
+  vehicleNames: string[]; // Trucks whose miles count for the subject
+};
+
+export type ScoreCard = {
+  subject: ScoreSubject;
+  current: SafetyScore;
+  previous: SafetyScore;
+  trend: number | null; // current.score - previous.score (null if either is unscored)
+};
+
+/**
+ * Load weights: defaults merged with SAFETY_SCORE_WEIGHTS (JSON), e.g.
+ * {"behaviors":{"harshbrake":6},"speeding":{"severe":10},"defaultWeight":2}
+ */
+export function loadScoreWeights(): ScoreWeights {
+  const raw = process.env.SAFETY_SCORE_WEIGHTS;
+  if (!raw) {
+    return DEFAULT_SCORE_WEIGHTS;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      behaviors: { ...DEFAULT_SCORE_WEIGHTS.behaviors, ...(parsed.behaviors ?? {}) },
+      speeding: { ...DEFAULT_SCORE_WEIGHTS.speeding, ...(parsed.speeding ?? {}) },
+      defaultWeight: parsed.defaultWeight ?? DEFAULT_SCORE_WEIGHTS.defaultWeight,
+    };
+  } catch (err: any) {
+    console.warn('⚠️ [SCORE] Invalid SAFETY_SCORE_WEIGHTS, using defaults:', err.message);
+    return DEFAULT_SCORE_WEIGHTS;
+  }
+}
+
+function labelKey(label: string): string {
+  return label.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Points and behaviors of a single logged event.
+ */
+export function getEventPoints(
+  log: SafetyEventLog,
+  weights: ScoreWeights
+): { points: number; behaviors: string[] } {
+  if (log.samsaraEventId.startsWith('speeding:')) {
+    const raw = log.rawJson as { details?: { severityLevel?: string } } | null;
+    const severity = (raw?.details?.severityLevel || 'severe').toLowerCase().trim();
+    return {
+      points: weights.speeding[severity] ?? weights.speeding.severe ?? weights.defaultWeight,
+      behaviors: [log.behavior],
+    };
+  }
+
+  const behaviors = log.behavior
+    .split(',')
+    .map((l) => l.trim())
+    .filter((l) => l && l !== 'Unknown');
+  if (!behaviors.length) {
+    return { points: weights.defaultWeight, behaviors: ['Unknown'] };
+  }
+  const points = behaviors.reduce(
+    (sum, b) => sum + (weights.behaviors[labelKey(b)] ?? weights.defaultWeight),
+    0
+  );
+  return { points, behaviors };
+}
+
+/**
+ * Score a set of events.
+ *
+ * @param logs - Events of one subject in one period
+ * @param miles - Miles driven in the period (null if unknown)
+ * @param weights - Score weights
+ * @returns Score, with score null under MIN_MILES_FOR_RATE miles
+ */
+export function computeSafetyScore(
+  logs: SafetyEventLog[],
+  miles: number | null,
+  weights: ScoreWeights
+): SafetyScore {
+  let points = 0;
+  const counts = new Map<string, number>();
+
+  for (const log of logs) {
+    const event = getEventPoints(log, weights);
+    points += event.points;
+    for (const behavior of event.behaviors) {
+      counts.set(behavior, (counts.get(behavior) ?? 0) + 1);
+    }
+  }
+
+  const topBehaviors = Array.from(counts.entries())
+    .map(([behavior, count]) => ({ behavior, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3);
+
+  return {
+    events: logs.length,
+    points,
+    miles,
+    score:
+      miles !== null && miles >= MIN_MILES_FOR_RATE
+        ? Math.max(0, Math.min(100, Math.round(100 - (points * 1000) / miles)))
+        : null,
+    topBehaviors,
+  };
+}
+
+/**
+ * Driver subjects: every chat with trucks (one driver per group).
+ */
+export async function getDriverSubjects(): Promise<ScoreSubject[]> {
+  const [chats, trucks] = await Promise.all([getAllChats(), getAllTrucks()]);
+  return chats
+    .map((chat) => buildDriverSubject(chat, trucks.filter((t) => t.chatId === chat.id)))
+    .filter((s) => s.vehicleNames.length > 0);
+}
+
+/**
+ * Build a driver subject for a chat.
+ */
+export function buildDriverSubject(chat: Chat, trucks: Truck[]): ScoreSubject {
+  const driver =
+    [chat.driverFirstName, chat.driverLastName].filter(Boolean).join(' ') ||
+    (chat.driverUsername ? `@${chat.driverUsername}` : '');
+  const vehicleNames = trucks.map((t) => t.name);
+  return {
+    kind: 'driver',
+    label: `${driver || chat.name}${vehicleNames.length ? ` (${vehicleNames.join(', ')})` : ''}`,
+    telegramChatId: chat.telegramChatId,
+    vehicleNames,
+  };
+}
+
+/**
+ * Build a truck subject.
+ */
+export function buildTruckSubject(vehicleName: string): ScoreSubject {
+  return { kind: 'truck', label: vehicleName, telegramChatId: null, vehicleNames: [vehicleName] };
+}
+
+function subjectLogs(subject: ScoreSubject, logs: SafetyEventLog[]): SafetyEventLog[] {
+  return subject.kind === 'driver'
+    ? logs.filter((l) => l.sentToChatId !== null && l.sentToChatId === subject.telegramChatId)
+    : logs.filter((l) => l.vehicleName === subject.vehicleNames[0]);
+}
+
+/**
+ * Samsara vehicle IDs of the subjects' trucks: linked trucks by samsaraVehicleId,
+ * the rest by name from the (cached) vehicle list.
+ */
+async function getSubjectVehicleIds(subjects: ScoreSubject[]): Promise<string[]> {
+  const names = new Set(subjects.flatMap((s) => s.vehicleNames));
+  const ids = new Set<string>();
+
+  for (const truck of await getAllTrucks()) {
+    if (truck.samsaraVehicleId && names.delete(truck.name)) {
+      ids.add(truck.samsaraVehicleId);
+    }
+  }
+  if (names.size) {
+    for (const vehicle of await getAllVehiclesInfo()) {
+      if (vehicle.name && names.has(vehicle.name)) {
+        ids.add(vehicle.id);
+      }
+    }
+  }
+  return Array.from(ids);
+}
+
+function subjectMiles(subject: ScoreSubject, miles: Map<string, number>): number | null {
+  const known = subject.vehicleNames.filter((n) => miles.has(n));
+  return known.length ? known.reduce((sum, n) => sum + (miles.get(n) ?? 0), 0) : null;
+}
+
+/**
+ * Score cards for the last SCORE_PERIOD_DAYS days and the period before.
+ * Odometer history is fetched once, for the subjects' vehicles only.
+ *
+ * @param subjects - Drivers and/or trucks
+ * @param now - End of the current period (injectable for testing)
+ */
+export async function buildScoreCards(subjects: ScoreSubject[], now: Date = new Date()): Promise<ScoreCard[]> {
+  const periodMs = SCORE_PERIOD_DAYS * 24 * 60 * 60 * 1000;
+  const currentFrom = new Date(now.getTime() - periodMs);
+  const previousFrom = new Date(now.getTime() - 2 * periodMs);
+
+  const weights = loadScoreWeights();
+  const [logs, [currentMiles, previousMiles]] = await Promise.all([
+    getScorableSafetyEvents(previousFrom, now),
+    getSubjectVehicleIds(subjects).then((vehicleIds) =>
+      getVehicleMilesDriven(
+        [
+          { from: currentFrom, to: now },
+          { from: previousFrom, to: currentFrom },
+        ],
+        vehicleIds
+      )
+    ),
+  ]);
+  const currentLogs = logs.filter((l) => l.timeLocal >= currentFrom);
+  const previousLogs = logs.filter((l) => l.timeLocal < currentFrom);
+
+  return subjects.map((subject) => {
+    const current = computeSafetyScore(
+      subjectLogs(subject, currentLogs),
+      subjectMiles(subject, currentMiles),
+      weights
+    );
+    const previous = computeSafetyScore(
+      subjectLogs(subject, previousLogs),
+      subjectMiles(subject, previousMiles),
+      weights
+    );
+    const trend = current.score !== null && previous.score !== null ? current.score - previous.score : null;
+    return { subject, current, previous, trend };
+  });
+}
+
+function formatTrend(trend: number): string {
+  if (trend > 0) return `▲ +${trend}`;
+  if (trend < 0) return `▼ −${Math.abs(trend)}`;
+  return '= 0';
+}
+
+function formatMiles(score: SafetyScore): string {
+  return score.miles !== null ? `${Math.round(score.miles).toLocaleString('en-US')} mi` : 'miles unknown';
+}
+
+function formatScore(score: SafetyScore): string {
+  return score.score !== null ? `${score.score}/100` : 'insufficient mileage';
+}
+
+function formatTopBehaviors(score: SafetyScore): string {
+  return score.topBehaviors.map((b) => `${b.behavior} ×${b.count}`).join(', ');
+}
+
+/**
+ * Format a score card for /score.
+ */
+export function formatScoreCard(card: ScoreCard): string {
+  const { current, previous } = card;
+  const lines = [
+    `📊 Safety score — ${card.subject.label}`,
+    `Last ${SCORE_PERIOD_DAYS} days: ${formatScore(current)} (` +
+      (card.trend !== null ? `${formatTrend(card.trend)} vs ` : '') +
+      `previous ${SCORE_PERIOD_DAYS} days: ${formatScore(previous)})`,
+    `Events: ${current.events} (${current.points} pts) · ${formatMiles(current)}`,
+  ];
+  if (current.score === null) {
+    lines.push(`A score needs at least ${MIN_MILES_FOR_RATE} mi in the period.`);
+  }
+  if (current.topBehaviors.length) {
+    lines.push(`Top behaviors: ${formatTopBehaviors(current)}`);
+  } else {
+    lines.push('No events counted — well done! 🏆');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format the weekly leaderboard (best drivers first).
+ * Drivers without a score (insufficient mileage) are listed after the ranking.
+ */
+export function formatLeaderboard(cards: ScoreCard[]): string {
+  const sorted = cards.filter((c) => c.current.score !== null).sort(
+    (a, b) =>
+      b.current.score! - a.current.score! ||
+      (b.current.miles ?? 0) - (a.current.miles ?? 0) ||
+      a.subject.label.localeCompare(b.subject.label)
+  );
+
+  const lines = [`🏆 Weekly safety leaderboard (last ${SCORE_PERIOD_DAYS} days)`, ''];
+  sorted.forEach((card, index) => {
+    const medal = ['🥇', '🥈', '🥉'][index] ?? `${index + 1}.`;
+    const miles = card.current.miles !== null ? ` · ${Math.round(card.current.miles)} mi` : '';
+    lines.push(
+      `${medal} ${card.subject.label} — ${card.current.score}` +
+        (card.trend !== null ? ` (${formatTrend(card.trend)})` : '') +
+        ' · ' +
+        `${card.current.events} event(s)${miles}`
+    );
+    if (card.current.topBehaviors.length) {
+      lines.push(`    ${formatTopBehaviors(card.current)}`);
+    }
+  });
+
+  const unscored = cards
+    .filter((c) => c.current.score === null)
+    .sort((a, b) => a.subject.label.localeCompare(b.subject.label));
+  if (unscored.length) {
+    lines.push('', `Insufficient mileage (under ${MIN_MILES_FOR_RATE} mi), not ranked:`);
+    for (const card of unscored) {
+      lines.push(`• ${card.subject.label} — ${card.current.events} event(s) · ${formatMiles(card.current)}`);
+    }
+  }
+
+  if (!cards.length) {
+    lines.push('No drivers with trucks yet.');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Post the weekly leaderboard to the management chat.
+ *
+ * @param telegram - Telegram API instance
+ * @param chatId - Management chat (SAFETY_LEADERBOARD_CHAT_ID or SAFETY_MANAGER_CHAT_ID)
+ * @param now - End of the week (injectable for testing)
+ */
+export async function postWeeklyLeaderboard(
+  telegram: Telegram,
+  chatId: number,
+  now: Date = new Date()
+): Promise<void> {
+  const cards = await buildScoreCards(await getDriverSubjects(), now);
+  const text = formatLeaderboard(cards);
+
+  // Telegram message limit is 4096 chars
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const line of text.split('\n')) {
+    if (chunk.length + line.length + 1 > 3800) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    chunk += (chunk ? '\n' : '') + line;
+  }
+  if (chunk) chunks.push(chunk);
+
+  for (const part of chunks) {
+    await telegram.sendMessage(chatId, part);
+  }
+  console.log(`🏆 [SCORE] Weekly leaderboard posted to ${chatId} (${cards.length} drivers)`);
+}
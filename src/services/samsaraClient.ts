@@ -0,0 +1,440 @@
+import axios, { AxiosInstance, Method } from 'axios';
+import type { SafetyEvent } from '../samsara';
+
+/**
+ * Samsara API client.
+ *
+ * Every Samsara call goes through the SamsaraClient interface:
+ * - one base URL (SAMSARA_BASE_URL, e.g. a local stub server) and token (SAM_SARA_API_TOKEN);
+ * - one retry policy: 429, 5xx and network errors are retried SAMSARA_MAX_RETRIES times
+ *   with exponential backoff (429 waits for Retry-After);
+ * - typed errors, so callers can tell "no data" from "API down";
+ * - request metrics per endpoint (getMetrics, shown in /debug_safety).
+ * Tests replace the shared client with setSamsaraClient().
+ */
+
+export const DEFAULT_SAMSARA_BASE_URL = 'https://api.samsara.com';
+
+// ================== ТИПЫ ОТВЕТОВ ==================
+
+export type SamsaraPagination = { endCursor?: string; hasNextPage?: boolean };
+
+export type SamsaraListResponse<T> = { data: T[]; pagination?: SamsaraPagination };
+
+export type SamsaraVehicle = {
+  id: string;
+  name?: string;
+  vin?: string;
+  serial?: string;
+  externalIds?: Record<string, string>;
+  [key: string]: any;
+};
+
+export type SamsaraSpeedingIntervalRecord = {
+  startTime: string;
+  endTime: string;
+  severityLevel?: string;
+  maxSpeedKilometersPerHour?: number;
+  postedSpeedLimitKilometersPerHour?: number;
+  driverId?: string;
+  [key: string]: any;
+};
+
+// /speeding-intervals/stream pages with pagination.nextCursor
+export type SamsaraSpeedingResponse = {
+  data: { asset?: { id?: string }; intervals?: SamsaraSpeedingIntervalRecord[] }[];
+  pagination?: { nextCursor?: string };
+};
+
+export type SamsaraOdometerRecord = {
+  id: string;
+  name?: string;
+  gpsOdometerMeters?: { time: string; value: number }[];
+};
+
+export type SafetyEventCoachingState = 'coached' | 'dismissed';
+
+export type SamsaraUpdateResult = { ok: true } | { ok: false; status: number | null; error: string };
+
+// ================== ОШИБКИ ==================
+
+export type SamsaraErrorKind = 'auth' | 'rate_limit' | 'server' | 'network' | 'client';
+
+/**
+ * A failed Samsara request (after retries). `kind` tells what went wrong.
+ */
+export class SamsaraApiError extends Error {
+  constructor(
+    readonly kind: SamsaraErrorKind,
+    message: string,
+    readonly endpoint: string,
+    readonly status: number | null = null,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = 'SamsaraApiError';
+  }
+}
+
+/** Missing / invalid token or no access (401, 403). */
+export class SamsaraAuthError extends SamsaraApiError {
+  constructor(message: string, endpoint: string, status: number | null = null) {
+    super('auth', message, endpoint, status);
+    this.name = 'SamsaraAuthError';
+  }
+}
+
+/** 429 Too Many Requests. */
+export class SamsaraRateLimitError extends SamsaraApiError {
+  constructor(message: string, endpoint: string, retryAfterMs: number | null) {
+    super('rate_limit', message, endpoint, 429, retryAfterMs);
+    this.name = 'SamsaraRateLimitError';
+  }
+}
+
+/** 5xx from Samsara. */
+export class SamsaraServerError extends SamsaraApiError {
+  constructor(message: string, endpoint: string, status: number) {
+    super('server', message, endpoint, status);
+    this.name = 'SamsaraServerError';
+  }
+}
+
+/** No response: timeout, DNS, connection reset. */
+export class SamsaraNetworkError extends SamsaraApiError {
+  constructor(message: string, endpoint: string) {
+    super('network', message, endpoint);
+    this.name = 'SamsaraNetworkError';
+  }
+}
+
+// ================== МЕТРИКИ ==================
+
+export type SamsaraEndpointMetrics = {
+  requests: number; // HTTP requests, retries included
+  failures: number; // Failed HTTP requests
+  retries: number;
+  totalMs: number;
+  lastError: string | null;
+};
+
+export type SamsaraClientMetrics = {
+  since: Date;
+  endpoints: Record<string, SamsaraEndpointMetrics>;
+  errors: Record<SamsaraErrorKind, number>;
+};
+
+// ================== КЛИЕНТ ==================
+
+export interface SamsaraClient {
+  /**
+   * Endpoint: GET {baseUrl}/fleet/safety-events (one page, cursor in `after`)
+   */
+  listSafetyEvents(params: {
+    startTime: string;
+    endTime: string;
+    limit: number;
+    after?: string;
+    vehicleIds?: string;
+  }): Promise<SamsaraListResponse<SafetyEvent>>;
+
+  /**
+   * Endpoint: GET {baseUrl}/fleet/vehicles (one page, cursor in `after`)
+   */
+  listVehicles(params?: { after?: string }): Promise<SamsaraListResponse<SamsaraVehicle>>;
+
+  /**
+   * Endpoint: GET {baseUrl}/fleet/vehicles/stats/history?types=gpsOdometerMeters (one page)
+   */
+  getVehicleOdometerHistory(params: {
+    startTime: string;
+    endTime: string;
+    vehicleIds?: string[];
+    after?: string;
+  }): Promise<SamsaraListResponse<SamsaraOdometerRecord>>;
+
+  /**
+   * Endpoint: GET {baseUrl}/speeding-intervals/stream (one page, cursor in `cursor`)
+   */
+  streamSpeedingIntervals(params: {
+    startTime: string;
+    endTime: string;
+    assetIds: string[];
+    cursor?: string;
+  }): Promise<SamsaraSpeedingResponse>;
+
+  /**
+   * Set the coaching state of a safety event.
+   * Endpoint: PATCH {baseUrl}/fleet/safety-events/{id}
+   */
+  updateSafetyEventCoachingState(
+    eventId: string,
+    coachingState: SafetyEventCoachingState
+  ): Promise<SamsaraUpdateResult>;
+
+  /**
+   * Request counters since the client was created.
+   */
+  getMetrics(): SamsaraClientMetrics;
+}
+
+export type SamsaraClientOptions = {
+  baseUrl?: string; // Default: SAMSARA_BASE_URL or https://api.samsara.com
+  token?: string; // Default: SAM_SARA_API_TOKEN
+  timeoutMs?: number;
+  maxRetries?: number; // Default: SAMSARA_MAX_RETRIES or 3
+  baseRetryDelayMs?: number; // First backoff step (doubles each retry)
+};
+
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+// A longer Retry-After is returned to the caller instead of blocking the cron
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+function readMaxRetries(): number {
+  const value = parseInt(process.env.SAMSARA_MAX_RETRIES || '3', 10);
+  return isNaN(value) || value < 0 ? 3 : value;
+}
+
+function parseRetryAfterMs(value: unknown): number | null {
+  const seconds = parseFloat(String(value ?? ''));
+  return isNaN(seconds) || seconds < 0 ? null : Math.ceil(seconds * 1000);
+}
+
+/**
+ * Turn an axios error into a typed Samsara error.
+ */
+export function toSamsaraError(err: any, endpoint: string): SamsaraApiError {
+  if (err instanceof SamsaraApiError) {
+    return err;
+  }
+
+  const status: number | undefined = err?.response?.status;
+  if (!status) {
+    return new SamsaraNetworkError(err?.code ? `${err.code}: ${err.message}` : err?.message || 'Network error', endpoint);
+  }
+
+  const data = err.response.data;
+  const message = `HTTP ${status}: ${data?.message || (data ? JSON.stringify(data).slice(0, 300) : err.message)}`;
+  if (status === 401 || status === 403) {
+    return new SamsaraAuthError(message, endpoint, status);
+  }
+  if (status === 429) {
+    return new SamsaraRateLimitError(message, endpoint, parseRetryAfterMs(err.response.headers?.['retry-after']));
+  }
+  if (status >= 500) {
+    return new SamsaraServerError(message, endpoint, status);
+  }
+  return new SamsaraApiError('client', message, endpoint, status);
+}
+
+function isRetryable(error: SamsaraApiError): boolean {
+  if (error.kind === 'rate_limit') {
+    return error.retryAfterMs === null || error.retryAfterMs <= MAX_RETRY_AFTER_MS;
+  }
+  return error.kind === 'server' || error.kind === 'network';
+}
+
+/**
+ * Create an axios-based Samsara client.
+ */
+export function createSamsaraClient(options: SamsaraClientOptions = {}): SamsaraClient {
+  const token = options.token ?? process.env.SAM_SARA_API_TOKEN;
+  const maxRetries = options.maxRetries ?? readMaxRetries();
+  const baseRetryDelayMs = options.baseRetryDelayMs ?? 1000;
+  const http: AxiosInstance = axios.create({
+    baseURL: (options.baseUrl ?? process.env.SAMSARA_BASE_URL ?? DEFAULT_SAMSARA_BASE_URL).replace(/\/+$/, ''),
+    timeout: options.timeoutMs ?? 15000,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: 'application/json',
+    },
+  });
+
+  const metrics: SamsaraClientMetrics = {
+    since: new Date(),
+    endpoints: {},
+    errors: { auth: 0, rate_limit: 0, server: 0, network: 0, client: 0 },
+  };
+
+  const endpointMetrics = (endpoint: string): SamsaraEndpointMetrics => {
+    if (!metrics.endpoints[endpoint]) {
+      metrics.endpoints[endpoint] = { requests: 0, failures: 0, retries: 0, totalMs: 0, lastError: null };
+    }
+    return metrics.endpoints[endpoint];
+  };
+
+  /**
+   * Send a request with the shared retry policy.
+   *
+   * @param endpoint - Metrics label, e.g. "GET /fleet/safety-events"
+   */
+  async function request<T>(
+    method: Method,
+    path: string,
+    endpoint: string,
+    config: { params?: any; data?: any } = {}
+  ): Promise<T> {
+    const stats = endpointMetrics(endpoint);
+    if (!token) {
+      const error = new SamsaraAuthError('SAM_SARA_API_TOKEN is missing', endpoint);
+      stats.failures += 1;
+      stats.lastError = error.message;
+      metrics.errors.auth += 1;
+      throw error;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const startedAt = Date.now();
+      stats.requests += 1;
+      try {
+        const res = await http.request<T>({ method, url: path, ...config });
+        stats.totalMs += Date.now() - startedAt;
+        return res.data;
+      } catch (err: any) {
+        stats.totalMs += Date.now() - startedAt;
+        const error = toSamsaraError(err, endpoint);
+        stats.failures += 1;
+        stats.lastError = error.message;
+
+        if (!isRetryable(error) || attempt >= maxRetries) {
+          metrics.errors[error.kind] += 1;
+          throw error;
+        }
+
+        const delayMs = Math.min(
+          error.retryAfterMs ?? baseRetryDelayMs * 2 ** attempt,
+          error.kind === 'rate_limit' ? MAX_RETRY_AFTER_MS : MAX_RETRY_DELAY_MS
+        );
+        stats.retries += 1;
+        console.warn(
+          `⏳ [SAMSARA] ${endpoint} ${error.kind} (${error.message}), retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+
+  return {
+    async listSafetyEvents(params) {
+      const raw = await request<any>('GET', '/fleet/safety-events', 'GET /fleet/safety-events', {
+        params: {
+          startTime: params.startTime,
+          endTime: params.endTime,
+          limit: params.limit,
+          ...(params.vehicleIds ? { vehicleIds: params.vehicleIds } : {}),
+          ...(params.after ? { after: params.after } : {}),
+        },
+      });
+      // Older responses used "safetyEvents" or a bare array
+      const data = raw?.data ?? raw?.safetyEvents ?? (Array.isArray(raw) ? raw : []);
+      return { data: Array.isArray(data) ? data : [], pagination: raw?.pagination };
+    },
+
+    async listVehicles(params = {}) {
+      const raw = await request<SamsaraListResponse<SamsaraVehicle>>('GET', '/fleet/vehicles', 'GET /fleet/vehicles', {
+        params: params.after ? { after: params.after } : {},
+      });
+      return { data: raw?.data ?? [], pagination: raw?.pagination };
+    },
+
+    async getVehicleOdometerHistory(params) {
+      const raw = await request<SamsaraListResponse<SamsaraOdometerRecord>>(
+        'GET',
+        '/fleet/vehicles/stats/history',
+        'GET /fleet/vehicles/stats/history',
+        {
+          params: {
+            types: 'gpsOdometerMeters',
+            startTime: params.startTime,
+            endTime: params.endTime,
+            ...(params.vehicleIds?.length ? { vehicleIds: params.vehicleIds.join(',') } : {}),
+            ...(params.after ? { after: params.after } : {}),
+          },
+        }
+      );
+      return { data: raw?.data ?? [], pagination: raw?.pagination };
+    },
+
+    async streamSpeedingIntervals(params) {
+      // Repeated assetIds keys (assetIds=1&assetIds=2), not assetIds[]=
+      const query = new URLSearchParams();
+      query.set('startTime', params.startTime);
+      query.set('endTime', params.endTime);
+      for (const assetId of params.assetIds) {
+        query.append('assetIds', assetId);
+      }
+      if (params.cursor) {
+        query.set('cursor', params.cursor);
+      }
+      const raw = await request<SamsaraSpeedingResponse>(
+        'GET',
+        '/speeding-intervals/stream',
+        'GET /speeding-intervals/stream',
+        { params: query }
+      );
+      return { data: raw?.data ?? [], pagination: raw?.pagination };
+    },
+
+    async updateSafetyEventCoachingState(eventId, coachingState) {
+      try {
+        await request(
+          'PATCH',
+          `/fleet/safety-events/${encodeURIComponent(eventId)}`,
+          'PATCH /fleet/safety-events/{id}',
+          { data: { coachingState } }
+        );
+        return { ok: true };
+      } catch (err) {
+        const error = toSamsaraError(err, 'PATCH /fleet/safety-events/{id}');
+        console.error(`❌ [SAMSARA] Failed to set coachingState=${coachingState} for ${eventId}:`, error.message);
+        return { ok: false, status: error.status, error: error.message };
+      }
+    },
+
+    getMetrics() {
+      return metrics;
+    },
+  };
+}
+
+let defaultClient: SamsaraClient | null = null;
+
+/**
+ * Shared client for the bot (created on first use).
+ */
+export function getSamsaraClient(): SamsaraClient {
+  if (!defaultClient) {
+    defaultClient = createSamsaraClient();
+  }
+  return defaultClient;
+}
+
+/**
+ * Replace the shared client (tests, stub servers). Pass null to reset.
+ */
+export function setSamsaraClient(client: SamsaraClient | null): void {
+  defaultClient = client;
+}
+
+/**
+ * Request metrics of the shared client as text lines (for /debug_safety).
+ */
+export function formatSamsaraMetrics(metrics: SamsaraClientMetrics): string[] {
+  const lines = [`Samsara API since ${metrics.since.toISOString()}:`];
+  const endpoints = Object.entries(metrics.endpoints);
+  if (!endpoints.length) {
+    lines.push('  no requests yet');
+  }
+  for (const [endpoint, m] of endpoints) {
+    const avgMs = m.requests ? Math.round(m.totalMs / m.requests) : 0;
+    lines.push(
+      `  ${endpoint}: ${m.requests} req, ${m.failures} failed, ${m.retries} retries, avg ${avgMs}ms` +
+        (m.lastError ? ` (last error: ${m.lastError.slice(0, 120)})` : '')
+    );
+  }
+  const errors = Object.entries(metrics.errors).filter(([, count]) => count > 0);
+  if (errors.length) {
+    lines.push(`  Failed calls by kind: ${errors.map(([kind, count]) => `${kind}=${count}`).join(', ')}`);
+  }
+  return lines;
+}
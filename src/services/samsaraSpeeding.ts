@@ -1,5 +1,5 @@
-import axios from 'axios';
-import { getAllVehicleAssetIds } from './samsaraVehicles';
+import { getAllVehicleAssetIds, loadAllVehicles } from './samsaraVehicles';
+import { getSamsaraClient, SamsaraApiError, toSamsaraError } from './samsaraClient';
 import { isEventSent, markEventSent } from '../repository';
 
 /**
@@ -75,7 +75,6 @@ function expandWindow(isoStart: string, isoEnd: string, minutes: number): Window
  * Returns the raw intervals found (not filtered by severity).
  */
 async function fetchSpeedingIntervalsForWindow(
-  token: string,
   window: Window,
   chunk: string[],
   chunkIdx: number,
@@ -89,32 +88,16 @@ async function fetchSpeedingIntervalsForWindow(
   const maxPages = 100; // Safety limit
 
   while (hasMore && pageCount < maxPages) {
-    // Build URLSearchParams with repeated assetIds keys
-    const params = new URLSearchParams();
-    params.set('startTime', window.startTime);
-    params.set('endTime', window.endTime);
-    
-    // Append each assetId as separate param (repeated keys)
-    for (const assetId of chunk) {
-      params.append('assetIds', assetId);
-    }
-
-    if (cursor) {
-      params.set('cursor', cursor);
-    }
-
-    const url = `https://api.samsara.com/speeding-intervals/stream`;
-
-    const res = await axios.get(url, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: 'application/json',
-      },
-      params,
+    // Repeated assetIds keys, retries and 429 backoff are handled by the Samsara client
+    const res = await getSamsaraClient().streamSpeedingIntervals({
+      startTime: window.startTime,
+      endTime: window.endTime,
+      assetIds: chunk,
+      cursor,
     });
 
     // Parse response: records = payload.data ?? []
-    const records = res.data?.data ?? [];
+    const records = res.data;
     if (!Array.isArray(records)) {
       console.warn(`[SAMSARA][SPEEDING] Chunk ${chunkIdx + 1}/${totalChunks}: Unexpected response structure`);
       break;
@@ -168,7 +151,7 @@ async function fetchSpeedingIntervalsForWindow(
     }
 
     // Check for pagination
-    cursor = res.data?.pagination?.nextCursor;
+    cursor = res.pagination?.nextCursor;
     hasMore = !!cursor && flatIntervals.length > 0;
     pageCount++;
   }
@@ -191,7 +174,7 @@ async function fetchSpeedingIntervalsForWindow(
  * - If empty, retries with ±360 minutes
  * - Optionally retries with ±720 minutes (12 hours) as final fallback
  * 
- * Endpoint: GET https://api.samsara.com/speeding-intervals/stream
+ * Endpoint: GET /speeding-intervals/stream
  * 
  * Response structure:
  * {
@@ -237,13 +220,6 @@ export async function fetchSpeedingIntervalsAll(
 async function fetchSpeedingIntervalsInternal(
   opts: { from: Date; to: Date; assetIds?: string[] }
 ): Promise<{ total: number; intervals: SpeedingInterval[]; severe: SpeedingInterval[] }> {
-  const token = process.env.SAM_SARA_API_TOKEN;
-
-  if (!token) {
-    console.error('❌ SAM_SARA_API_TOKEN is missing in .env');
-    return { total: 0, intervals: [], severe: [] };
-  }
-
   // Resolve asset IDs: use provided, or fetch all vehicles, or env override
   let assetIds = opts.assetIds;
   if (!assetIds || assetIds.length === 0) {
@@ -300,7 +276,6 @@ async function fetchSpeedingIntervalsInternal(
 
       try {
         const result = await fetchSpeedingIntervalsForWindow(
-          token,
           expandedWindow,
           chunk,
           chunkIdx + 1,
@@ -330,11 +305,13 @@ async function fetchSpeedingIntervalsInternal(
           );
         }
       } catch (err: any) {
+        const error = toSamsaraError(err, 'GET /speeding-intervals/stream');
         console.error(
-          `[SAMSARA][SPEEDING] Error fetching chunk ${chunkIdx + 1}/${chunks.length} with ${strategy.label}:`,
-          err.response?.data || err.message
+          `[SAMSARA][SPEEDING] Error fetching chunk ${chunkIdx + 1}/${chunks.length} with ${strategy.label} (${error.kind}):`,
+          error.message
         );
-        // Continue to next expansion strategy
+        // A failed request is not an empty window - a wider window won't help
+        break;
       }
     }
 
@@ -395,26 +372,22 @@ function getSpeedingIntervalDedupKey(interval: SpeedingInterval): string {
  * - endTime = now + 1 minute (to avoid edge misses)
  * - Deduplicates using key: ${assetId}:${startTime}:${endTime}
  * - Returns only new severe intervals (not already sent)
+ * - opts.since (poll cursor after downtime) widens the window back to since - bufferMinutes
  * 
- * @param opts - Options with optional asset IDs
+ * @param opts - Options with optional asset IDs and catch-up start
  * @returns Object with total intervals count, severe intervals count, and new severe intervals to post
  */
 export async function fetchSpeedingIntervalsWithSlidingWindow(
-  opts: { assetIds?: string[] } = {}
+  opts: { assetIds?: string[]; since?: Date } = {}
 ): Promise<{ 
   total: number; 
   severe: number; 
   newToPost: SpeedingInterval[];
   windowStart: string;
   windowEnd: string;
+  failedAssetIds: string[]; // Assets whose intervals could not be fetched (results incomplete)
+  error: SamsaraApiError | null; // Vehicle list or last asset error
 }> {
-  const token = process.env.SAM_SARA_API_TOKEN;
-
-  if (!token) {
-    console.error('❌ SAM_SARA_API_TOKEN is missing in .env');
-    return { total: 0, severe: 0, newToPost: [], windowStart: '', windowEnd: '' };
-  }
-
   // Configuration from env vars
   // Минимальное окно 10 часов (чтобы не терять события из-за задержек обработки)
   const windowHours = Math.max(
@@ -425,7 +398,13 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
 
   // Calculate sliding window
   const now = new Date();
-  const windowStart = new Date(now.getTime() - (windowHours * 60 + bufferMinutes) * 60 * 1000);
+  let windowStart = new Date(now.getTime() - (windowHours * 60 + bufferMinutes) * 60 * 1000);
+  if (opts.since) {
+    const catchUpStart = new Date(opts.since.getTime() - bufferMinutes * 60 * 1000);
+    if (catchUpStart < windowStart) {
+      windowStart = catchUpStart;
+    }
+  }
   const windowEnd = new Date(now.getTime() + 1 * 60 * 1000); // +1 minute to avoid edge misses
 
   const window: Window = {
@@ -436,12 +415,34 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
   // Resolve asset IDs
   let assetIds = opts.assetIds;
   if (!assetIds || assetIds.length === 0) {
-    assetIds = await getAllVehicleAssetIds();
+    try {
+      assetIds = (await loadAllVehicles()).map((v) => v.id);
+    } catch (err) {
+      const error = toSamsaraError(err, 'GET /fleet/vehicles');
+      console.error(`[SAMSARA][SPEEDING] Could not load vehicles (${error.kind}):`, error.message);
+      return {
+        total: 0,
+        severe: 0,
+        newToPost: [],
+        windowStart: window.startTime,
+        windowEnd: window.endTime,
+        failedAssetIds: [],
+        error,
+      };
+    }
   }
 
   if (assetIds.length === 0) {
     console.warn('[SAMSARA][SPEEDING] No asset IDs available for speeding intervals fetch');
-    return { total: 0, severe: 0, newToPost: [], windowStart: window.startTime, windowEnd: window.endTime };
+    return {
+      total: 0,
+      severe: 0,
+      newToPost: [],
+      windowStart: window.startTime,
+      windowEnd: window.endTime,
+      failedAssetIds: [],
+      error: null,
+    };
   }
 
   console.log(
@@ -459,47 +460,21 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
 
   // IMPORTANT: Fetch per-asset to avoid incomplete results from multi-asset requests.
   // This matches the proven Insomnia behavior and ensures we don't miss events for other trucks.
-  // Reduced concurrency and added delays to avoid Samsara rate limits
+  // Reduced concurrency and added delays to avoid Samsara rate limits (429 retries are in the client)
   const CONCURRENCY = parseInt(process.env.SPEEDING_FETCH_CONCURRENCY || '2', 10); // Reduced from 4 to 2
   const BATCH_DELAY_MS = parseInt(process.env.SPEEDING_BATCH_DELAY_MS || '1000', 10); // 1 second between batches
-  
-  // Helper function to retry on rate limit with exponential backoff
-  const fetchWithRetry = async (assetId: string, maxRetries = 3): Promise<{ records: number; intervals: SpeedingInterval[] }> => {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await fetchSpeedingIntervalsForWindow(
-          token,
-          window,
-          [assetId],
-          1,
-          1,
-        );
-      } catch (err: any) {
-        const errorMsg = err.response?.data || err.message || String(err);
-        const isRateLimit = 
-          err.response?.status === 429 ||
-          (typeof errorMsg === 'string' && errorMsg.toLowerCase().includes('rate limit')) ||
-          (typeof errorMsg === 'string' && errorMsg.toLowerCase().includes('exceeded rate limit'));
-        
-        if (isRateLimit && attempt < maxRetries - 1) {
-          // Exponential backoff: 2s, 4s, 8s
-          const waitMs = Math.pow(2, attempt + 1) * 1000;
-          console.warn(
-            `[SAMSARA][SPEEDING] Rate limit for assetId=${assetId}, attempt ${attempt + 1}/${maxRetries}, waiting ${waitMs}ms...`
-          );
-          await new Promise(resolve => setTimeout(resolve, waitMs));
-          continue; // Retry
-        }
-        
-        // Not rate limit, or max retries reached
-        console.error(
-          `[SAMSARA][SPEEDING] Error fetching assetId=${assetId} (attempt ${attempt + 1}/${maxRetries}):`,
-          errorMsg
-        );
-        return { records: 0, intervals: [] as SpeedingInterval[] };
-      }
+
+  const failedAssetIds: string[] = [];
+  let lastError: SamsaraApiError | null = null;
+  const fetchAsset = async (assetId: string): Promise<{ records: number; intervals: SpeedingInterval[] }> => {
+    try {
+      return await fetchSpeedingIntervalsForWindow(window, [assetId], 1, 1);
+    } catch (err) {
+      lastError = toSamsaraError(err, 'GET /speeding-intervals/stream');
+      failedAssetIds.push(assetId);
+      console.error(`[SAMSARA][SPEEDING] Error fetching assetId=${assetId} (${lastError.kind}):`, lastError.message);
+      return { records: 0, intervals: [] as SpeedingInterval[] };
     }
-    return { records: 0, intervals: [] as SpeedingInterval[] };
   };
 
   // Process assets sequentially in batches with delays to avoid rate limits
@@ -508,7 +483,7 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
     
     // Process batch with limited concurrency
     const results = await Promise.all(
-      batch.map(async (assetId) => await fetchWithRetry(assetId))
+      batch.map(async (assetId) => await fetchAsset(assetId))
     );
 
     for (const r of results) {
@@ -541,7 +516,8 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
   }
 
   console.log(
-    `[SAMSARA][SPEEDING] totalIntervals=${allFlattenedIntervals.length} severe=${severeIntervals.length} newToPost=${newToPost.length}`
+    `[SAMSARA][SPEEDING] totalIntervals=${allFlattenedIntervals.length} severe=${severeIntervals.length} newToPost=${newToPost.length}` +
+      (failedAssetIds.length ? ` failedAssets=${failedAssetIds.length}` : '')
   );
 
   return {
@@ -550,6 +526,8 @@ export async function fetchSpeedingIntervalsWithSlidingWindow(
     newToPost,
     windowStart: window.startTime,
     windowEnd: window.endTime,
+    failedAssetIds,
+    error: lastError,
   };
 }
 
@@ -1,4 +1,4 @@
-import axios from 'axios';
+import { getSamsaraClient, toSamsaraError } from './samsaraClient';
 
 // In-memory cache for vehicles (10 minute TTL)
 let vehiclesCache: { vehicles: VehicleInfo[]; expiresAt: number } | null = null;
@@ -11,65 +11,55 @@ export type VehicleInfo = {
 };
 
 /**
- * Fetch all vehicles from Samsara API.
+ * Fetch all vehicles from Samsara API (all pages).
  * 
- * Endpoint: GET https://api.samsara.com/fleet/vehicles
+ * Endpoint: GET /fleet/vehicles
  * 
  * @returns Array of vehicle info with id and name
+ * @throws SamsaraApiError if the API call fails
  */
 async function fetchAllVehicles(): Promise<VehicleInfo[]> {
-  const token = process.env.SAM_SARA_API_TOKEN;
+  const vehicles: VehicleInfo[] = [];
+  let after: string | undefined;
+  do {
+    const page = await getSamsaraClient().listVehicles({ after });
+    vehicles.push(...page.data);
+    after = page.pagination?.hasNextPage ? page.pagination.endCursor : undefined;
+  } while (after);
+
+  console.log(`[SAMSARA] vehicles fetched: ${vehicles.length}`);
+  return vehicles;
+}
 
-  if (!token) {
-    console.error('❌ SAM_SARA_API_TOKEN is missing in .env');
-    return [];
+/**
+ * Load all vehicles, from the cache when fresh.
+ * Unlike getAllVehiclesInfo, a failed API call throws, so an empty fleet and
+ * "Samsara unavailable" can be told apart.
+ *
+ * @param forceRefresh - Skip the cache (e.g. for the truck link backfill)
+ * @throws SamsaraApiError if the API call fails
+ */
+export async function loadAllVehicles(forceRefresh = false): Promise<VehicleInfo[]> {
+  if (!forceRefresh && vehiclesCache && vehiclesCache.expiresAt > Date.now()) {
+    console.log(`[SAMSARA] vehicles cache hit: ${vehiclesCache.vehicles.length}`);
+    return vehiclesCache.vehicles;
   }
 
-  try {
-    const res = await axios.get('https://api.samsara.com/fleet/vehicles', {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        Accept: 'application/json',
-      },
-    });
-
-    const vehicles = res.data?.data || [];
-    console.log(`[SAMSARA] vehicles fetched: ${vehicles.length}`);
-    return vehicles;
-  } catch (err: any) {
-    console.error(
-      '❌ Error fetching vehicles:',
-      err.response?.data || err.message
-    );
-    return [];
-  }
+  const vehicles = await fetchAllVehicles();
+  vehiclesCache = {
+    vehicles,
+    expiresAt: Date.now() + VEHICLES_CACHE_TTL_MS,
+  };
+  return vehicles;
 }
 
 /**
  * Get all vehicle asset IDs with caching.
  * 
- * @returns Array of vehicle/asset IDs
+ * @returns Array of vehicle/asset IDs (empty if Samsara is unavailable)
  */
 export async function getAllVehicleAssetIds(): Promise<string[]> {
-  // Check cache
-  if (vehiclesCache && vehiclesCache.expiresAt > Date.now()) {
-    console.log(`[SAMSARA] vehicles cache hit: ${vehiclesCache.vehicles.length}`);
-    return vehiclesCache.vehicles.map((v) => v.id);
-  }
-
-  // Cache miss - fetch from API
-  console.log('[SAMSARA] vehicles cache miss, fetching from API...');
-  const vehicles = await fetchAllVehicles();
-
-  if (vehicles.length > 0) {
-    // Cache the result
-    vehiclesCache = {
-      vehicles,
-      expiresAt: Date.now() + VEHICLES_CACHE_TTL_MS,
-    };
-  }
-
-  return vehicles.map((v) => v.id);
+  return (await getAllVehiclesInfo()).map((v) => v.id);
 }
 
 /**
@@ -90,23 +80,92 @@ export function getVehicleNameById(assetId: string): string | null {
 /**
  * Get all vehicles info (for mapping assetId to name).
  * 
- * @returns Array of vehicle info
+ * @param forceRefresh - Skip the cache (e.g. for the truck link backfill)
+ * @returns Array of vehicle info (empty if Samsara is unavailable - use loadAllVehicles to tell)
  */
-export async function getAllVehiclesInfo(): Promise<VehicleInfo[]> {
-  // Check cache
-  if (vehiclesCache && vehiclesCache.expiresAt > Date.now()) {
-    return vehiclesCache.vehicles;
+export async function getAllVehiclesInfo(forceRefresh = false): Promise<VehicleInfo[]> {
+  try {
+    return await loadAllVehicles(forceRefresh);
+  } catch (err) {
+    const error = toSamsaraError(err, 'GET /fleet/vehicles');
+    console.error(`❌ Error fetching vehicles (${error.kind}):`, error.message);
+    return [];
   }
+}
 
-  // Fetch if cache miss
-  const vehicles = await fetchAllVehicles();
-  if (vehicles.length > 0) {
-    vehiclesCache = {
-      vehicles,
-      expiresAt: Date.now() + VEHICLES_CACHE_TTL_MS,
-    };
+/**
+ * VIN and gateway serial of a Samsara vehicle.
+ * Samsara returns them in externalIds ("samsara.vin", "samsara.serial");
+ * older payloads also have top-level vin / serial.
+ *
+ * @param vehicle - Vehicle from /fleet/vehicles
+ */
+export function getVehicleExternalIds(vehicle: VehicleInfo): { vin: string | null; serial: string | null } {
+  const externalIds = (vehicle.externalIds ?? {}) as Record<string, string>;
+  return {
+    vin: externalIds['samsara.vin'] || vehicle.vin || null,
+    serial: externalIds['samsara.serial'] || vehicle.serial || null,
+  };
+}
+
+const METERS_PER_MILE = 1609.344;
+
+/**
+ * Miles driven per vehicle in one or more time windows, from GPS odometer history.
+ * One request (all pages) covers every window; only the given vehicles are fetched.
+ *
+ * Endpoint: GET /fleet/vehicles/stats/history?types=gpsOdometerMeters&vehicleIds=...
+ *
+ * @param windows - Time windows (e.g. this week and the week before)
+ * @param vehicleIds - Samsara vehicle IDs to fetch
+ * @returns One Map vehicle name -> miles per window (empty maps if unavailable)
+ */
+export async function getVehicleMilesDriven(
+  windows: { from: Date; to: Date }[],
+  vehicleIds: string[]
+): Promise<Map<string, number>[]> {
+  const miles = windows.map(() => new Map<string, number>());
+  if (!windows.length || !vehicleIds.length) {
+    return miles;
   }
 
-  return vehicles;
-}
+  const startTime = new Date(Math.min(...windows.map((w) => w.from.getTime())));
+  const endTime = new Date(Math.max(...windows.map((w) => w.to.getTime())));
 
+  try {
+    let after: string | undefined;
+    do {
+      const page = await getSamsaraClient().getVehicleOdometerHistory({
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        vehicleIds,
+        after,
+      });
+
+      for (const vehicle of page.data) {
+        if (!vehicle.name) continue;
+        const points = (vehicle.gpsOdometerMeters || [])
+          .map((p) => ({ time: new Date(p.time).getTime(), value: p.value }))
+          .sort((a, b) => a.time - b.time);
+
+        windows.forEach((window, index) => {
+          const inWindow = points.filter((p) => p.time >= window.from.getTime() && p.time < window.to.getTime());
+          if (inWindow.length < 2) return;
+          const meters = inWindow[inWindow.length - 1].value - inWindow[0].value;
+          if (meters > 0) {
+            miles[index].set(vehicle.name!, (miles[index].get(vehicle.name!) ?? 0) + meters / METERS_PER_MILE);
+          }
+        });
+      }
+
+      after = page.pagination?.hasNextPage ? page.pagination.endCursor : undefined;
+    } while (after);
+
+    console.log(`[SAMSARA] odometer history: miles for ${vehicleIds.length} vehicles, ${windows.length} window(s)`);
+    return miles;
+  } catch (err: any) {
+    const error = toSamsaraError(err, 'GET /fleet/vehicles/stats/history');
+    console.error(`❌ Error fetching odometer history (${error.kind}):`, error.message);
+    return windows.map(() => new Map<string, number>());
+  }
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import http from 'http';
+import { getSafetyEventsInWindow, SafetyEvent } from '../samsara';
+
+/**
+ * Samsara webhook receiver.
+ *
+ * Samsara signs each delivery with the webhook secret (base64):
+ *   X-Samsara-Timestamp: <unix seconds>
+ *   X-Samsara-Signature: v1=<hex HMAC-SHA256 of "v1:<timestamp>:<raw body>">
+ * Deliveries with a bad signature or a timestamp older than 5 minutes are rejected (401).
+ * Valid deliveries are answered with 200 right away and processed in the background,
+ * so a slow Telegram send never makes Samsara retry the delivery.
+ *
+ * The server only starts when SAMSARA_WEBHOOK_SECRET is set.
+ */
+
+export type SamsaraWebhookDelivery =
+  | { kind: 'safety'; webhookEventId: string; eventId: string; event: SafetyEvent | null }
+  | { kind: 'speeding'; webhookEventId: string; assetId: string }
+  | { kind: 'ignored'; webhookEventId: string; eventType: string };
+
+export type SamsaraWebhookHandler = (delivery: SamsaraWebhookDelivery) => Promise<void>;
+
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const MAX_BODY_BYTES = 1024 * 1024;
+// Window around the webhook time used to look up an event that came without details
+const HYDRATE_WINDOW_MS = 5 * 60 * 1000;
+
+export function getSamsaraWebhookPath(): string {
+  return process.env.SAMSARA_WEBHOOK_PATH || '/samsara/webhook';
+}
+
+/**
+ * Verify the Samsara signature of a raw request body.
+ *
+ * @param secret - Webhook secret from the Samsara dashboard (base64)
+ * @param timestamp - X-Samsara-Timestamp header
+ * @param body - Raw request body, exactly as received
+ * @param signature - X-Samsara-Signature header ("v1=<hex>")
+ * @param now - Current time (injectable for testing)
+ */
+export function verifySamsaraSignature(
+  secret: string,
+  timestamp: string | undefined,
+  body: string,
+  signature: string | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!timestamp || !signature) {
+    return false;
+  }
+
+  const seconds = parseInt(timestamp, 10);
+  if (isNaN(seconds) || Math.abs(now.getTime() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = signSamsaraWebhook(secret, timestamp, body);
+  const expectedBuf = Buffer.from(expected);
+  const actualBuf = Buffer.from(signature.trim());
+  return expectedBuf.length === actualBuf.length && crypto.timingSafeEqual(expectedBuf, actualBuf);
+}
+
+/**
+ * Signature header value for a body ("v1=<hex>"). Used by verification and by
+ * scripts/post-samsara-webhook.ts to replay recorded payloads.
+ */
+export function signSamsaraWebhook(secret: string, timestamp: string, body: string): string {
+  const hmac = crypto.createHmac('sha256', Buffer.from(secret, 'base64'));
+  hmac.update(`v1:${timestamp}:${body}`);
+  return `v1=${hmac.digest('hex')}`;
+}
+
+function getAssetId(data: any): string | null {
+  const id = data?.vehicle?.id ?? data?.asset?.id ?? data?.assetId ?? data?.vehicleId;
+  return id ? String(id) : null;
+}
+
+/**
+ * Turn a webhook body into a delivery.
+ * Safety events: "SafetyEventCreated" / "SafetyEventUpdated" (or any event type with "safety");
+ * speeding: any event type with "speeding" (e.g. "SevereSpeedingStarted").
+ */
+export function parseSamsaraWebhook(body: any): SamsaraWebhookDelivery {
+  const eventType = String(body?.eventType ?? '');
+  const webhookEventId = String(body?.eventId ?? 'unknown');
+  const data = body?.data ?? {};
+
+  if (/safety/i.test(eventType)) {
+    const event = data.safetyEvent ?? data;
+    const eventId = event?.id ? String(event.id) : '';
+    if (eventId) {
+      // Samsara sends a trimmed event for some types; a usable one has a vehicle and a time
+      const complete = Boolean(event.vehicle?.id && (event.time || event.occurredAt || event.startTime));
+      return { kind: 'safety', webhookEventId, eventId, event: complete ? (event as SafetyEvent) : null };
+    }
+  }
+
+  if (/speeding/i.test(eventType)) {
+    const assetId = getAssetId(data);
+    if (assetId) {
+      return { kind: 'speeding', webhookEventId, assetId };
+    }
+  }
+
+  return { kind: 'ignored', webhookEventId, eventType: eventType || 'unknown' };
+}
+
+/**
+ * Load the full safety event from the API when the webhook only carried its ID.
+ *
+ * @param eventId - Samsara safety event ID
+ * @param at - Webhook time; the event is looked up in ±5 minutes around it
+ * @returns The event, or null if Samsara doesn't return it (yet)
+ */
+export async function hydrateSafetyEvent(eventId: string, at: Date): Promise<SafetyEvent | null> {
+  const { events } = await getSafetyEventsInWindow({
+    from: new Date(at.getTime() - HYDRATE_WINDOW_MS),
+    to: new Date(at.getTime() + HYDRATE_WINDOW_MS),
+  });
+  return events.find((e) => e.id === eventId) ?? null;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Start the webhook HTTP server (SAMSARA_WEBHOOK_PORT, default 8080) if
+ * SAMSARA_WEBHOOK_SECRET is set.
+ *
+ * @param handler - Called for every verified delivery (errors are logged, not returned to Samsara)
+ * @returns The server, or null when webhooks are disabled
+ */
+export function startSamsaraWebhookServer(handler: SamsaraWebhookHandler): http.Server | null {
+  const secret = process.env.SAMSARA_WEBHOOK_SECRET;
+  if (!secret) {
+    console.log('ℹ️ [WEBHOOK] SAMSARA_WEBHOOK_SECRET not set, Samsara webhooks disabled (polling only)');
+    return null;
+  }
+
+  const path = getSamsaraWebhookPath();
+  const port = parseInt(process.env.SAMSARA_WEBHOOK_PORT || '8080', 10);
+
+  const server = http.createServer(async (req, res) => {
+    const url = (req.url || '').split('?')[0];
+    if (req.method !== 'POST' || url !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = await readBody(req);
+    } catch {
+      res.writeHead(413).end();
+      return;
+    }
+
+    const timestamp = req.headers['x-samsara-timestamp'] as string | undefined;
+    const signature = req.headers['x-samsara-signature'] as string | undefined;
+    if (!verifySamsaraSignature(secret, timestamp, raw, signature)) {
+      console.warn('⚠️ [WEBHOOK] Rejected delivery with invalid signature or timestamp');
+      res.writeHead(401).end();
+      return;
+    }
+
+    let body: any;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    res.writeHead(200).end();
+
+    const delivery = parseSamsaraWebhook(body);
+    if (delivery.kind === 'ignored') {
+      console.log(`ℹ️ [WEBHOOK] Ignoring ${delivery.eventType} (${delivery.webhookEventId})`);
+      return;
+    }
+    console.log(`📨 [WEBHOOK] ${body.eventType} (${delivery.webhookEventId})`);
+    try {
+      await handler(delivery);
+    } catch (err) {
+      console.error(`❌ [WEBHOOK] Error processing ${delivery.webhookEventId}:`, err);
+    }
+  });
+
+  server.on('error', (err) => console.error('❌ [WEBHOOK] Server error:', err));
+  server.listen(port, () => console.log(`📡 [WEBHOOK] Listening for Samsara webhooks on :${port}${path}`));
+  return server;
+}
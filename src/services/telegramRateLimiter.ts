@@ -0,0 +1,248 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Telegram } from 'telegraf';
+
+/**
+ * Global Telegram send queue shared by every sender (cron alerts, PTI reminders,
+ * digests, command replies).
+ *
+ * installTelegramRateLimiter() wraps telegram.callApi, so bot.telegram.*, ctx.reply()
+ * and ctx.telegram.* all pass through one queue that enforces:
+ * - TELEGRAM_GLOBAL_PER_SECOND messages per second overall (default 25, Telegram allows ~30);
+ * - 1 message per second per chat, and TELEGRAM_GROUP_PER_MINUTE per group (default 20);
+ * - 429 retry_after: the chat is paused and the request is retried (TELEGRAM_MAX_429_RETRIES).
+ *
+ * Priorities (withSendPriority): "high" (severe speeding, crashes) is sent before
+ * "normal" (default) and "low" (PTI reminders, digests, leaderboard).
+ */
+
+export type SendPriority = 'high' | 'normal' | 'low';
+
+// Lower rank goes first (also stored as OutboxMessage.priority)
+export const PRIORITY_RANK: Record<SendPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Methods that post to a chat and count toward Telegram's flood limits
+const RATE_LIMITED_METHODS = new Set<string>([
+  'sendMessage',
+  'sendPhoto',
+  'sendVideo',
+  'sendVoice',
+  'sendDocument',
+  'sendAnimation',
+  'sendAudio',
+  'sendMediaGroup',
+  'sendLocation',
+  'copyMessage',
+  'forwardMessage',
+  'editMessageText',
+  'editMessageCaption',
+  'editMessageReplyMarkup',
+]);
+
+// A longer retry_after is returned to the caller (the outbox reschedules it)
+const MAX_INTERNAL_RETRY_AFTER_SECONDS = 60;
+
+type RateLimitOptions = {
+  globalPerSecond: number;
+  perChatIntervalMs: number;
+  groupPerMinute: number;
+  max429Retries: number;
+};
+
+type QueuedSend = {
+  chatKey: string;
+  priority: SendPriority;
+  seq: number;
+  run: () => Promise<unknown>;
+  retries: number;
+  retryable: boolean;
+  resolve: (value: any) => void;
+  reject: (err: any) => void;
+};
+
+const priorityStorage = new AsyncLocalStorage<SendPriority>();
+
+/**
+ * Run `fn` with a send priority; every Telegram send made inside it (including
+ * nested awaits) is queued with that priority.
+ */
+export function withSendPriority<T>(priority: SendPriority, fn: () => Promise<T>): Promise<T> {
+  return priorityStorage.run(priority, fn);
+}
+
+function readIntEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+function isGroupChat(chatKey: string): boolean {
+  return chatKey.startsWith('-'); // Groups and supergroups have negative IDs
+}
+
+/**
+ * Payloads with a stream upload can't be sent twice (the stream is consumed).
+ */
+function hasStreamUpload(payload: any): boolean {
+  return Object.values(payload ?? {}).some(
+    (value: any) => value && typeof value === 'object' && typeof value.source?.pipe === 'function'
+  );
+}
+
+export class TelegramSendQueue {
+  private readonly options: RateLimitOptions;
+  private readonly queue: QueuedSend[] = [];
+  private readonly globalSends: number[] = []; // Timestamps in the last second
+  private readonly chatSends = new Map<string, number[]>(); // Timestamps in the last minute
+  private readonly chatPausedUntil = new Map<string, number>(); // 429 retry_after
+  private seq = 0;
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options?: Partial<RateLimitOptions>) {
+    this.options = {
+      globalPerSecond: readIntEnv('TELEGRAM_GLOBAL_PER_SECOND', 25),
+      perChatIntervalMs: 1000,
+      groupPerMinute: readIntEnv('TELEGRAM_GROUP_PER_MINUTE', 20),
+      max429Retries: readIntEnv('TELEGRAM_MAX_429_RETRIES', 3),
+      ...options,
+    };
+  }
+
+  /**
+   * Queue a send for a chat and resolve with its result.
+   *
+   * @param chatKey - Telegram chat ID as a string ("global" if none)
+   * @param priority - Send priority
+   * @param run - The actual API call
+   * @param retryable - false if the request can't be repeated (stream upload)
+   */
+  schedule<T>(chatKey: string, priority: SendPriority, run: () => Promise<T>, retryable = true): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({ chatKey, priority, seq: this.seq++, run, retries: 0, retryable, resolve, reject });
+      this.pump();
+    });
+  }
+
+  get size(): number {
+    return this.queue.length + this.active;
+  }
+
+  /**
+   * Earliest moment a chat may send again (0 = now).
+   */
+  private chatReadyAt(chatKey: string, now: number): number {
+    const sends = (this.chatSends.get(chatKey) ?? []).filter((t) => t > now - 60 * 1000);
+    this.chatSends.set(chatKey, sends);
+
+    let readyAt = this.chatPausedUntil.get(chatKey) ?? 0;
+    const last = sends[sends.length - 1];
+    if (last !== undefined) {
+      readyAt = Math.max(readyAt, last + this.options.perChatIntervalMs);
+    }
+    if (isGroupChat(chatKey) && sends.length >= this.options.groupPerMinute) {
+      readyAt = Math.max(readyAt, sends[sends.length - this.options.groupPerMinute] + 60 * 1000);
+    }
+    return readyAt;
+  }
+
+  private globalReadyAt(now: number): number {
+    while (this.globalSends.length && this.globalSends[0] <= now - 1000) {
+      this.globalSends.shift();
+    }
+    return this.globalSends.length < this.options.globalPerSecond ? 0 : this.globalSends[0] + 1000;
+  }
+
+  /**
+   * Start every send that is allowed now (highest priority, then oldest first);
+   * otherwise wake up when the earliest one becomes allowed.
+   */
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.seq - b.seq);
+
+    let wakeAt = Infinity;
+    const busyChats = new Set<string>(); // One send per chat per pump keeps the order inside a chat
+    for (let i = 0; i < this.queue.length; ) {
+      const item = this.queue[i];
+      const globalReadyAt = this.globalReadyAt(now);
+      if (globalReadyAt > now) {
+        wakeAt = Math.min(wakeAt, globalReadyAt);
+        break;
+      }
+
+      const readyAt = this.chatReadyAt(item.chatKey, now);
+      if (busyChats.has(item.chatKey) || readyAt > now) {
+        if (!busyChats.has(item.chatKey)) wakeAt = Math.min(wakeAt, readyAt);
+        busyChats.add(item.chatKey);
+        i++;
+        continue;
+      }
+
+      busyChats.add(item.chatKey);
+      this.queue.splice(i, 1);
+      this.globalSends.push(now);
+      this.chatSends.get(item.chatKey)!.push(now);
+      void this.execute(item);
+    }
+
+    if (wakeAt !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), Math.max(wakeAt - now, 10));
+    }
+  }
+
+  private async execute(item: QueuedSend): Promise<void> {
+    this.active++;
+    try {
+      item.resolve(await item.run());
+    } catch (err: any) {
+      const retryAfter = err?.response?.parameters?.retry_after;
+      const canRetry =
+        err?.response?.error_code === 429 &&
+        typeof retryAfter === 'number' &&
+        retryAfter <= MAX_INTERNAL_RETRY_AFTER_SECONDS &&
+        item.retryable &&
+        item.retries < this.options.max429Retries;
+
+      if (!canRetry) {
+        item.reject(err);
+      } else {
+        console.warn(`⏳ [TG LIMIT] 429 for chat ${item.chatKey}, retrying in ${retryAfter}s`);
+        this.chatPausedUntil.set(item.chatKey, Date.now() + (retryAfter + 1) * 1000);
+        this.queue.push({ ...item, retries: item.retries + 1 });
+      }
+    } finally {
+      this.active--;
+      this.pump();
+    }
+  }
+}
+
+/**
+ * Route all chat sends of a Telegram instance through a shared queue.
+ * Call once, right after creating the bot.
+ *
+ * @param telegram - bot.telegram (contexts share it, so ctx.reply is covered too)
+ * @param queue - Queue to use (default: a new one configured from env)
+ * @returns The queue
+ */
+export function installTelegramRateLimiter(
+  telegram: Telegram,
+  queue: TelegramSendQueue = new TelegramSendQueue()
+): TelegramSendQueue {
+  const callApi = telegram.callApi.bind(telegram);
+
+  telegram.callApi = ((method: string, payload: any, options?: any) => {
+    if (!RATE_LIMITED_METHODS.has(method)) {
+      return callApi(method as any, payload, options);
+    }
+    const chatKey = payload?.chat_id !== undefined ? String(payload.chat_id) : 'global';
+    const priority = priorityStorage.getStore() ?? 'normal';
+    return queue.schedule(chatKey, priority, () => callApi(method as any, payload, options), !hasStreamUpload(payload));
+  }) as Telegram['callApi'];
+
+  return queue;
+}
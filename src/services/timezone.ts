@@ -0,0 +1,187 @@
+/**
+ * Timezone helpers based on Intl (no external dependencies).
+ *
+ * Calendar dates (e.g. lastPtiDate) are stored as UTC midnight of the local
+ * calendar day, so "2025-12-13" in New York is stored as 2025-12-13T00:00:00Z.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  weekday: number; // 0=Sunday, 1=Monday, ..., 6=Saturday
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Get calendar/clock parts of a moment in the given IANA timezone.
+ */
+export function getZonedParts(date: Date, timeZone: string = DEFAULT_TIMEZONE): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10),
+    minute: parseInt(get('minute'), 10),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+}
+
+/**
+ * Get the local calendar date as "YYYY-MM-DD".
+ */
+export function getLocalDateKey(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get the local calendar date as a Date at UTC midnight (storage format for date-only fields).
+ */
+export function getLocalDate(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  return new Date(`${getLocalDateKey(date, timeZone)}T00:00:00.000Z`);
+}
+
+/**
+ * Convert a local date and time in a timezone to the UTC moment.
+ *
+ * @param dateKey - Local date "YYYY-MM-DD"
+ * @param minutes - Minutes since local midnight
+ * @param timeZone - IANA timezone
+ */
+export function getUtcForLocalTime(dateKey: string, minutes: number, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const [year, month, day] = dateKey.split('-').map((v) => parseInt(v, 10));
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  // Offset can change around the moment (DST), so correct twice
+  let utc = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(utc), timeZone);
+    const shown = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+    utc += wallClock - shown;
+  }
+  return new Date(utc);
+}
+
+/**
+ * Get minutes since local midnight (0-1439).
+ */
+export function getLocalMinutesOfDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Parse "HH:MM" (24h) into minutes since midnight.
+ *
+ * @returns Minutes (0-1439) or null if the format is invalid
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec((value || '').trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check if minutes-of-day falls within [start, end] (inclusive).
+ * Supports windows that wrap past midnight (e.g. 22:00-02:00).
+ */
+export function isWithinTimeWindow(minutes: number, start: number, end: number): boolean {
+  if (start <= end) {
+    return minutes >= start && minutes <= end;
+  }
+  return minutes >= start || minutes <= end;
+}
+
+/**
+ * Check if a string is a valid IANA timezone (e.g. "America/Chicago").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parse working days stored as "1,2,3,4,5,6" (0=Sunday ... 6=Saturday).
+ */
+export function parseWorkingDays(value: string | null | undefined): Set<number> {
+  return new Set(
+    (value || '')
+      .split(',')
+      .map((d) => parseInt(d.trim(), 10))
+      .filter((d) => !isNaN(d) && d >= 0 && d <= 6)
+  );
+}
+
+/**
+ * Parse user input for working days into storage format ("1,2,3,4,5,6").
+ * Accepts "daily", "mon-sat", "mon,wed,fri", "1-6", "0,1,2".
+ *
+ * @returns Storage string or null if invalid
+ */
+export function parseWorkingDaysInput(input: string): string | null {
+  const value = input.trim().toLowerCase();
+  if (value === 'daily' || value === 'all') {
+    return '0,1,2,3,4,5,6';
+  }
+
+  const toDay = (token: string): number => {
+    const byName = DAY_NAMES.indexOf(token.slice(0, 3));
+    if (byName !== -1) return byName;
+    const num = parseInt(token, 10);
+    return /^\d$/.test(token) && num <= 6 ? num : -1;
+  };
+
+  const days = new Set<number>();
+  for (const part of value.split(',')) {
+    const [startToken, endToken] = part.split('-').map((t) => t.trim());
+    const start = toDay(startToken);
+    const end = endToken !== undefined ? toDay(endToken) : start;
+    if (start === -1 || end === -1) return null;
+
+    // Ranges may wrap around the week (e.g. "sat-mon")
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.add(d);
+      if (d === end) break;
+    }
+  }
+
+  return days.size ? Array.from(days).sort().join(',') : null;
+}
+
+/**
+ * Format stored working days for display (e.g. "Mon, Tue, Wed").
+ */
+export function formatWorkingDays(value: string | null | undefined): string {
+  const days = Array.from(parseWorkingDays(value)).sort();
+  return days.map((d) => DAY_NAMES[d][0].toUpperCase() + DAY_NAMES[d].slice(1)).join(', ') || 'none';
+}
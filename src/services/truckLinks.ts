@@ -0,0 +1,145 @@
+import { getAllTrucks, updateTruckVehicleLink } from '../repository';
+import { getVehicleExternalIds, loadAllVehicles, VehicleInfo } from './samsaraVehicles';
+import { toSamsaraError } from './samsaraClient';
+
+/**
+ * Backfill of Truck ↔ Samsara vehicle links (/link_trucks).
+ *
+ * Trucks without samsaraVehicleId are matched by name (exact, then case-insensitive).
+ * Linked trucks get their VIN / serial refreshed and follow renames made in Samsara.
+ */
+
+export type TruckLinkResult = {
+  samsaraAvailable: boolean;
+  linked: { truck: string; vehicleId: string }[];
+  renamed: { from: string; to: string }[];
+  refreshed: number; // Already linked, VIN / serial updated
+  conflicts: string[];
+  unmatched: string[];
+};
+
+/**
+ * Link existing Truck rows to Samsara vehicles.
+ *
+ * @param dryRun - Only report what would change
+ */
+export async function backfillTruckVehicleLinks(dryRun = false): Promise<TruckLinkResult> {
+  const result: TruckLinkResult = {
+    samsaraAvailable: false,
+    linked: [],
+    renamed: [],
+    refreshed: 0,
+    conflicts: [],
+    unmatched: [],
+  };
+
+  let vehicles: VehicleInfo[];
+  try {
+    vehicles = await loadAllVehicles(true);
+  } catch (err) {
+    const error = toSamsaraError(err, 'GET /fleet/vehicles');
+    console.error(`❌ [LINK TRUCKS] Could not load Samsara vehicles (${error.kind}):`, error.message);
+    return result;
+  }
+  result.samsaraAvailable = true;
+
+  const trucks = await getAllTrucks();
+  const vehiclesById = new Map(vehicles.map((v) => [v.id, v]));
+  const truckNames = new Set(trucks.map((t) => t.name));
+  // Vehicle IDs already taken by a linked truck
+  const claimed = new Set(trucks.map((t) => t.samsaraVehicleId).filter(Boolean));
+
+  const findByName = (name: string): VehicleInfo | undefined =>
+    vehicles.find((v) => v.name === name) ??
+    vehicles.find((v) => (v.name || '').toLowerCase() === name.toLowerCase());
+
+  for (const truck of trucks) {
+    let vehicle: VehicleInfo | undefined;
+
+    if (truck.samsaraVehicleId) {
+      vehicle = vehiclesById.get(truck.samsaraVehicleId);
+      if (!vehicle) {
+        result.unmatched.push(`${truck.name} (vehicle ${truck.samsaraVehicleId} not in Samsara)`);
+        continue;
+      }
+    } else {
+      vehicle = findByName(truck.name);
+      if (!vehicle) {
+        result.unmatched.push(truck.name);
+        continue;
+      }
+      if (claimed.has(vehicle.id)) {
+        result.conflicts.push(`${truck.name}: vehicle ${vehicle.id} is already linked to another truck`);
+        continue;
+      }
+      claimed.add(vehicle.id);
+    }
+
+    const { vin, serial } = getVehicleExternalIds(vehicle);
+    let name: string | undefined;
+    if (vehicle.name && vehicle.name !== truck.name) {
+      if (truckNames.has(vehicle.name)) {
+        result.conflicts.push(`${truck.name}: renamed to "${vehicle.name}" in Samsara, but that truck name is taken`);
+      } else {
+        name = vehicle.name;
+      }
+    }
+
+    const unchanged =
+      truck.samsaraVehicleId === vehicle.id && truck.vin === vin && truck.serial === serial && !name;
+    if (unchanged) {
+      continue;
+    }
+
+    if (!dryRun) {
+      const updated = await updateTruckVehicleLink(truck.id, { samsaraVehicleId: vehicle.id, vin, serial, name });
+      if (!updated) {
+        result.conflicts.push(`${truck.name}: update failed (check logs)`);
+        continue;
+      }
+    }
+
+    if (name) {
+      truckNames.delete(truck.name);
+      truckNames.add(name);
+      result.renamed.push({ from: truck.name, to: name });
+    }
+    if (!truck.samsaraVehicleId) {
+      result.linked.push({ truck: name ?? truck.name, vehicleId: vehicle.id });
+    } else if (!name) {
+      result.refreshed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format the backfill result for Telegram.
+ */
+export function formatTruckLinkResult(result: TruckLinkResult, dryRun: boolean): string {
+  if (!result.samsaraAvailable) {
+    return '❌ Could not load vehicles from Samsara. Nothing changed.';
+  }
+
+  const lines = [dryRun ? '🔗 Truck links (dry run, nothing saved)' : '🔗 Truck links updated'];
+  lines.push(
+    '',
+    `Linked: ${result.linked.length}`,
+    `Renamed: ${result.renamed.length}`,
+    `VIN / serial refreshed: ${result.refreshed}`,
+    `Not found in Samsara: ${result.unmatched.length}`,
+    `Conflicts: ${result.conflicts.length}`
+  );
+
+  const section = (title: string, items: string[]) => {
+    if (!items.length) return;
+    lines.push('', title, ...items.slice(0, 30).map((i) => `• ${i}`));
+    if (items.length > 30) lines.push(`…and ${items.length - 30} more`);
+  };
+  section('Renamed:', result.renamed.map((r) => `${r.from} → ${r.to}`));
+  section('Not found in Samsara:', result.unmatched);
+  section('Conflicts:', result.conflicts);
+
+  return lines.join('\n');
+}
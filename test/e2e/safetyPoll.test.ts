@@ -0,0 +1,193 @@
+import assert from 'node:assert/strict';
+import { execSync } from 'node:child_process';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { PrismaClient } from '@prisma/client';
+import { alertMessages } from '../../src/messages';
+import { SamsaraStub } from '../fakes/samsaraStub';
+import { TelegramCall, TelegramStub } from '../fakes/telegramStub';
+
+/**
+ * End-to-end safety poll: checkAndNotifySafetyEvents + the outbox worker, against the
+ * Samsara stub, the fake Telegram Bot API and a throwaway Postgres.
+ *
+ * TEST_DATABASE_URL must point to a database that can be wiped (prisma db push --force-reset).
+ * Without it the suite is skipped.
+ */
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const CHAT_A = -1001000000001;
+const CHAT_B = -1001000000002;
+const VEHICLE_ID = (n: number) => `281474977000${n}`;
+const MINUTE_MS = 60 * 1000;
+
+type BotModule = typeof import('../../src/index');
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * MINUTE_MS);
+}
+
+function videos(calls: TelegramCall[]): string[] {
+  return calls.filter((c) => c.method === 'sendVideo').map((c) => c.payload.video);
+}
+
+function texts(calls: TelegramCall[]): string[] {
+  return calls.filter((c) => c.method === 'sendMessage').map((c) => c.payload.text);
+}
+
+describe('safety poll end to end', { skip: !TEST_DATABASE_URL && 'TEST_DATABASE_URL is not set' }, () => {
+  const samsara = new SamsaraStub();
+  const telegram = new TelegramStub();
+  let prisma: PrismaClient;
+  let bot: BotModule;
+  let runOutboxTick: typeof import('../../src/services/outbox').runOutboxTick;
+
+  async function runPoll(): Promise<void> {
+    await bot.checkAndNotifySafetyEvents();
+    await runOutboxTick(bot.outboxHandlers);
+  }
+
+  async function sentToChat(eventId: string): Promise<bigint | null | undefined> {
+    const log = await prisma.safetyEventLog.findUnique({ where: { samsaraEventId: eventId } });
+    return log ? log.sentToChatId : undefined;
+  }
+
+  before(async () => {
+    if (TEST_DATABASE_URL === process.env.DATABASE_URL) {
+      throw new Error('TEST_DATABASE_URL must not be the bot database, the tests wipe it');
+    }
+    await Promise.all([samsara.listen(), telegram.listen()]);
+
+    // Set before the bot is imported (index.ts reads them at load time)
+    Object.assign(process.env, {
+      DATABASE_URL: TEST_DATABASE_URL,
+      BOT_AUTOSTART: 'false',
+      TELEGRAM_BOT_TOKEN: '123456:test-token',
+      TELEGRAM_API_ROOT: telegram.apiRoot,
+      SAM_SARA_API_TOKEN: 'test-token',
+      SAMSARA_BASE_URL: samsara.baseUrl,
+      SAMSARA_MAX_RETRIES: '1',
+      SPEEDING_BATCH_DELAY_MS: '0',
+    });
+    delete process.env.SAMSARA_WEBHOOK_SECRET;
+
+    execSync('npx prisma db push --force-reset --skip-generate', { stdio: 'inherit', env: process.env });
+    prisma = new PrismaClient({ datasources: { db: { url: TEST_DATABASE_URL } } });
+    bot = await import('../../src/index');
+    ({ runOutboxTick } = await import('../../src/services/outbox'));
+  });
+
+  after(async () => {
+    await prisma?.$disconnect();
+    await Promise.all([samsara.close(), telegram.close()]);
+  });
+
+  beforeEach(async () => {
+    samsara.reset();
+    telegram.reset();
+
+    const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+      SELECT tablename FROM pg_tables WHERE schemaname = 'public'`;
+    await prisma.$executeRawUnsafe(
+      `TRUNCATE ${tables.map((t) => `"${t.tablename}"`).join(', ')} RESTART IDENTITY CASCADE`
+    );
+
+    // Group A owns Truck 101 (linked by vehicle ID) and owned Truck 104 until 30 minutes ago;
+    // group B owns Truck 102 (not linked, matched by name) and Truck 104 now.
+    // Truck 103 is not in the trucks table.
+    const chatA = await prisma.chat.create({ data: { name: 'Group A', telegramChatId: BigInt(CHAT_A), language: 'en' } });
+    const chatB = await prisma.chat.create({ data: { name: 'Group B', telegramChatId: BigInt(CHAT_B), language: 'ru' } });
+    await prisma.truck.create({ data: { name: 'Truck 101', samsaraVehicleId: VEHICLE_ID(101), chatId: chatA.id } });
+    await prisma.truck.create({ data: { name: 'Truck 102', chatId: chatB.id } });
+    const truck104 = await prisma.truck.create({
+      data: { name: 'Truck 104', samsaraVehicleId: VEHICLE_ID(104), chatId: chatB.id },
+    });
+    await prisma.truckAssignment.createMany({
+      data: [
+        { truckId: truck104.id, chatId: chatA.id, effectiveFrom: minutesAgo(24 * 60), effectiveTo: minutesAgo(30) },
+        { truckId: truck104.id, chatId: chatB.id, effectiveFrom: minutesAgo(30) },
+      ],
+    });
+  });
+
+  test('routes alerts to the group that owned the truck at event time', async () => {
+    await runPoll();
+
+    assert.deepEqual(videos(telegram.sentTo(CHAT_A)).sort(), [
+      samsara.safetyEvent('evt-crash-104').downloadForwardVideoUrl,
+      samsara.safetyEvent('evt-harsh-brake-101').downloadForwardVideoUrl,
+    ].sort());
+    assert.deepEqual(videos(telegram.sentTo(CHAT_B)), [samsara.safetyEvent('evt-red-light-102').downloadForwardVideoUrl]);
+
+    // Severe speeding: one interval for Truck 101, two (on two stream pages) for Truck 102
+    const speedingTo = (chatId: number, title: string) =>
+      texts(telegram.sentTo(chatId)).filter((t) => t.includes(title));
+    assert.equal(speedingTo(CHAT_A, alertMessages.en.severeSpeedingTitle).length, 1);
+    assert.equal(speedingTo(CHAT_B, alertMessages.ru.severeSpeedingTitle).length, 2);
+
+    assert.equal(await sentToChat('evt-crash-104'), BigInt(CHAT_A));
+    assert.equal(await sentToChat('evt-red-light-102'), BigInt(CHAT_B));
+    // No group for Truck 103: logged, not sent
+    assert.equal(await sentToChat('evt-unmapped-103'), null);
+    // Excluded by the default rules
+    assert.equal(await sentToChat('evt-following-101'), undefined);
+
+    const otherChats = telegram.sent().filter((c) => ![CHAT_A, CHAT_B].includes(Number(c.payload.chat_id)));
+    assert.deepEqual(otherChats, []);
+  });
+
+  test('does not alert the same event twice', async () => {
+    await runPoll();
+    const sent = telegram.sent().length;
+    const logs = await prisma.safetyEventLog.count();
+    assert.ok(sent > 0);
+
+    await runPoll();
+
+    assert.equal(telegram.sent().length, sent);
+    assert.equal(await prisma.safetyEventLog.count(), logs);
+    assert.equal(await prisma.outboxMessage.count({ where: { status: { not: 'sent' } } }), 0);
+  });
+
+  test('waits for the video, then sends it', async () => {
+    await runPoll();
+
+    // Under SAFETY_MEDIA_READY_DELAY_MINUTES: not even looked up
+    assert.equal(await sentToChat('evt-fresh-101'), undefined);
+    // No video yet and younger than SAFETY_MEDIA_MAX_WAIT_MINUTES: looked up, left for the next run
+    assert.equal(await sentToChat('evt-rolling-stop-102'), undefined);
+    assert.ok(
+      samsara.requestsTo('/fleet/safety-events').some((r) => r.query.get('vehicleIds') === VEHICLE_ID(102)),
+      'media lookup for the vehicle'
+    );
+    // Still no video after SAFETY_MEDIA_MAX_WAIT_MINUTES: sent as text
+    assert.equal(await sentToChat('evt-no-yield-101'), BigInt(CHAT_A));
+    assert.ok(texts(telegram.sentTo(CHAT_A)).some((t) => /Did Not Yield/.test(t)));
+
+    // Samsara finishes the upload
+    const videoUrl = 'https://samsara-media.example.com/evt-rolling-stop-102/forward.mp4?X-Amz-Signature=late';
+    samsara.safetyEvent('evt-rolling-stop-102').downloadForwardVideoUrl = videoUrl;
+    telegram.reset();
+
+    await runPoll();
+
+    assert.deepEqual(videos(telegram.sentTo(CHAT_B)), [videoUrl]);
+    assert.equal(await sentToChat('evt-rolling-stop-102'), BigInt(CHAT_B));
+    assert.equal(await sentToChat('evt-fresh-101'), undefined);
+  });
+
+  test('keeps the safety cursor when Samsara fails, and catches up on the next run', async () => {
+    samsara.failNext('/fleet/safety-events', 503, 2); // First attempt and its retry
+
+    await runPoll();
+
+    assert.deepEqual(videos(telegram.sent()), []);
+    assert.equal(await prisma.pollCursor.findUnique({ where: { source: 'safety' } }), null);
+    assert.ok(await prisma.pollCursor.findUnique({ where: { source: 'speeding' } }));
+
+    await runPoll();
+
+    assert.equal(videos(telegram.sent()).length, 3);
+    assert.ok(await prisma.pollCursor.findUnique({ where: { source: 'safety' } }));
+  });
+});
@@ -0,0 +1,228 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+
+/**
+ * Offline Samsara API for tests and local runs.
+ *
+ * Serves recorded fixtures (test/fixtures/samsara) for:
+ * - GET /fleet/vehicles (after / endCursor paging);
+ * - GET /fleet/safety-events (startTime / endTime / vehicleIds filters, after / endCursor paging);
+ * - PATCH /fleet/safety-events/{id} (coachingState, applied to the fixture);
+ * - GET /speeding-intervals/stream (repeated assetIds, cursor / nextCursor paging).
+ *
+ * Fixture times are shifted so that the recording's "recordedAt" is the moment the
+ * fixture is loaded: an event recorded 20 minutes before recordedAt is always 20 minutes old.
+ *
+ * Run it standalone and point the bot at it:
+ *   npm run samsara:stub          (SAMSARA_STUB_PORT, default 4010)
+ *   SAMSARA_BASE_URL=http://localhost:4010 npm run dev
+ */
+
+export const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'samsara');
+
+export type SamsaraFixtures = {
+  vehicles: any[];
+  safetyEvents: any[];
+  speeding: { asset: { id: string }; intervals: any[] }[];
+};
+
+export type RecordedRequest = { method: string; path: string; query: URLSearchParams; body?: any };
+
+type StubFailure = { status: number; remaining: number; headers?: Record<string, string> };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Shift every ISO timestamp in a fixture by `offsetMs`.
+ */
+function shiftTimes<T>(value: T, offsetMs: number): T {
+  if (typeof value === 'string' && ISO_DATE.test(value)) {
+    return new Date(new Date(value).getTime() + offsetMs).toISOString() as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => shiftTimes(v, offsetMs)) as any;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, shiftTimes(v, offsetMs)])) as any;
+  }
+  return value;
+}
+
+function readFixture(name: string, now: Date): any {
+  const raw = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8'));
+  const offsetMs = raw.recordedAt ? now.getTime() - new Date(raw.recordedAt).getTime() : 0;
+  return shiftTimes(raw.data, offsetMs);
+}
+
+/**
+ * Load the recorded fixtures, rebased to `now`.
+ */
+export function loadSamsaraFixtures(now: Date = new Date()): SamsaraFixtures {
+  return {
+    vehicles: readFixture('vehicles.json', now),
+    safetyEvents: readFixture('safety-events.json', now),
+    speeding: readFixture('speeding-intervals.json', now),
+  };
+}
+
+function paginate<T>(items: T[], after: string | null, pageSize: number): { page: T[]; next: string | null } {
+  const start = after ? parseInt(after, 10) || 0 : 0;
+  const end = start + pageSize;
+  return { page: items.slice(start, end), next: end < items.length ? String(end) : null };
+}
+
+function eventTime(event: any): number {
+  return new Date(event.time || event.occurredAt || event.startTime).getTime();
+}
+
+export class SamsaraStub {
+  fixtures: SamsaraFixtures;
+  readonly requests: RecordedRequest[] = [];
+  pageSize = 2; // Small pages so every caller has to follow the cursors
+  private readonly failures = new Map<string, StubFailure>();
+  private server: http.Server | null = null;
+
+  constructor(fixtures: SamsaraFixtures = loadSamsaraFixtures()) {
+    this.fixtures = fixtures;
+  }
+
+  get baseUrl(): string {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      throw new Error('Samsara stub is not listening');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  /**
+   * Reload the fixtures (rebased to now) and forget requests and failures.
+   */
+  reset(now: Date = new Date()): void {
+    this.fixtures = loadSamsaraFixtures(now);
+    this.requests.length = 0;
+    this.failures.clear();
+  }
+
+  /**
+   * Answer the next `times` requests to `path` with an HTTP error.
+   */
+  failNext(path: string, status: number, times = 1, headers?: Record<string, string>): void {
+    this.failures.set(path, { status, remaining: times, headers });
+  }
+
+  safetyEvent(id: string): any {
+    const event = this.fixtures.safetyEvents.find((e) => e.id === id);
+    if (!event) {
+      throw new Error(`No safety event ${id} in fixtures`);
+    }
+    return event;
+  }
+
+  requestsTo(path: string): RecordedRequest[] {
+    return this.requests.filter((r) => r.path === path);
+  }
+
+  listen(port = 0): Promise<void> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    return new Promise((resolve) => this.server!.listen(port, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      this.route(req, res, raw ? JSON.parse(raw) : undefined);
+    });
+  }
+
+  private route(req: http.IncomingMessage, res: http.ServerResponse, body: any): void {
+    const url = new URL(req.url || '/', 'http://localhost');
+    this.requests.push({ method: req.method || 'GET', path: url.pathname, query: url.searchParams, body });
+
+    const send = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      send(401, { message: 'Missing bearer token' });
+      return;
+    }
+
+    const failure = this.failures.get(url.pathname);
+    if (failure && failure.remaining > 0) {
+      failure.remaining -= 1;
+      send(failure.status, { message: `Stubbed ${failure.status}` }, failure.headers);
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/fleet/vehicles') {
+      const { page, next } = paginate(this.fixtures.vehicles, url.searchParams.get('after'), this.pageSize);
+      send(200, { data: page, pagination: { endCursor: next ?? '', hasNextPage: next !== null } });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/fleet/safety-events') {
+      const from = new Date(url.searchParams.get('startTime') || 0).getTime();
+      const to = new Date(url.searchParams.get('endTime') || Date.now()).getTime();
+      const vehicleIds = (url.searchParams.get('vehicleIds') || '').split(',').filter(Boolean);
+      const limit = parseInt(url.searchParams.get('limit') || '', 10) || this.pageSize;
+      const matching = this.fixtures.safetyEvents.filter(
+        (e) =>
+          eventTime(e) >= from &&
+          eventTime(e) < to &&
+          (!vehicleIds.length || vehicleIds.includes(String(e.vehicle?.id)))
+      );
+      const { page, next } = paginate(matching, url.searchParams.get('after'), Math.min(limit, this.pageSize));
+      send(200, { data: page, pagination: { endCursor: next ?? '', hasNextPage: next !== null } });
+      return;
+    }
+
+    const safetyEventPath = /^\/fleet\/safety-events\/([^/]+)$/.exec(url.pathname);
+    if (req.method === 'PATCH' && safetyEventPath) {
+      const event = this.fixtures.safetyEvents.find((e) => e.id === decodeURIComponent(safetyEventPath[1]));
+      if (!event) {
+        send(404, { message: `Safety event ${safetyEventPath[1]} not found` });
+        return;
+      }
+      if (body?.coachingState) {
+        event.coachingState = body.coachingState;
+      }
+      send(200, { data: event });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === '/speeding-intervals/stream') {
+      const from = new Date(url.searchParams.get('startTime') || 0).getTime();
+      const to = new Date(url.searchParams.get('endTime') || Date.now()).getTime();
+      const assetIds = url.searchParams.getAll('assetIds');
+      // One interval per page, across the requested assets
+      const intervals = this.fixtures.speeding
+        .filter((r) => !assetIds.length || assetIds.includes(r.asset.id))
+        .flatMap((r) => r.intervals.map((interval) => ({ asset: r.asset, interval })))
+        .filter(({ interval }) => eventTime(interval) >= from && eventTime(interval) < to);
+      const { page, next } = paginate(intervals, url.searchParams.get('cursor'), 1);
+      send(200, {
+        data: page.map(({ asset, interval }) => ({ asset, intervals: [interval] })),
+        pagination: next ? { nextCursor: next } : {},
+      });
+      return;
+    }
+
+    send(404, { message: `No stub for ${req.method} ${url.pathname}` });
+  }
+}
+
+if (require.main === module) {
+  const stub = new SamsaraStub();
+  const port = parseInt(process.env.SAMSARA_STUB_PORT || '4010', 10);
+  stub.listen(port).then(() => {
+    console.log(`🧪 Samsara stub on ${stub.baseUrl} (fixtures rebased to now)`);
+  });
+}
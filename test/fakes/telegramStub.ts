@@ -0,0 +1,112 @@
+import http from 'http';
+
+/**
+ * Fake Telegram Bot API that records outgoing calls.
+ *
+ * Point Telegraf at it with TELEGRAM_API_ROOT=<baseUrl>. Every method answers
+ * { ok: true } with a message-like result, so sends, edits and button updates succeed.
+ * JSON bodies are recorded as sent; multipart uploads (video files) keep their text
+ * fields and mark file parts as "<upload>".
+ */
+
+export type TelegramCall = { method: string; payload: Record<string, any> };
+
+// Methods whose result is a Message
+const MESSAGE_METHODS = new Set([
+  'sendMessage',
+  'sendVideo',
+  'sendPhoto',
+  'sendDocument',
+  'copyMessage',
+  'editMessageText',
+  'editMessageCaption',
+  'editMessageReplyMarkup',
+]);
+
+function parseMultipart(body: string, contentType: string): Record<string, any> {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType);
+  if (!boundary) {
+    return {};
+  }
+  const fields: Record<string, any> = {};
+  for (const part of body.split(`--${boundary[1] ?? boundary[2]}`)) {
+    const name = /name="([^"]+)"/.exec(part)?.[1];
+    if (!name) continue;
+    const value = part.slice(part.indexOf('\r\n\r\n') + 4).replace(/\r\n$/, '');
+    fields[name] = /filename="/.test(part) ? '<upload>' : value;
+  }
+  return fields;
+}
+
+export class TelegramStub {
+  readonly calls: TelegramCall[] = [];
+  private nextMessageId = 1000;
+  private server: http.Server | null = null;
+
+  get apiRoot(): string {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      throw new Error('Telegram stub is not listening');
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  /**
+   * Messages posted to a chat (sendMessage / sendVideo / ...), oldest first.
+   */
+  sentTo(chatId: number | string): TelegramCall[] {
+    return this.calls.filter(
+      (c) => c.method.startsWith('send') && String(c.payload.chat_id) === String(chatId)
+    );
+  }
+
+  /**
+   * All messages posted (any chat).
+   */
+  sent(): TelegramCall[] {
+    return this.calls.filter((c) => c.method.startsWith('send'));
+  }
+
+  listen(port = 0): Promise<void> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    return new Promise((resolve) => this.server!.listen(port, '127.0.0.1', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      // /bot<token>/<method>
+      const method = (req.url || '').split('?')[0].split('/').pop() || '';
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const contentType = req.headers['content-type'] || '';
+      let payload: Record<string, any> = {};
+      if (contentType.includes('multipart/form-data')) {
+        payload = parseMultipart(raw, contentType);
+      } else if (raw) {
+        payload = JSON.parse(raw);
+      }
+      this.calls.push({ method, payload });
+
+      const result = MESSAGE_METHODS.has(method)
+        ? {
+            message_id: payload.message_id ? Number(payload.message_id) : this.nextMessageId++,
+            date: Math.floor(Date.now() / 1000),
+            chat: { id: Number(payload.chat_id), type: 'supergroup' },
+            ...(payload.text ? { text: payload.text } : {}),
+            ...(payload.caption ? { caption: payload.caption } : {}),
+          }
+        : true;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, result }));
+    });
+  }
+}
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { getSafetyEventsInWindow } from '../src/samsara';
+import {
+  createSamsaraClient,
+  SamsaraAuthError,
+  SamsaraClient,
+  SamsaraRateLimitError,
+  setSamsaraClient,
+} from '../src/services/samsaraClient';
+import { SamsaraStub } from './fakes/samsaraStub';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Samsara client against the stub server', () => {
+  const samsara = new SamsaraStub();
+  let client: SamsaraClient;
+
+  before(async () => {
+    await samsara.listen();
+  });
+
+  after(async () => {
+    setSamsaraClient(null);
+    await samsara.close();
+  });
+
+  beforeEach(() => {
+    samsara.reset();
+    client = createSamsaraClient({ baseUrl: samsara.baseUrl, token: 'test-token', maxRetries: 1, baseRetryDelayMs: 10 });
+    setSamsaraClient(client);
+  });
+
+  test('follows safety event cursors through the whole window', async () => {
+    const now = new Date();
+    const result = await getSafetyEventsInWindow({ from: new Date(now.getTime() - HOUR_MS), to: now });
+
+    assert.equal(result.error, null);
+    assert.equal(result.truncated, false);
+    assert.equal(result.events.length, samsara.fixtures.safetyEvents.length);
+    assert.equal(result.pages, Math.ceil(samsara.fixtures.safetyEvents.length / samsara.pageSize));
+  });
+
+  test('reports truncation at maxEvents', async () => {
+    const now = new Date();
+    const result = await getSafetyEventsInWindow({ from: new Date(now.getTime() - HOUR_MS), to: now }, 3);
+
+    assert.equal(result.events.length, 3);
+    assert.equal(result.truncated, true);
+  });
+
+  test('retries a server error', async () => {
+    samsara.failNext('/fleet/vehicles', 503);
+
+    const page = await client.listVehicles();
+
+    assert.equal(page.data.length, samsara.pageSize);
+    assert.equal(client.getMetrics().endpoints['GET /fleet/vehicles'].retries, 1);
+  });
+
+  test('tells a failed window apart from an empty one', async () => {
+    samsara.failNext('/fleet/safety-events', 500, 2);
+    const now = new Date();
+
+    const failed = await getSafetyEventsInWindow({ from: new Date(now.getTime() - HOUR_MS), to: now });
+    const empty = await getSafetyEventsInWindow({ from: new Date(now.getTime() + HOUR_MS), to: new Date(now.getTime() + 2 * HOUR_MS) });
+
+    assert.deepEqual(failed.events, []);
+    assert.equal(failed.error?.kind, 'server');
+    assert.deepEqual(empty.events, []);
+    assert.equal(empty.error, null);
+  });
+
+  test('does not wait out a long Retry-After', async () => {
+    samsara.failNext('/fleet/vehicles', 429, 1, { 'Retry-After': '120' });
+
+    await assert.rejects(client.listVehicles(), (err: unknown) => {
+      assert.ok(err instanceof SamsaraRateLimitError);
+      assert.equal(err.retryAfterMs, 120 * 1000);
+      return true;
+    });
+    assert.equal(samsara.requestsTo('/fleet/vehicles').length, 1);
+  });
+
+  test('raises an auth error without retrying', async () => {
+    samsara.failNext('/fleet/vehicles', 401, 2);
+
+    await assert.rejects(client.listVehicles(), SamsaraAuthError);
+    assert.equal(samsara.requestsTo('/fleet/vehicles').length, 1);
+  });
+
+  test('sets the coaching state of a safety event', async () => {
+    const result = await client.updateSafetyEventCoachingState('evt-harsh-brake-101', 'coached');
+
+    assert.deepEqual(result, { ok: true });
+    const [request] = samsara.requestsTo('/fleet/safety-events/evt-harsh-brake-101');
+    assert.equal(request.method, 'PATCH');
+    assert.deepEqual(request.body, { coachingState: 'coached' });
+    assert.equal(samsara.safetyEvent('evt-harsh-brake-101').coachingState, 'coached');
+  });
+
+  test('returns a failed coaching update instead of throwing', async () => {
+    samsara.failNext('/fleet/safety-events/evt-harsh-brake-101', 404);
+
+    const result = await client.updateSafetyEventCoachingState('evt-harsh-brake-101', 'dismissed');
+
+    assert.equal(result.ok, false);
+    assert.equal(!result.ok && result.status, 404);
+    assert.equal(samsara.requestsTo('/fleet/safety-events/evt-harsh-brake-101').length, 1);
+  });
+
+  test('pages speeding intervals with repeated assetIds and nextCursor', async () => {
+    const now = new Date();
+    const assetIds = samsara.fixtures.speeding.map((r) => r.asset.id);
+    const intervals: any[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.streamSpeedingIntervals({
+        startTime: new Date(now.getTime() - HOUR_MS).toISOString(),
+        endTime: now.toISOString(),
+        assetIds,
+        cursor,
+      });
+      intervals.push(...page.data.flatMap((r) => r.intervals ?? []));
+      cursor = page.pagination?.nextCursor;
+    } while (cursor);
+
+    const expected = samsara.fixtures.speeding.reduce((n, r) => n + r.intervals.length, 0);
+    assert.equal(intervals.length, expected);
+    assert.deepEqual(samsara.requestsTo('/speeding-intervals/stream')[0].query.getAll('assetIds'), assetIds);
+  });
+});